@@ -1,10 +1,12 @@
 /**
  * Worker CLI for AI Agent Entrance
- * Usage: worker-cli.js <start|stop|restart|status|hook>
+ * Usage: worker-cli.js <start|stop|restart|status|hook|routing-eval|routing-export>
  */
 
+import { readFileSync, writeFileSync } from 'fs';
 import { ProcessManager } from '../services/infrastructure/process-manager.js';
 import { getWorkerPort, getWorkerHost } from '../shared/config.js';
+import type { RoutingStrategyName } from '../shared/types.js';
 
 const IS_TTY = process.stdin.isTTY;
 const JSON_OUTPUT = '{"continue": true, "suppressOutput": true}';
@@ -111,7 +113,8 @@ async function hook(hookType: string): Promise<void> {
     if (hookType === 'context') {
       // GET request for context injection
       const project = process.env.CLAUDE_PROJECT || process.cwd();
-      response = await fetch(`http://${host}:${port}${endpoint}?project=${encodeURIComponent(project)}`, {
+      const query = `project=${encodeURIComponent(project)}&cwd=${encodeURIComponent(process.cwd())}`;
+      response = await fetch(`http://${host}:${port}${endpoint}?${query}`, {
         signal: AbortSignal.timeout(30000),
       });
     } else {
@@ -149,6 +152,85 @@ async function hook(hookType: string): Promise<void> {
   }
 }
 
+/**
+ * Read `--name value` from argv, returning the value and removing both entries
+ */
+function takeOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const [, value] = args.splice(index, 2);
+  return value;
+}
+
+function takeFlag(args: string[], name: string): boolean {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return false;
+  args.splice(index, 1);
+  return true;
+}
+
+async function routingEval(args: string[]): Promise<void> {
+  const strategy = takeOption(args, 'strategy') as RoutingStrategyName | undefined;
+  const installed = takeOption(args, 'installed');
+  const minAccuracy = takeOption(args, 'min-accuracy');
+  const json = takeFlag(args, 'json');
+  const corpusPath = args[0];
+
+  if (!corpusPath) {
+    console.error('Usage: worker-cli.js routing-eval <corpus.jsonl> [--strategy keywords|rules|llm] [--installed a,b] [--min-accuracy 0.8] [--json]');
+    process.exit(1);
+  }
+
+  // Loaded lazily so hook invocations don't pay for the routing stack
+  const { parseCorpus, evaluateRouting, formatEvalReport } = await import('../services/routing/evaluation.js');
+  const { getRoutingService } = await import('../services/routing.js');
+
+  const { cases, errors } = parseCorpus(readFileSync(corpusPath, 'utf-8'));
+  for (const error of errors) {
+    console.error(`${corpusPath}: ${error}`);
+  }
+
+  const report = await evaluateRouting(getRoutingService(), cases, {
+    installedTools: installed ? installed.split(',').map(t => t.trim()).filter(Boolean) : [],
+    context: { strategy, cwd: process.cwd() },  // picks up the project's .ai-agent-entrance.yaml
+  });
+
+  console.log(json ? JSON.stringify(report, null, 2) : formatEvalReport(report));
+
+  // Non-zero exit when task_type accuracy is below the threshold (for CI)
+  if (minAccuracy && report.task_type.accuracy < parseFloat(minAccuracy)) {
+    console.error(`task_type accuracy ${report.task_type.accuracy} is below ${minAccuracy}`);
+    process.exit(2);
+  }
+  process.exit(errors.length > 0 ? 1 : 0);
+}
+
+async function routingExport(args: string[]): Promise<void> {
+  const project = takeOption(args, 'project');
+  const limit = parseInt(takeOption(args, 'limit') || '500', 10);
+  const outPath = args[0];
+
+  const { sessionsToCorpus } = await import('../services/routing/evaluation.js');
+  const { getStore } = await import('../services/database/store.js');
+
+  const store = getStore();
+  await store.initialize();
+  const entries = sessionsToCorpus(
+    store.getSessionsWithPrompts(project, limit),
+    store.getRecentSessionPrompts(project, limit)
+  ).slice(0, limit);
+  store.close();
+
+  const jsonl = entries.map(e => JSON.stringify(e)).join('\n') + (entries.length > 0 ? '\n' : '');
+  if (outPath) {
+    writeFileSync(outPath, jsonl);
+    console.error(`Exported ${entries.length} prompts to ${outPath}; fill in task_type / product_line / workflow to label them`);
+  } else {
+    process.stdout.write(jsonl);
+  }
+  process.exit(0);
+}
+
 async function main(): Promise<void> {
   const command = process.argv[2];
 
@@ -173,8 +255,14 @@ async function main(): Promise<void> {
       }
       await hook(hookType);
       break;
+    case 'routing-eval':
+      await routingEval(process.argv.slice(3));
+      break;
+    case 'routing-export':
+      await routingExport(process.argv.slice(3));
+      break;
     default:
-      console.log('Usage: worker-cli.js <start|stop|restart|status|hook>');
+      console.log('Usage: worker-cli.js <start|stop|restart|status|hook|routing-eval|routing-export>');
       process.exit(1);
   }
 }
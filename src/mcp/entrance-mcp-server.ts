@@ -40,6 +40,17 @@ const TOOL_ENDPOINT_MAP: Record<string, { method: string; path: string }> = {
   git_commit_push:     { method: 'POST', path: '/api/sync/commit-push' },
   filter_sensitive:    { method: 'POST', path: '/api/security/filter' },
   get_knowledge_stats: { method: 'GET',  path: '/api/stats/knowledge' },
+  record_routing_feedback: { method: 'POST', path: '/api/routing/feedback' },
+  get_tool_status:     { method: 'GET',  path: '/api/tools/status' },
+  get_ai_usage:        { method: 'GET',  path: '/api/stats/ai' },
+  list_knowledge_drafts:   { method: 'GET',  path: '/api/knowledge/promotions' },
+  edit_knowledge_draft:    { method: 'POST', path: '/api/knowledge/promotions/edit' },
+  approve_knowledge_draft: { method: 'POST', path: '/api/knowledge/promotions/approve' },
+  reject_knowledge_draft:  { method: 'POST', path: '/api/knowledge/promotions/reject' },
+  snooze_knowledge_draft:  { method: 'POST', path: '/api/knowledge/promotions/snooze' },
+  review_knowledge:        { method: 'POST', path: '/api/knowledge/review' },
+  get_asset_history:       { method: 'GET',  path: '/api/knowledge-assets/history' },
+  rollback_asset:          { method: 'POST', path: '/api/knowledge-assets/rollback' },
 };
 
 // ============================================================================
@@ -56,6 +67,7 @@ const TOOLS = [
         query: { type: 'string', description: '搜索关键词 / Search query' },
         product_line: { type: 'string', description: '产品线过滤 / Product line filter (e.g. exchange/core)' },
         type: { type: 'string', description: '资产类型 / Asset type (pitfall, adr, best-practice, etc.)' },
+        status: { type: 'string', description: '状态过滤，逗号分隔 / Status filter, comma-separated: draft, pending, published (default: published)' },
         limit: { type: 'number', description: '返回数量 / Max results (default: 20)' },
       },
       required: ['query'],
@@ -82,6 +94,7 @@ const TOOLS = [
         type: { type: 'string', description: '按类型过滤 / Filter by type' },
         product_line: { type: 'string', description: '按产品线过滤 / Filter by product line' },
         promoted: { type: 'boolean', description: '仅已推送 / Only promoted assets' },
+        status: { type: 'string', description: '状态过滤，逗号分隔 / Status filter, comma-separated: draft, pending, published (default: published)' },
         limit: { type: 'number', description: '返回数量 / Max results' },
       },
     },
@@ -113,13 +126,14 @@ const TOOLS = [
           description: '资产类型 / Asset type',
         },
         name: { type: 'string', description: '唯一标识名 / Unique slug name' },
-        product_line: { type: 'string', description: '产品线 / Product line' },
+        product_line: { type: 'string', description: '产品线 / Product line (默认按内容自动识别 / detected from content when omitted)' },
         title: { type: 'string', description: '标题 / Title' },
         content: { type: 'string', description: '内容 / Content (markdown)' },
         tags: { type: 'array', items: { type: 'string' }, description: '标签 / Tags' },
         source_project: { type: 'string', description: '来源项目 / Source project path' },
+        author: { type: 'string', description: '修订作者，记入修订历史 / Author recorded in the revision history' },
       },
-      required: ['type', 'name', 'product_line', 'title', 'content'],
+      required: ['type', 'name', 'title', 'content'],
     },
   },
   {
@@ -181,6 +195,164 @@ const TOOLS = [
       },
     },
   },
+  {
+    name: 'record_routing_feedback',
+    description: '记录路由反馈：实际使用的工作流及结果，用于自适应路由。Record which workflow a session actually used and whether it succeeded.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        session_id: { type: 'string', description: '会话ID / Session ID' },
+        project: { type: 'string', description: '项目路径 / Project (required without session_id)' },
+        actual_workflow: {
+          type: 'string',
+          enum: ['superpowers', 'bmad', 'openspec', 'speckit', 'plan', 'ralph'],
+          description: '实际使用的工作流 / Workflow actually used (默认取会话中检测到的 / detected from the session when omitted)',
+        },
+        success: { type: 'boolean', description: '是否成功 / Whether the session succeeded' },
+        task_type: { type: 'string', description: '任务类型 / Task type (默认按会话首个提问识别 / derived from the session prompt when omitted)' },
+        note: { type: 'string', description: '备注 / Note' },
+      },
+      required: ['success'],
+    },
+  },
+  {
+    name: 'get_tool_status',
+    description: '查看工作流工具安装状态（按 workflow-routes.yaml 的 check_cmd 检测）。Get installed status of workflow tools for a project.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        cwd: { type: 'string', description: '项目目录 / Project directory' },
+        refresh: { type: 'boolean', description: '忽略缓存重新检测 / Bypass the cache and re-run checks' },
+      },
+      required: ['cwd'],
+    },
+  },
+  {
+    name: 'get_ai_usage',
+    description: '查看 AI 调用的 token 用量、延迟和项目预算。Get AI token usage (by day, task, model, project) and token budget status.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        project: { type: 'string', description: '项目路径 / Project (默认全部 / all projects when omitted)' },
+        days: { type: 'number', description: '统计天数 / Days to cover (default: 30)' },
+      },
+    },
+  },
+  {
+    name: 'list_knowledge_drafts',
+    description: '列出待审核的知识草稿（由可沉淀的 observation 生成）。List knowledge drafts in the review queue.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        project: { type: 'string', description: '项目路径 / Project' },
+        status: {
+          type: 'string',
+          enum: ['pending', 'approved', 'rejected'],
+          description: '审核状态 / Review status (default: pending)',
+        },
+        include_snoozed: { type: 'boolean', description: '包含暂缓的草稿 / Include snoozed drafts' },
+        limit: { type: 'number', description: '返回数量 / Max results (default: 50)' },
+      },
+    },
+  },
+  {
+    name: 'edit_knowledge_draft',
+    description: '修改待审核的知识草稿。Edit a pending knowledge draft before approval.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '草稿ID / Draft ID' },
+        type: {
+          type: 'string',
+          enum: ['pitfall', 'adr', 'glossary', 'best-practice', 'pattern', 'discovery', 'skill', 'reference'],
+          description: '资产类型 / Asset type',
+        },
+        name: { type: 'string', description: '资产名称 (slug) / Asset slug name' },
+        product_line: { type: 'string', description: '产品线 / Product line' },
+        title: { type: 'string', description: '标题 / Title' },
+        content: { type: 'string', description: '内容 / Content (markdown)' },
+        tags: { type: 'array', items: { type: 'string' }, description: '标签 / Tags' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'approve_knowledge_draft',
+    description: '批准知识草稿，写入知识资产（同名资产会被更新）。Approve a draft and upsert it into knowledge assets.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '草稿ID / Draft ID' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'reject_knowledge_draft',
+    description: '拒绝知识草稿；只传 project 时拒绝该项目全部待审核草稿。Reject a draft (or all active drafts of a project) with a reason.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '草稿ID / Draft ID' },
+        project: { type: 'string', description: '项目路径，不传 id 时使用 / Project, used when id is omitted' },
+        reason: { type: 'string', description: '拒绝原因 / Reason' },
+      },
+    },
+  },
+  {
+    name: 'snooze_knowledge_draft',
+    description: '暂缓知识草稿的提醒；只传 project 时暂缓该项目全部草稿。Snooze reminders for a draft (or all drafts of a project).',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '草稿ID / Draft ID' },
+        project: { type: 'string', description: '项目路径，不传 id 时使用 / Project, used when id is omitted' },
+        hours: { type: 'number', description: '暂缓小时数 / Hours to snooze (default: 24)' },
+      },
+    },
+  },
+  {
+    name: 'review_knowledge',
+    description: '审核 draft / pending 状态的知识资产：批准后发布，拒绝则删除。Approve (publish) or reject (delete) an unpublished knowledge asset.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '资产ID / Asset ID' },
+        action: { type: 'string', enum: ['approve', 'reject'], description: '批准或拒绝 / approve or reject' },
+        author: { type: 'string', description: '审核人，记入修订历史 / Reviewer recorded in the revision history' },
+        reason: { type: 'string', description: '拒绝原因 / Reason for rejecting' },
+      },
+      required: ['id', 'action'],
+    },
+  },
+  {
+    name: 'get_asset_history',
+    description: '查看知识资产的修订历史及每次修改的 diff。Get the revisions of a knowledge asset with unified diffs.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '资产ID / Asset ID' },
+        name: { type: 'string', description: '资产名称 / Asset name' },
+        product_line: { type: 'string', description: '产品线 / Product line (required with name)' },
+        limit: { type: 'number', description: '返回修订数 / Max revisions (default: 20)' },
+      },
+    },
+  },
+  {
+    name: 'rollback_asset',
+    description: '将知识资产回滚到指定修订，并标记为待推送到 L2。Restore a revision of an asset and mark it for re-push.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        id: { type: 'number', description: '资产ID / Asset ID' },
+        name: { type: 'string', description: '资产名称 / Asset name' },
+        product_line: { type: 'string', description: '产品线 / Product line (required with name)' },
+        revision: { type: 'number', description: '要恢复的修订号 / Revision to restore' },
+        author: { type: 'string', description: '操作人 / Who is rolling back' },
+      },
+      required: ['revision'],
+    },
+  },
 ];
 
 // ============================================================================
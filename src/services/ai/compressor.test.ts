@@ -0,0 +1,159 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { CompressorService } from './compressor.js';
+import { getSettingsPath } from '../../shared/config.js';
+
+let dataDir: string;
+let server: Server;
+let baseUrl: string;
+
+// Answers of the fake OpenAI-compatible endpoint, one per request (the last one repeats)
+let replies: { status: number; headers?: Record<string, string>; body?: unknown }[] = [];
+let requests = 0;
+
+const ROUTE_OPTIONS = { task_types: ['bug-fix'], workflows: [{ name: 'plan', description: '' }] };
+
+function writeSettings(settings: Record<string, string> = {}): void {
+  writeFileSync(getSettingsPath(), JSON.stringify({ AI_PROVIDER: 'openai', AI_BASE_URL: baseUrl, ...settings }));
+}
+
+/**
+ * One request through the breaker (routing is the request without a prompt template)
+ */
+function classify(compressor: CompressorService) {
+  return compressor.classifyRouting('fix the crash', ROUTE_OPTIONS);
+}
+
+before(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-compressor-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  delete process.env.AI_API_KEY;
+  delete process.env.OPENAI_API_KEY;
+
+  server = createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const reply = replies[Math.min(requests++, replies.length - 1)];
+      res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+      const args = JSON.stringify({ task_type: 'bug-fix', workflow: 'plan', confidence: 0.9, reason: 'crash' });
+      const success = { choices: [{ message: { tool_calls: [{ function: { arguments: args } }] } }] };
+      res.end(JSON.stringify(reply.body ?? (reply.status === 200 ? success : { error: `status ${reply.status}` })));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+});
+
+beforeEach(() => {
+  writeSettings();
+  replies = [{ status: 200 }];
+  requests = 0;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Circuit breaker
+// ============================================================================
+
+test('a rate limit opens the breaker until retry-after, then one probe closes it', async () => {
+  const compressor = new CompressorService();
+  assert.equal(compressor.getStatus().state, 'closed');
+
+  replies = [{ status: 429, headers: { 'retry-after-ms': '50' } }, { status: 200 }];
+  assert.equal(await classify(compressor), null);
+
+  let status = compressor.getStatus();
+  assert.equal(status.state, 'open');
+  assert.equal(status.enabled, false);
+  assert.equal(status.disabled_reason, 'rate_limited');
+  assert.ok(Date.parse(status.next_retry_at!) - Date.now() <= 50);
+
+  // No requests while open
+  assert.equal(await classify(compressor), null);
+  assert.equal(requests, 1);
+
+  await sleep(60);
+  assert.equal(compressor.getStatus().state, 'half_open');
+
+  // Only one probe is let through while it is in flight
+  const probe = classify(compressor);
+  assert.equal(compressor.isEnabled(), false);
+  assert.equal(await classify(compressor), null);
+
+  assert.equal((await probe)!.workflow, 'plan');
+  status = compressor.getStatus();
+  assert.deepEqual([status.state, status.disabled_reason, status.next_retry_at], ['closed', null, null]);
+  assert.equal(requests, 2);
+});
+
+test('a failed probe reopens the breaker with a longer cooldown', async () => {
+  const compressor = new CompressorService();
+  replies = [{ status: 429, headers: { 'retry-after-ms': '20' } }, { status: 503 }];
+
+  await classify(compressor);
+  await sleep(30);
+  await classify(compressor);
+
+  const status = compressor.getStatus();
+  assert.equal(status.state, 'open');
+  assert.equal(status.disabled_reason, 'unknown_error');
+  // Second opening without retry-after: 30s doubled
+  const cooldown = Date.parse(status.next_retry_at!) - Date.now();
+  assert.ok(cooldown > 55_000 && cooldown <= 60_000, String(cooldown));
+});
+
+test('transient errors open the breaker only after several in a row', async () => {
+  const compressor = new CompressorService();
+  replies = [{ status: 500 }];
+
+  for (let i = 0; i < 4; i++) {
+    await classify(compressor);
+  }
+  assert.equal(compressor.getStatus().state, 'closed');
+  assert.equal(compressor.getStatus().consecutive_failures, 4);
+
+  await classify(compressor);
+  assert.equal(compressor.getStatus().state, 'open');
+  assert.equal(compressor.getDisabledReason(), 'unknown_error');
+});
+
+test('reasons that need the user disable AI without retrying', async () => {
+  const invalidKey = new CompressorService();
+  replies = [{ status: 401 }];
+  await classify(invalidKey);
+  let status = invalidKey.getStatus();
+  assert.deepEqual([status.state, status.disabled_reason, status.next_retry_at], ['disabled', 'invalid_api_key', null]);
+  assert.equal(invalidKey.needsUserAction(), true);
+
+  writeSettings({ AI_COMPRESSION_ENABLED: 'false' });
+  status = new CompressorService().getStatus();
+  assert.deepEqual([status.state, status.disabled_reason], ['disabled', 'config_disabled']);
+
+  // An OpenAI-compatible provider without a key or a gateway URL
+  writeFileSync(getSettingsPath(), JSON.stringify({ AI_PROVIDER: 'openai' }));
+  status = new CompressorService().getStatus();
+  assert.deepEqual([status.state, status.disabled_reason, status.provider], ['disabled', 'no_api_key', 'openai']);
+});
+
+test('credit exhaustion is probed again after a long pause', async () => {
+  const compressor = new CompressorService();
+  // The endpoint's wording for an empty balance
+  replies = [{ status: 400, body: { error: { code: 'insufficient_quota' } } }];
+  await classify(compressor);
+
+  const status = compressor.getStatus();
+  assert.equal(status.state, 'open');
+  assert.equal(status.disabled_reason, 'credit_exhausted');
+  assert.ok(Date.parse(status.next_retry_at!) - Date.now() > 29 * 60 * 1000);
+  assert.equal(compressor.needsUserAction(), true);
+});
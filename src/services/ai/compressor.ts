@@ -5,121 +5,191 @@
  * 自动跳过压缩功能，不影响插件其他功能。
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import { getSetting, getSettingBool } from '../../shared/config.js';
+import { createHash } from 'crypto';
+import { getSettingBool, getSkipTools } from '../../shared/config.js';
 import { logger } from '../../utils/logger.js';
-import type { CompressionResult, SummaryResult, KnowledgeInput } from '../../shared/types.js';
+import {
+  parseModelJson,
+  validateCompressionResult,
+  validateCompressionBatch,
+  validateSummaryResult,
+  buildRepairPrompt,
+  ModelOutputError,
+  type ValidationResult,
+} from './output-validator.js';
+import {
+  getProviderName,
+  createProvider,
+  resolveModel,
+  checkProviderCredentials,
+  type AiProvider,
+  type AiProviderName,
+  type AiTask,
+  getRetryAfterMs,
+  type CompletionRequest,
+  type CompletionResponse,
+} from './providers.js';
+import { truncateToolOutput } from './output-truncator.js';
+import { renderPrompt, loadPromptTemplate, PromptTemplateError, type RenderedPrompt } from './prompt-templates.js';
+import type { AiUsageTracker } from './usage-tracker.js';
+import type { TranscriptChunk } from './transcript.js';
+import type { CompressionResult, SummaryResult, RoutingClassification, AiStatus } from '../../shared/types.js';
 
 // API 不可用的原因
 type DisabledReason =
-  | 'no_api_key'           // 未设置 ANTHROPIC_API_KEY
+  | 'no_api_key'           // 未设置当前 AI_PROVIDER 所需的 API Key
   | 'credit_exhausted'     // API 额度耗尽
   | 'invalid_api_key'      // API Key 无效
   | 'config_disabled'      // 配置禁用
   | 'rate_limited'         // 速率限制
   | 'unknown_error';       // 其他错误
 
+/**
+ * Notes of transcript chunks condensed on earlier Stops. `key` changes with the
+ * chunk's text and the notes template, so stale notes are never reused.
+ */
+export interface TranscriptNotesCache {
+  get(chunk: TranscriptChunk, key: string): string | null;
+  set(chunk: TranscriptChunk, key: string, notes: string): void;
+}
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+// 需要用户处理（改配置、换 Key）才能恢复，不自动探测
+const PERMANENT_REASONS: DisabledReason[] = ['config_disabled', 'no_api_key', 'invalid_api_key'];
+
+// 额度可能被充值，间隔较长地探测
+const CREDIT_RETRY_MS = 30 * 60 * 1000;
+
+// 速率限制 / 连续失败的冷却时间：30s 起按打开次数翻倍，最长 10 分钟（有 retry-after 时以其为准）
+const BASE_COOLDOWN_MS = 30 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+// 连续多少次其他错误（网络、5xx）后打开熔断
+const FAILURE_THRESHOLD = 5;
+
 // ============================================================================
 // Prompts
 // ============================================================================
 
-const COMPRESSION_PROMPT = `You are a knowledge extraction expert. Analyze the following tool call result and extract reusable knowledge.
-
-<tool_call>
-Tool: {tool_name}
-Input: {tool_input}
-Output (truncated to 2000 chars): {tool_output}
-Project: {project}
-</tool_call>
-
-Output a JSON object with this structure:
-{
-  "type": "decision|bugfix|feature|refactor|discovery|pitfall|change",
-  "title": "Short title (under 10 words)",
-  "subtitle": "Context description (under 20 words)",
-  "facts": ["Key fact 1", "Key fact 2"],
-  "narrative": "Complete description (under 50 words)",
-  "concepts": ["concept_tag_1", "concept_tag_2"],
-  "files_modified": ["path/to/file.ts"],
-  "should_store": true/false,
-  "knowledge_type": "pitfall|adr|glossary|best-practice|pattern|discovery" (optional, only if should_store is true)
-}
+// Compression and summary prompts are templates/prompts/*.md (see prompt-templates.ts)
 
-Rules:
-1. Only extract knowledge with long-term value
-2. Ignore temporary operations (simple ls, cat of single files, etc.)
-3. Focus on: architecture decisions, gotchas/pitfalls, best practices, term definitions
-4. Set should_store=true only for genuinely reusable knowledge
-5. Keep responses concise
-
-Respond with ONLY the JSON object, no markdown or explanation.`;
-
-const SUMMARY_PROMPT = `Analyze this conversation session and generate a summary.
-
-<session>
-Project: {project}
-User Request: {user_prompt}
-Observations:
-{observations}
-</session>
-
-Output a JSON object:
-{
-  "request": "What the user asked for",
-  "investigated": "What was explored/analyzed",
-  "learned": "Key learnings and discoveries",
-  "completed": "What was accomplished",
-  "next_steps": "Suggested follow-up actions",
-  "sinkable_knowledge": [
-    {
-      "type": "pitfall|adr|glossary|best-practice|pattern|discovery",
-      "title": "Knowledge title",
-      "content": "Detailed knowledge content",
-      "tags": ["tag1", "tag2"]
-    }
-  ]
-}
+const ROUTING_PROMPT = `You are the task router of a developer tool. Classify the user's request and pick the development workflow that fits it best.
+
+<request>
+{input}
+</request>
+
+Available workflows:
+{workflows}
 
 Rules:
-1. Be concise but comprehensive
-2. Focus on actionable insights
-3. Only include sinkable_knowledge for truly reusable learnings
-4. Each sinkable item should be self-contained and understandable without context
+1. Judge by intent, not isolated words ("don't refactor, just fix the crash" is a bug fix)
+2. Prefer "plan" for small or exploratory changes
+3. Lower the confidence when the request is ambiguous
+
+Answer by calling the route_task tool.`;
 
-Respond with ONLY the JSON object, no markdown or explanation.`;
+// Per-call output budget in the prompt
+const OUTPUT_TRUNCATE_CHARS = 2000;
+
+export interface ToolCallInput {
+  tool_name: string;
+  tool_input: string | object | undefined;
+  tool_output: string | undefined;
+}
+
+function formatToolCall(call: ToolCallInput): { input: string; output: string } {
+  // Normalize input to string (handle undefined/null)
+  const input = call.tool_input == null
+    ? ''
+    : (typeof call.tool_input === 'string' ? call.tool_input : JSON.stringify(call.tool_input));
+
+  // Normalize output to string (handle undefined/null), condensed per tool if too long
+  const output = call.tool_output == null ? '' : String(call.tool_output);
+  return {
+    input,
+    output: truncateToolOutput(call.tool_name, output, OUTPUT_TRUNCATE_CHARS),
+  };
+}
 
 // ============================================================================
 // Compressor Service
 // ============================================================================
 
 export class CompressorService {
-  private client: Anthropic | null = null;
-  private model: string;
+  private provider: AiProvider | null = null;
+  private providerName: AiProviderName;
+  private usageTracker: AiUsageTracker | null = null;
 
-  // 优雅降级状态
-  private aiEnabled: boolean = true;
+  // 优雅降级状态（熔断器）：disabledReason 为空时关闭（正常）；
+  // 否则打开，到 retryAt 后半开，放行一个探测请求，成功即恢复
   private disabledReason: DisabledReason | null = null;
-  private warningLogged: boolean = false;
+  private disabledAt: number | null = null;
+  private retryAt: number | null = null;   // null: 不自动恢复
+  private probing: boolean = false;
+  private openCount: number = 0;           // 连续打开次数，决定冷却时间
+  private consecutiveFailures: number = 0;
 
   constructor() {
-    this.model = getSetting('AI_MODEL');
+    this.providerName = getProviderName();
 
     // 检查是否通过配置禁用
     if (!getSettingBool('AI_COMPRESSION_ENABLED')) {
       this.disableAI('config_disabled');
     }
 
-    // 检查 API Key 是否存在
-    if (!process.env.ANTHROPIC_API_KEY) {
-      this.disableAI('no_api_key');
+    // 检查当前 provider 所需的 API Key 是否存在
+    const missing = checkProviderCredentials(this.providerName);
+    if (missing) {
+      this.disableAI(missing);
     }
   }
 
   /**
-   * 检查 AI 压缩是否可用
+   * 检查 AI 压缩是否可用（冷却结束、等待探测时也返回 true）
    */
   isEnabled(): boolean {
-    return this.aiEnabled;
+    if (!this.disabledReason) return true;
+    return !this.probing && this.retryAt !== null && Date.now() >= this.retryAt;
+  }
+
+  /**
+   * 记录每次请求的 token 用量并启用项目预算（由 Worker 注入）
+   */
+  setUsageTracker(tracker: AiUsageTracker): void {
+    this.usageTracker = tracker;
+  }
+
+  /**
+   * 项目 token 预算是否已用完（此时不发送请求）
+   */
+  isOverBudget(project: string): boolean {
+    return this.usageTracker?.isOverBudget(project) ?? false;
+  }
+
+  /**
+   * 熔断器状态，用于 /api/health
+   */
+  getStatus(): AiStatus {
+    let state: AiStatus['state'] = 'closed';
+    if (this.disabledReason) {
+      if (this.retryAt === null) state = 'disabled';
+      else if (this.probing || Date.now() >= this.retryAt) state = 'half_open';
+      else state = 'open';
+    }
+
+    return {
+      enabled: this.isEnabled(),
+      state,
+      provider: this.providerName,
+      disabled_reason: this.disabledReason,
+      disabled_since: this.disabledAt ? new Date(this.disabledAt).toISOString() : null,
+      next_retry_at: this.retryAt ? new Date(this.retryAt).toISOString() : null,
+      consecutive_failures: this.consecutiveFailures,
+    };
   }
 
   /**
@@ -130,36 +200,105 @@ export class CompressorService {
   }
 
   /**
-   * 禁用 AI 功能（优雅降级）
+   * AI 是否只能由用户处理后恢复（配置、Key、额度），此时改用离线提取。
+   * 额度耗尽到了探测时间后返回 false，让下一次压缩请求入队作为探测
    */
-  private disableAI(reason: DisabledReason): void {
-    if (this.aiEnabled) {
-      this.aiEnabled = false;
-      this.disabledReason = reason;
-
-      // 只记录一次警告
-      if (!this.warningLogged) {
-        this.warningLogged = true;
-        const messages: Record<DisabledReason, string> = {
-          no_api_key: 'ANTHROPIC_API_KEY 未设置，AI 压缩已禁用',
-          credit_exhausted: 'API 额度耗尽，AI 压缩已禁用（其他功能正常）',
-          invalid_api_key: 'API Key 无效，AI 压缩已禁用',
-          config_disabled: 'AI 压缩已通过配置禁用',
-          rate_limited: 'API 速率限制，AI 压缩暂时禁用',
-          unknown_error: 'API 调用失败，AI 压缩已禁用',
-        };
-        logger.warn('COMPRESS', messages[reason]);
-      }
+  needsUserAction(): boolean {
+    return (
+      this.disabledReason === 'config_disabled' ||
+      this.disabledReason === 'no_api_key' ||
+      this.disabledReason === 'invalid_api_key' ||
+      (this.disabledReason === 'credit_exhausted' && !this.isEnabled())
+    );
+  }
+
+  /**
+   * 当前 provider 及各任务使用的模型
+   */
+  getProviderInfo(): { provider: AiProviderName; models: Record<AiTask, string> } {
+    return {
+      provider: this.providerName,
+      models: {
+        compression: resolveModel(this.providerName, 'compression'),
+        summary: resolveModel(this.providerName, 'summary'),
+        routing: resolveModel(this.providerName, 'routing'),
+      },
+    };
+  }
+
+  /**
+   * 禁用 AI 功能（优雅降级）：打开熔断器，可恢复的原因在冷却后探测
+   */
+  private disableAI(reason: DisabledReason, retryAfterMs: number | null = null): void {
+    const wasDisabled = this.disabledReason !== null;
+    const wasProbing = this.probing;
+    this.probing = false;
+
+    // 永久原因优先，不被后续的临时错误覆盖
+    if (wasDisabled && PERMANENT_REASONS.includes(this.disabledReason!)) {
+      return;
+    }
+
+    this.disabledReason = reason;
+    this.disabledAt = wasDisabled ? this.disabledAt : Date.now();
+    this.openCount++;
+
+    if (PERMANENT_REASONS.includes(reason)) {
+      this.retryAt = null;
+    } else if (reason === 'credit_exhausted') {
+      this.retryAt = Date.now() + CREDIT_RETRY_MS;
+    } else {
+      const backoff = Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * Math.pow(2, this.openCount - 1));
+      this.retryAt = Date.now() + (retryAfterMs ?? backoff);
+    }
+
+    const messages: Record<DisabledReason, string> = {
+      no_api_key: `AI_PROVIDER=${this.providerName} 所需的 API Key 未设置，AI 压缩已禁用`,
+      credit_exhausted: 'API 额度耗尽，AI 压缩已暂停（其他功能正常）',
+      invalid_api_key: 'API Key 无效，AI 压缩已禁用',
+      config_disabled: 'AI 压缩已通过配置禁用',
+      rate_limited: 'API 速率限制，AI 压缩暂停',
+      unknown_error: 'API 连续调用失败，AI 压缩暂停',
+    };
+    const retry = this.retryAt ? `，${new Date(this.retryAt).toISOString()} 后重试` : '';
+    if (wasProbing) {
+      logger.warn('COMPRESS', `AI 恢复探测失败（${reason}）${retry}`);
+    } else {
+      logger.warn('COMPRESS', `${messages[reason]}${retry}`);
     }
   }
 
+  /**
+   * API 调用成功：重置失败计数，半开状态下关闭熔断器
+   */
+  private recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (!this.disabledReason || PERMANENT_REASONS.includes(this.disabledReason)) return;
+
+    const downtime = this.disabledAt ? Math.round((Date.now() - this.disabledAt) / 1000) : 0;
+    logger.info('COMPRESS', `AI 压缩已恢复（此前 ${this.disabledReason}，持续 ${downtime}s）`);
+
+    this.disabledReason = null;
+    this.disabledAt = null;
+    this.retryAt = null;
+    this.probing = false;
+    this.openCount = 0;
+  }
+
   /**
    * 检测 API 错误类型并决定是否禁用
    */
   private handleAPIError(error: unknown): void {
+    // 模型已应答但输出不可用 / 提示词模板有误，与 API 状态无关
+    if (error instanceof ModelOutputError || error instanceof PromptTemplateError) {
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorString = JSON.stringify(error);
 
+    const retryAfterMs = getRetryAfterMs(error);
+
     // 检测额度耗尽
     if (
       errorMessage.includes('credit balance is too low') ||
@@ -182,34 +321,146 @@ export class CompressorService {
 
     // 检测速率限制
     if (errorMessage.includes('rate_limit') || errorMessage.includes('429')) {
-      this.disableAI('rate_limited');
+      this.disableAI('rate_limited', retryAfterMs);
       return;
     }
 
-    // 其他错误：记录但不禁用（可能是临时网络问题）
+    // 其他错误（可能是临时网络问题）：探测失败或连续失败过多时暂停，否则只记录
+    this.consecutiveFailures++;
+    if (this.probing || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.disableAI('unknown_error', retryAfterMs);
+      return;
+    }
     logger.debug('COMPRESS', 'API call failed (will retry next time)', { error: errorMessage });
   }
 
-  private getClient(): Anthropic | null {
-    // 如果已禁用，返回 null
-    if (!this.aiEnabled) {
-      return null;
+  private getProvider(): AiProvider | null {
+    // 如果已禁用，返回 null；冷却结束后只放行一个探测请求
+    if (this.disabledReason) {
+      if (!this.isEnabled()) {
+        return null;
+      }
+      this.probing = true;
+      logger.info('COMPRESS', `探测 AI 是否恢复（${this.disabledReason}）`);
     }
 
-    if (!this.client) {
+    if (!this.provider) {
       try {
-        this.client = new Anthropic();
+        this.provider = createProvider(this.providerName);
       } catch (error) {
         this.handleAPIError(error);
         return null;
       }
     }
-    return this.client;
+    return this.provider;
+  }
+
+  /**
+   * Send one request with the model configured for `task`, recording its usage
+   */
+  private async complete(
+    provider: AiProvider,
+    task: AiTask,
+    project: string | null,
+    request: Omit<CompletionRequest, 'model'>
+  ): Promise<CompletionResponse> {
+    const model = resolveModel(this.providerName, task);
+    const started = Date.now();
+    const usage = { project, task, provider: provider.name, model };
+
+    try {
+      const response = await provider.complete({ ...request, model });
+      this.recordSuccess();
+      this.usageTracker?.record({ ...usage, ...response.usage, latency_ms: Date.now() - started, success: true });
+      return response;
+    } catch (error) {
+      this.usageTracker?.record({
+        ...usage,
+        input_tokens: 0,
+        output_tokens: 0,
+        latency_ms: Date.now() - started,
+        success: false,
+        error: (error as Error).message || String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Request a JSON answer and validate it. An answer with validation errors
+   * is sent back once with the errors (AI_OUTPUT_REPAIR_ENABLED); partial
+   * values (e.g. a batch with some invalid entries) are used if the retry
+   * doesn't fix them. Returns the value with the tokens of all requests, or
+   * null when the model gave no text; throws ModelOutputError when nothing
+   * usable came back.
+   */
+  private async completeJson<T>(
+    provider: AiProvider,
+    task: AiTask,
+    project: string,
+    request: Omit<CompletionRequest, 'model'>,
+    validate: (raw: unknown) => ValidationResult<T>
+  ): Promise<{ value: T; tokens: number } | null> {
+    const check = (text: string): ValidationResult<T> => {
+      try {
+        return validate(parseModelJson(text));
+      } catch (error) {
+        return { value: null, errors: (error as ModelOutputError).errors ?? [String(error)], repairs: [] };
+      }
+    };
+
+    const response = await this.complete(provider, task, project, request);
+    if (response.text === null) {
+      return null;
+    }
+    let tokens = response.usage.input_tokens + response.usage.output_tokens;
+
+    let result = check(response.text);
+    if (result.errors.length > 0 && getSettingBool('AI_OUTPUT_REPAIR_ENABLED')) {
+      logger.debug('COMPRESS', `Invalid ${task} output, asking the model to correct it`, { errors: result.errors });
+
+      const retry = await this.complete(provider, task, project, {
+        ...request,
+        prompt: buildRepairPrompt(request.prompt, response.text, result.errors),
+      });
+      tokens += retry.usage.input_tokens + retry.usage.output_tokens;
+      const repaired = retry.text === null ? null : check(retry.text);
+      if (repaired && (repaired.value || !result.value)) {
+        result = repaired;
+      }
+    }
+
+    if (result.repairs.length > 0) {
+      logger.debug('COMPRESS', `Repaired ${task} output`, { repairs: result.repairs });
+    }
+    if (!result.value) {
+      throw new ModelOutputError(`Invalid ${task} output: ${result.errors.join('; ')}`, result.errors);
+    }
+    if (result.errors.length > 0) {
+      logger.warn('COMPRESS', `Partially invalid ${task} output`, { errors: result.errors });
+    }
+    return { value: result.value, tokens };
+  }
+
+  /**
+   * Render the compression prompt for a tool call without sending it
+   * (also used by the dry-run endpoint). Throws PromptTemplateError.
+   */
+  renderCompressionPrompt(call: ToolCallInput, project: string): RenderedPrompt {
+    const formatted = formatToolCall(call);
+    return renderPrompt('compression', {
+      tool_name: call.tool_name,
+      tool_input: formatted.input,
+      tool_output: formatted.output,
+      output_limit: OUTPUT_TRUNCATE_CHARS,
+      project,
+    }, project);
   }
 
   /**
    * Compress a tool call result into structured observation
    * 优雅降级：API 不可用时返回 null，不影响其他功能
+   * 调用、模板或解析失败时抛出异常，由压缩队列决定是否重试
    */
   async compressToolCall(
     toolName: string,
@@ -217,43 +468,34 @@ export class CompressorService {
     toolOutput: string | undefined,
     project: string
   ): Promise<CompressionResult | null> {
-    // 优雅降级：如果 AI 已禁用，直接返回 null
-    const client = this.getClient();
-    if (!client) {
+    // 先渲染模板：模板错误不应占用熔断半开时的探测请求
+    const rendered = this.renderCompressionPrompt(
+      { tool_name: toolName, tool_input: toolInput, tool_output: toolOutput },
+      project
+    );
+
+    // 优雅降级：如果 AI 已禁用或项目预算用完，直接返回 null
+    const provider = this.isOverBudget(project) ? null : this.getProvider();
+    if (!provider) {
       return null;
     }
 
     try {
-      // Normalize input to string (handle undefined/null)
-      const inputStr = toolInput == null
-        ? ''
-        : (typeof toolInput === 'string' ? toolInput : JSON.stringify(toolInput));
-
-      // Normalize output to string (handle undefined/null)
-      const outputStr = toolOutput == null ? '' : String(toolOutput);
-
-      // Truncate output if too long
-      const truncatedOutput =
-        outputStr.length > 2000 ? outputStr.slice(0, 2000) + '...[truncated]' : outputStr;
-
-      const prompt = COMPRESSION_PROMPT.replace('{tool_name}', toolName)
-        .replace('{tool_input}', inputStr)
-        .replace('{tool_output}', truncatedOutput)
-        .replace('{project}', project);
-
-      const response = await client.messages.create({
-        model: this.model,
-        max_tokens: 1024,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
+      const answer = await this.completeJson(
+        provider,
+        'compression',
+        project,
+        { prompt: rendered.prompt, max_tokens: 1024 },
+        raw => validateCompressionResult(raw)
+      );
+      if (!answer) {
         return null;
       }
-
-      // Parse JSON response
-      const result = JSON.parse(content.text) as CompressionResult;
+      const result: CompressionResult = {
+        ...answer.value,
+        discovery_tokens: answer.tokens,
+        template_version: rendered.template_version,
+      };
 
       logger.debug('COMPRESS', `Compressed ${toolName}`, {
         shouldStore: result.should_store,
@@ -266,11 +508,66 @@ export class CompressorService {
       this.handleAPIError(error);
 
       // 只在非禁用情况下记录详细错误
-      if (this.aiEnabled) {
-        logger.error('COMPRESS', 'Failed to compress tool call', { toolName }, error as Error);
+      if (this.isEnabled()) {
+        logger.warn('COMPRESS', 'Failed to compress tool call', { toolName, error: (error as Error).message });
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Compress several tool calls of one session step in a single request.
+   * Returns one entry per call (null when the model skipped it); returns null
+   * when AI is unavailable and throws on API or parse failure, like compressToolCall.
+   */
+  async compressToolCalls(calls: ToolCallInput[], project: string): Promise<(CompressionResult | null)[] | null> {
+    const toolCalls = calls
+      .map((c, index) => {
+        const call = formatToolCall(c);
+        return `<tool_call index="${index}">\nTool: ${c.tool_name}\nInput: ${call.input}\nOutput (condensed to ${OUTPUT_TRUNCATE_CHARS} chars, omissions marked): ${call.output}\n</tool_call>`;
+      })
+      .join('\n\n');
+    const rendered = renderPrompt('compression-batch', { project, tool_calls: toolCalls }, project);
+
+    const provider = this.isOverBudget(project) ? null : this.getProvider();
+    if (!provider) {
       return null;
     }
+
+    try {
+      const answer = await this.completeJson(
+        provider,
+        'compression',
+        project,
+        { prompt: rendered.prompt, max_tokens: Math.min(8192, 512 * calls.length) },
+        raw => validateCompressionBatch(raw, calls.length)
+      );
+      if (!answer) {
+        return calls.map(() => null);
+      }
+
+      // The request's tokens are shared evenly by the calls it compressed
+      const perCall = Math.round(answer.tokens / calls.length);
+      const results = answer.value.map(r =>
+        (r ? { ...r, discovery_tokens: perCall, template_version: rendered.template_version } : null)
+      );
+
+      logger.debug('COMPRESS', `Compressed ${calls.length} tool calls in one request`, {
+        stored: results.filter(r => r?.should_store).length,
+      });
+
+      return results;
+    } catch (error) {
+      this.handleAPIError(error);
+
+      if (this.isEnabled()) {
+        logger.warn('COMPRESS', 'Failed to compress tool call batch', {
+          calls: calls.length,
+          error: (error as Error).message,
+        });
+      }
+      throw error;
+    }
   }
 
   /**
@@ -282,61 +579,185 @@ export class CompressorService {
     userPrompt: string,
     observations: Array<{ type: string; title: string; narrative?: string }>
   ): Promise<SummaryResult | null> {
-    // 优雅降级：如果 AI 已禁用，直接返回 null
-    const client = this.getClient();
-    if (!client) {
-      return null;
-    }
-
     try {
       // Format observations
       const obsText = observations
         .map((o, i) => `${i + 1}. [${o.type}] ${o.title}: ${o.narrative || 'N/A'}`)
         .join('\n');
 
-      const prompt = SUMMARY_PROMPT.replace('{project}', project)
-        .replace('{user_prompt}', userPrompt || 'Unknown')
-        .replace('{observations}', obsText || 'No observations recorded');
+      const { prompt } = renderPrompt('summary', {
+        project,
+        user_prompt: userPrompt || 'Unknown',
+        observations: obsText || 'No observations recorded',
+      }, project);
 
-      const response = await client.messages.create({
-        model: this.model,
-        max_tokens: 2048,
-        messages: [{ role: 'user', content: prompt }],
-      });
+      // 优雅降级：如果 AI 已禁用或项目预算用完，直接返回 null
+      const provider = this.isOverBudget(project) ? null : this.getProvider();
+      if (!provider) {
+        return null;
+      }
+
+      const answer = await this.completeJson(
+        provider,
+        'summary',
+        project,
+        { prompt, max_tokens: 2048 },
+        raw => validateSummaryResult(raw, project)
+      );
+      return answer?.value ?? null;
+    } catch (error) {
+      // 检测错误类型，决定是否禁用 AI
+      this.handleAPIError(error);
+
+      // 只在非禁用情况下记录详细错误
+      if (this.isEnabled()) {
+        logger.error('COMPRESS', 'Failed to generate summary', { project }, error as Error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Summarize a session from its transcript (see transcript.ts): each chunk is
+   * condensed to notes (map), the notes are merged into the summary (reduce).
+   * A transcript that fits one chunk is summarized directly. Notes found in
+   * `notesCache` are reused, so a later Stop only condenses the new turns.
+   * 优雅降级：API 不可用时返回 null，由调用方回退到基于 observation 的摘要
+   */
+  async summarizeTranscript(
+    project: string,
+    userPrompt: string,
+    chunks: TranscriptChunk[],
+    omitted: number = 0,
+    notesCache?: TranscriptNotesCache
+  ): Promise<SummaryResult | null> {
+    if (chunks.length === 0) {
+      return null;
+    }
 
-      const content = response.content[0];
-      if (content.type !== 'text') {
+    try {
+      const notePrompts = chunks.length === 1
+        ? []
+        : chunks.map((chunk, i) =>
+            renderPrompt('transcript-notes', { part: i + 1, parts: chunks.length, project, transcript: chunk.text }, project)
+          );
+      // The summary prompt is rendered after the notes; check its template before taking the provider
+      loadPromptTemplate('transcript-summary', project);
+
+      const provider = this.isOverBudget(project) ? null : this.getProvider();
+      if (!provider) {
         return null;
       }
 
-      const result = JSON.parse(content.text);
-
-      // Transform sinkable_knowledge to proper format
-      const sinkableKnowledge: KnowledgeInput[] = (result.sinkable_knowledge || []).map(
-        (k: { type: string; title: string; content: string; tags?: string[] }) => ({
-          project,
-          type: k.type,
-          title: k.title,
-          content: k.content,
-          tags: k.tags,
-        })
+      let content: string;
+      if (chunks.length === 1) {
+        content = `Transcript:\n${chunks[0].text}`;
+      } else {
+        const notes: string[] = [];
+        for (const [i, rendered] of notePrompts.entries()) {
+          const chunk = chunks[i];
+          const key = createHash('sha256').update(`${rendered.template_version}\n${chunk.text}`).digest('hex');
+
+          let text = notesCache?.get(chunk, key) ?? null;
+          if (text === null) {
+            const response = await this.complete(provider, 'summary', project, { prompt: rendered.prompt, max_tokens: 1024 });
+            text = response.text?.trim() || '';
+            if (text) notesCache?.set(chunk, key, text);
+          }
+          if (text) {
+            notes.push(`Part ${i + 1}:\n${text}`);
+          }
+        }
+        if (notes.length === 0) {
+          return null;
+        }
+        const gap = omitted > 0 ? `\n(${omitted} middle part(s) of the transcript were skipped)` : '';
+        content = `Notes on the transcript, in order:${gap}\n\n${notes.join('\n\n')}`;
+      }
+
+      const { prompt } = renderPrompt('transcript-summary', {
+        project,
+        user_prompt: userPrompt || 'Unknown',
+        content,
+      }, project);
+
+      const answer = await this.completeJson(
+        provider,
+        'summary',
+        project,
+        { prompt, max_tokens: 2048 },
+        raw => validateSummaryResult(raw, project)
       );
 
+      logger.debug('COMPRESS', `Summarized transcript in ${chunks.length} part(s)`, { project, omitted });
+      return answer?.value ?? null;
+    } catch (error) {
+      this.handleAPIError(error);
+
+      if (this.isEnabled()) {
+        logger.error('COMPRESS', 'Failed to summarize transcript', { project }, error as Error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Classify a prompt for routing, using forced tool use for structured JSON output
+   * 优雅降级：API 不可用时返回 null，由调用方回退到关键字路由
+   */
+  async classifyRouting(
+    input: string,
+    options: { task_types: string[]; workflows: Array<{ name: string; description: string }> }
+  ): Promise<RoutingClassification | null> {
+    const provider = this.getProvider();
+    if (!provider) {
+      return null;
+    }
+
+    try {
+      const workflowList = options.workflows
+        .map(w => (w.description ? `- ${w.name}: ${w.description}` : `- ${w.name}`))
+        .join('\n');
+      // Replacer functions: `$` sequences in the input must be inserted literally
+      const prompt = ROUTING_PROMPT.replace('{workflows}', () => workflowList).replace('{input}', () => input);
+
+      const response = await this.complete(provider, 'routing', null, {
+        prompt,
+        max_tokens: 512,
+        tool: {
+          name: 'route_task',
+          description: 'Report the task type and recommended workflow for the request',
+          input_schema: {
+            properties: {
+              task_type: { type: 'string', enum: options.task_types },
+              workflow: { type: 'string', enum: options.workflows.map(w => w.name) },
+              confidence: { type: 'number', minimum: 0, maximum: 1 },
+              reason: { type: 'string', description: 'One short sentence, in the language of the request' },
+            },
+            required: ['task_type', 'workflow', 'confidence', 'reason'],
+          },
+        },
+      });
+      if (!response.tool_input) {
+        return null;
+      }
+
+      const result = response.tool_input as Partial<RoutingClassification>;
+      if (typeof result.task_type !== 'string' || typeof result.workflow !== 'string') {
+        return null;
+      }
+
       return {
-        request: result.request,
-        investigated: result.investigated,
-        learned: result.learned,
-        completed: result.completed,
-        next_steps: result.next_steps,
-        sinkable_knowledge: sinkableKnowledge,
+        task_type: result.task_type,
+        workflow: result.workflow,
+        confidence: typeof result.confidence === 'number' ? result.confidence : 0.5,
+        reason: typeof result.reason === 'string' ? result.reason : '',
       };
     } catch (error) {
-      // 检测错误类型，决定是否禁用 AI
       this.handleAPIError(error);
 
-      // 只在非禁用情况下记录详细错误
-      if (this.aiEnabled) {
-        logger.error('COMPRESS', 'Failed to generate summary', { project }, error as Error);
+      if (this.isEnabled()) {
+        logger.error('COMPRESS', 'Failed to classify routing', {}, error as Error);
       }
       return null;
     }
@@ -345,21 +766,12 @@ export class CompressorService {
   /**
    * Quick check if a tool call is worth compressing
    */
-  shouldCompress(toolName: string, toolInput: string | object | undefined): boolean {
-    // Skip trivial tools
-    const skipTools = [
-      'ListMcpResourcesTool',
-      'SlashCommand',
-      'Skill',
-      'TodoWrite',
-      'TodoRead',
-      'TaskList',
-      'TaskGet',
-      'TaskCreate',
-      'TaskUpdate',
-      'AskUserQuestion',
-    ];
-
+  shouldCompress(
+    toolName: string,
+    toolInput: string | object | undefined,
+    skipTools: string[] = getSkipTools()
+  ): boolean {
+    // Skip trivial tools (SKIP_TOOLS, overridable per project)
     if (skipTools.includes(toolName)) {
       return false;
     }
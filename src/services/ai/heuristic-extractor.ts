@@ -0,0 +1,200 @@
+/**
+ * Heuristic (non-LLM) extraction of observations from tool calls
+ *
+ * Used while AI compression is unavailable (no key, credit exhausted,
+ * disabled in config) so the memory pipeline keeps recording the basics:
+ * - Edit/Write/MultiEdit/NotebookEdit: edited paths into `files_modified`
+ * - Read: read path into `files_read`
+ * - Bash with a non-zero exit code: `bugfix` candidate with the error lines
+ * - Bash `git commit`: `change` with the commit message
+ */
+
+import { basename } from 'path';
+import type { CompressionResult } from '../../shared/types.js';
+import type { ToolCallInput } from './compressor.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EDIT_TOOLS: Record<string, string> = {
+  Edit: 'file_path',
+  MultiEdit: 'file_path',
+  Write: 'file_path',
+  NotebookEdit: 'notebook_path',
+};
+
+// Output lines that usually carry the cause of a failure
+const ERROR_LINE = /\b(error|fail|failed|failure|fatal|exception|cannot|not found|denied)\b|错误|失败/i;
+
+const MAX_FACTS = 5;
+const MAX_FACT_CHARS = 200;
+const MAX_COMMAND_CHARS = 60;
+
+// Marks observations that were not written by a model
+export const HEURISTIC_CONCEPT = 'heuristic-extraction';
+
+// ============================================================================
+// Parsing Helpers
+// ============================================================================
+
+function parseObject(value: string | object | undefined): Record<string, unknown> {
+  if (value == null) return {};
+  if (typeof value === 'object') return value as Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...` : text;
+}
+
+/**
+ * Exit code reported in a Bash tool output, or null when it succeeded / is unknown
+ */
+export function parseExitCode(output: string | undefined): number | null {
+  if (!output) return null;
+
+  // Structured output ({ exit_code } / { exitCode } / { returnCode })
+  const structured = parseObject(output);
+  for (const key of ['exit_code', 'exitCode', 'returnCode']) {
+    if (typeof structured[key] === 'number') {
+      return structured[key] as number;
+    }
+  }
+
+  const match = output.match(
+    /(?:exit(?:ed with)? (?:code|status)|returned non-zero exit status)\s*:?\s*(-?\d+)/i
+  );
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Message of a `git commit -m ...` command (heredoc form included)
+ */
+export function parseCommitMessage(command: string): string | null {
+  if (!/\bgit\b(?:\s+-\S+(?:\s+\S+)?)*\s+commit\b/.test(command)) return null;
+
+  const heredoc = command.match(/<<\s*'?(\w+)'?\n([\s\S]*?)\n\s*\1/);
+  if (heredoc) return heredoc[2].trim() || null;
+
+  const messages: string[] = [];
+  const pattern = /(?:-m|--message)(?:\s+|=)(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+))/g;
+  for (const match of command.matchAll(pattern)) {
+    messages.push((match[1] ?? match[2] ?? match[3]).replace(/\\"/g, '"'));
+  }
+  return messages.length > 0 ? messages.join('\n\n').trim() : null;
+}
+
+// ============================================================================
+// Extractors
+// ============================================================================
+
+function result(partial: Partial<CompressionResult> & Pick<CompressionResult, 'type' | 'title'>): CompressionResult {
+  return {
+    facts: [],
+    narrative: '',
+    files_modified: [],
+    should_store: true,
+    ...partial,
+    concepts: [...(partial.concepts || []), HEURISTIC_CONCEPT],
+  };
+}
+
+function extractEdit(toolName: string, input: Record<string, unknown>): CompressionResult | null {
+  const path = input[EDIT_TOOLS[toolName]];
+  if (typeof path !== 'string' || !path) return null;
+
+  const edits = Array.isArray(input.edits) ? input.edits.length : 1;
+  const verb = toolName === 'Write' ? 'Wrote' : 'Edited';
+
+  return result({
+    type: 'change',
+    title: `${verb} ${basename(path)}`,
+    subtitle: path,
+    facts: toolName === 'MultiEdit' ? [`${edits} edits`] : [],
+    narrative: `${verb} ${path}`,
+    files_modified: [path],
+  });
+}
+
+function extractRead(input: Record<string, unknown>): CompressionResult | null {
+  const path = input.file_path;
+  if (typeof path !== 'string' || !path) return null;
+
+  return result({
+    type: 'discovery',
+    title: `Read ${basename(path)}`,
+    subtitle: path,
+    narrative: `Read ${path}`,
+    files_read: [path],
+  });
+}
+
+function extractBash(input: Record<string, unknown>, output: string | undefined): CompressionResult | null {
+  const command = typeof input.command === 'string' ? input.command.trim() : '';
+  if (!command) return null;
+
+  const exitCode = parseExitCode(output);
+  if (exitCode !== null && exitCode !== 0) {
+    // Structured output keeps the streams apart; stderr carries the cause
+    const streams = parseObject(output);
+    const text = typeof streams.stderr === 'string' || typeof streams.stdout === 'string'
+      ? `${streams.stderr ?? ''}\n${streams.stdout ?? ''}`
+      : output || '';
+
+    const errorLines = text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line && ERROR_LINE.test(line))
+      .slice(0, MAX_FACTS)
+      .map(line => clip(line, MAX_FACT_CHARS));
+
+    return result({
+      type: 'bugfix',
+      title: `Command failed (exit ${exitCode}): ${clip(command.split('\n')[0], MAX_COMMAND_CHARS)}`,
+      subtitle: typeof input.description === 'string' ? input.description : undefined,
+      facts: errorLines,
+      narrative: `\`${clip(command, MAX_FACT_CHARS)}\` exited with code ${exitCode}`,
+      concepts: ['command-failure'],
+    });
+  }
+
+  const message = parseCommitMessage(command);
+  if (message) {
+    const [subject, ...body] = message.split('\n');
+    return result({
+      type: 'change',
+      title: clip(subject.trim(), 100),
+      subtitle: 'git commit',
+      facts: body.map(line => line.trim()).filter(Boolean).slice(0, MAX_FACTS),
+      narrative: message,
+      concepts: ['git-commit'],
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Build an observation from a tool call without a model.
+ * Returns null when the call has nothing worth recording.
+ */
+export function extractToolCall(call: ToolCallInput): CompressionResult | null {
+  const input = parseObject(call.tool_input);
+
+  if (call.tool_name in EDIT_TOOLS) {
+    return extractEdit(call.tool_name, input);
+  }
+  if (call.tool_name === 'Read') {
+    return extractRead(input);
+  }
+  if (call.tool_name === 'Bash') {
+    return extractBash(input, call.tool_output == null ? undefined : String(call.tool_output));
+  }
+  return null;
+}
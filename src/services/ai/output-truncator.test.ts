@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  collapseRepeats,
+  extractErrorBlocks,
+  headTail,
+  summarizeDiff,
+  truncateToolOutput,
+} from './output-truncator.js';
+
+const LIMIT = 600;
+
+const numbered = (count: number, line: (n: number) => string): string =>
+  Array.from({ length: count }, (_, i) => line(i + 1)).join('\n');
+
+// A number spelled with letters, so lines built from it are not collapsed as repeats
+const spelled = (n: number): string => String(n).replace(/\d/g, d => 'abcdefghij'[Number(d)]);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+test('collapseRepeats folds runs of lines that differ only in numbers', () => {
+  assert.deepEqual(collapseRepeats(['start', 'Downloading 10%', 'Downloading 55%', 'Downloading 100%', 'done']), [
+    'start',
+    'Downloading 10%',
+    '... (2 similar lines)',
+    'done',
+  ]);
+  // Two in a row are kept as they are
+  assert.deepEqual(collapseRepeats(['retry 1', 'retry 2']), ['retry 1', 'retry 2']);
+});
+
+test('headTail keeps the first and last lines', () => {
+  const text = numbered(200, n => `line ${n}`);
+  const result = headTail(text, 300);
+
+  assert.ok(result.length <= 300);
+  assert.ok(result.startsWith('line 1\n'));
+  assert.ok(result.endsWith('\nline 200'));
+  assert.match(result, /\.\.\.\[\d+ lines omitted\]\.\.\./);
+
+  // A single long line is cut by characters
+  const minified = headTail('x'.repeat(5000), 300);
+  assert.ok(minified.length <= 300);
+  assert.match(minified, /\.\.\.\[truncated\]\.\.\./);
+});
+
+test('extractErrorBlocks keeps error lines with their context and stack', () => {
+  const lines = ['compiling', 'step one', 'step two', 'TypeError: x is undefined', '    at run (a.ts:3)', 'next', 'a', 'b', 'c', 'd'];
+  assert.deepEqual(extractErrorBlocks(lines), ['step two', 'TypeError: x is undefined', '    at run (a.ts:3)', 'next', 'a']);
+
+  // Separate failures become separate blocks
+  assert.deepEqual(extractErrorBlocks(['x', 'IOException: disk', 'a', 'b', 'c', 'd', 'e', 'build failed', 'f']), [
+    'x',
+    'IOException: disk',
+    'a',
+    'b',
+    '...',
+    'e',
+    'build failed',
+    'f',
+  ]);
+  assert.deepEqual(extractErrorBlocks(['compiled 3 files', 'terror level: low']), []);
+});
+
+test('summarizeDiff reports hunks and changed lines without context', () => {
+  const diff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,4 +1,4 @@',
+    ' unchanged context',
+    '-const retries = 0;',
+    '+const retries = 3;',
+  ].join('\n');
+
+  const summary = summarizeDiff(diff, LIMIT);
+  assert.ok(summary.startsWith('(1 hunks, +1 -1)'));
+  assert.ok(summary.includes('-const retries = 0;'));
+  assert.ok(summary.includes('+const retries = 3;'));
+  assert.ok(!summary.includes('unchanged context'));
+});
+
+// ============================================================================
+// Per tool
+// ============================================================================
+
+test('short outputs are passed through', () => {
+  assert.equal(truncateToolOutput('Bash', 'ok', LIMIT), 'ok');
+});
+
+test('a failing test run keeps the failure from the end of the output', () => {
+  const run = [
+    numbered(300, n => `✓ matches order ${spelled(n)}`),
+    'FAIL src/order-book.test.ts',
+    '  AssertionError: expected 3 to equal 2',
+    '    at Object.<anonymous> (src/order-book.test.ts:42:5)',
+    numbered(50, n => `✓ cancels order ${spelled(n)}`),
+  ].join('\n');
+
+  const result = truncateToolOutput('Bash', run, LIMIT);
+  assert.ok(result.length <= LIMIT);
+  assert.ok(result.startsWith('[errors]'));
+  assert.ok(result.includes('AssertionError: expected 3 to equal 2'));
+  assert.ok(result.includes('src/order-book.test.ts:42:5'));
+});
+
+test('structured Bash output puts stderr first', () => {
+  const output = JSON.stringify({
+    stdout: numbered(100, n => `building module ${n} of a rather long list`),
+    stderr: 'error: cannot find module "left-pad"',
+  });
+
+  const result = truncateToolOutput('Bash', output, LIMIT);
+  assert.ok(result.length <= LIMIT);
+  assert.ok(result.startsWith('[stderr]\nerror: cannot find module "left-pad"\n[stdout]\n'));
+});
+
+test('Edit output is condensed to its patch', () => {
+  const output = JSON.stringify({
+    filePath: 'src/client.ts',
+    originalFile: 'x'.repeat(5000),
+    structuredPatch: [{ oldStart: 10, oldLines: 1, newStart: 10, newLines: 1, lines: ['-retries: 0', '+retries: 3'] }],
+  });
+
+  assert.equal(
+    truncateToolOutput('Edit', output, LIMIT),
+    ['(1 hunks, +1 -1)', '+++ src/client.ts', '@@ -10,1 +10,1 @@', '-retries: 0', '+retries: 3'].join('\n')
+  );
+});
+
+test('Grep matches are grouped by file', () => {
+  const output = [
+    ...Array.from({ length: 40 }, (_, i) => `src/a.ts:${i + 1}:const value${i} = retry();`),
+    'src/b.ts:7:retry();',
+  ].join('\n');
+
+  const result = truncateToolOutput('Grep', output, LIMIT);
+  assert.ok(result.length <= LIMIT);
+  assert.ok(result.startsWith('41 matching lines in 2 files\nsrc/a.ts (40)\n'));
+  assert.ok(result.includes('src/b.ts (1)\n  7:retry();'));
+});
+
+test('Read keeps more of the top of the file under its path', () => {
+  const output = JSON.stringify({
+    type: 'text',
+    file: { filePath: 'src/big.ts', content: numbered(500, n => `export const ${spelled(n)} = '${spelled(n)}';`), totalLines: 500 },
+  });
+
+  const result = truncateToolOutput('Read', output, LIMIT);
+  assert.ok(result.length <= LIMIT);
+  assert.ok(result.startsWith("src/big.ts (500 lines)\nexport const b = 'b';"));
+  assert.ok(result.endsWith("export const faa = 'faa';"));
+
+  const [head, tail] = result.split(/\.\.\.\[\d+ lines omitted\]\.\.\./);
+  assert.ok(head.length > tail.length);
+});
+
+test('every tool output fits the limit', () => {
+  const big = numbered(2000, n => `${n}: ${'lorem ipsum '.repeat(n % 7)}`);
+  for (const tool of ['Bash', 'Read', 'Edit', 'Write', 'Grep', 'WebFetch', 'Task', 'mcp__custom']) {
+    assert.ok(truncateToolOutput(tool, big, LIMIT).length <= LIMIT, tool);
+  }
+});
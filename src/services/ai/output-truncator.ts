@@ -0,0 +1,362 @@
+/**
+ * Content-aware truncation of tool output for compression prompts
+ *
+ * Cutting the output at N characters drops what matters most in long outputs:
+ * the failing test at the end of a run, the bottom of a stack trace. Instead,
+ * per tool:
+ * - Bash:     error blocks and stack traces first, then head and tail; diffs by hunk
+ * - Read:     head and tail of the file
+ * - Edit:     the patch by hunk (changed lines, not the whole original file)
+ * - Grep:     matches grouped by file
+ * - WebFetch: head and tail of the page text
+ * Repeated lines (progress bars, identical log lines) are collapsed everywhere.
+ * Structured outputs (`{ stdout, stderr }`, `{ structuredPatch }`, ...) are unpacked first.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Lines that usually carry the cause of a failure (including `TypeError:`, `IOException:`)
+const ERROR_LINE = /\b(error|fail|failed|failure|fatal|exception|panic|cannot|not found|denied|assert(?:ion)?)\b|\w(?:error|exception):|错误|失败|✗|✕/i;
+
+// Stack frame lines (JS/TS, Python, Java/Kotlin, Go, Rust)
+const STACK_LINE = /^\s+at\s|^\s+File "|^Traceback \(most recent call last\)|^\s+\.\.\. \d+ more|^goroutine \d+|^\s+\S+\.go:\d+|^\s+\d+: \S+::/;
+
+// Lines of context kept around an error line
+const ERROR_CONTEXT_BEFORE = 1;
+const ERROR_CONTEXT_AFTER = 2;
+
+// Share of the budget given to error blocks when the output has them
+const ERROR_SHARE = 0.6;
+
+const MAX_LINE_CHARS = 300;
+const MAX_HUNK_LINES = 12;
+const MAX_GREP_FILES = 15;
+const MAX_GREP_MATCHES_PER_FILE = 3;
+
+// ============================================================================
+// Line Helpers
+// ============================================================================
+
+function clipLine(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}...` : line;
+}
+
+/**
+ * Collapse runs of lines that differ only in numbers (progress, timestamps, counters)
+ */
+export function collapseRepeats(lines: string[]): string[] {
+  const result: string[] = [];
+  const shape = (line: string) => line.replace(/\d+/g, '#').trim();
+
+  let i = 0;
+  while (i < lines.length) {
+    let j = i + 1;
+    while (j < lines.length && shape(lines[j]) === shape(lines[i])) j++;
+
+    const run = j - i;
+    if (run > 2 && shape(lines[i])) {
+      result.push(lines[i], `... (${run - 1} similar lines)`);
+    } else {
+      result.push(...lines.slice(i, j));
+    }
+    i = j;
+  }
+  return result;
+}
+
+/**
+ * First and last lines within `limit` chars, `headShare` of it for the head
+ */
+export function headTail(text: string, limit: number, headShare: number = 0.5): string {
+  if (text.length <= limit) return text;
+
+  const marker = 40;  // room for the omission marker
+  const raw = text.split('\n');
+  // A single huge line (minified code, one-line JSON): cut by characters
+  if (raw.length === 1) {
+    const half = Math.floor((limit - marker) * headShare);
+    return `${text.slice(0, half)}\n...[truncated]...\n${text.slice(text.length - (limit - marker - half))}`;
+  }
+
+  const lines = raw.map(clipLine);
+  const head: string[] = [];
+  const tail: string[] = [];
+  const headBudget = Math.floor(limit * headShare);
+
+  let used = 0;
+  for (const line of lines) {
+    if (used + line.length + 1 > headBudget) break;
+    head.push(line);
+    used += line.length + 1;
+  }
+  for (let i = lines.length - 1; i >= head.length; i--) {
+    if (used + lines[i].length + 1 > limit - marker) break;
+    tail.unshift(lines[i]);
+    used += lines[i].length + 1;
+  }
+
+  const omitted = lines.length - head.length - tail.length;
+  if (omitted <= 0) return lines.join('\n');
+  return [...head, `...[${omitted} lines omitted]...`, ...tail].join('\n');
+}
+
+/**
+ * Error lines with a little context, plus the stack traces that follow them.
+ * Overlapping windows are merged; blocks are separated by "...".
+ */
+export function extractErrorBlocks(lines: string[]): string[] {
+  const keep = new Set<number>();
+
+  for (let i = 0; i < lines.length; i++) {
+    if (ERROR_LINE.test(lines[i]) || STACK_LINE.test(lines[i])) {
+      for (let k = Math.max(0, i - ERROR_CONTEXT_BEFORE); k <= Math.min(lines.length - 1, i + ERROR_CONTEXT_AFTER); k++) {
+        keep.add(k);
+      }
+    }
+  }
+
+  const blocks: string[] = [];
+  let previous = -2;
+  for (const index of [...keep].sort((a, b) => a - b)) {
+    if (!lines[index].trim()) continue;
+    if (index !== previous + 1 && blocks.length > 0) blocks.push('...');
+    blocks.push(clipLine(lines[index]));
+    previous = index;
+  }
+  return blocks;
+}
+
+// ============================================================================
+// Diffs
+// ============================================================================
+
+const DIFF_START = /^(diff --git |--- \S|@@ -\d+)/m;
+
+export function looksLikeDiff(text: string): boolean {
+  return DIFF_START.test(text) && /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/m.test(text);
+}
+
+/**
+ * Unified diff condensed by hunk: file headers with +/- counts, each hunk's
+ * header and its first changed lines (context lines dropped)
+ */
+export function summarizeDiff(text: string, limit: number): string {
+  const out: string[] = [];
+  let hunkLines = 0;
+  let hiddenInHunk = 0;
+
+  const flushHunk = () => {
+    if (hiddenInHunk > 0) out.push(`  ... (${hiddenInHunk} more changed lines)`);
+    hiddenInHunk = 0;
+  };
+
+  for (const line of text.split('\n')) {
+    if (line.startsWith('diff --git ') || line.startsWith('+++ ') || line.startsWith('--- ')) {
+      flushHunk();
+      if (!line.startsWith('--- ')) out.push(line);
+    } else if (line.startsWith('@@')) {
+      flushHunk();
+      out.push(line);
+      hunkLines = 0;
+    } else if ((line.startsWith('+') || line.startsWith('-')) && out.length > 0) {
+      if (hunkLines < MAX_HUNK_LINES) {
+        out.push(clipLine(line));
+      } else {
+        hiddenInHunk++;
+      }
+      hunkLines++;
+    }
+  }
+  flushHunk();
+
+  const added = text.split('\n').filter(l => l.startsWith('+') && !l.startsWith('+++')).length;
+  const removed = text.split('\n').filter(l => l.startsWith('-') && !l.startsWith('---')).length;
+  const hunks = out.filter(l => l.startsWith('@@')).length;
+
+  return headTail([`(${hunks} hunks, +${added} -${removed})`, ...out].join('\n'), limit, 0.7);
+}
+
+interface PatchHunk {
+  oldStart?: number;
+  oldLines?: number;
+  newStart?: number;
+  newLines?: number;
+  lines?: string[];
+}
+
+/**
+ * Unified diff text from the Edit tool's `structuredPatch`
+ */
+function patchToDiff(filePath: string | undefined, patch: PatchHunk[]): string {
+  const lines = filePath ? [`+++ ${filePath}`] : [];
+  for (const hunk of patch) {
+    lines.push(`@@ -${hunk.oldStart ?? 0},${hunk.oldLines ?? 0} +${hunk.newStart ?? 0},${hunk.newLines ?? 0} @@`);
+    lines.push(...(Array.isArray(hunk.lines) ? hunk.lines : []));
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+function parseObject(output: string): Record<string, unknown> | null {
+  const trimmed = output.trimStart();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+function str(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Generic text: repeated lines collapsed, then head and tail
+ */
+function truncateText(text: string, limit: number, headShare: number = 0.5): string {
+  return headTail(collapseRepeats(text.split('\n')).join('\n'), limit, headShare);
+}
+
+/**
+ * Command output: diffs by hunk; otherwise error blocks first, the rest as head and tail
+ */
+function truncateCommandOutput(text: string, limit: number): string {
+  if (looksLikeDiff(text)) {
+    return summarizeDiff(text, limit);
+  }
+
+  const lines = collapseRepeats(text.split('\n'));
+  const collapsed = lines.join('\n');
+  if (collapsed.length <= limit) return collapsed;
+
+  const errors = extractErrorBlocks(lines);
+  if (errors.length === 0) {
+    return headTail(collapsed, limit, 0.3);
+  }
+
+  const errorText = headTail(errors.join('\n'), Math.floor(limit * ERROR_SHARE), 0.5);
+  const rest = headTail(collapsed, limit - errorText.length - 30, 0.3);
+  return `[errors]\n${errorText}\n[output]\n${rest}`;
+}
+
+function truncateBash(output: string, limit: number): string {
+  const structured = parseObject(output);
+  const stdout = structured ? str(structured.stdout) : null;
+  const stderr = structured ? str(structured.stderr) : null;
+  if (stdout === null && stderr === null) {
+    return truncateCommandOutput(output, limit);
+  }
+
+  // stderr usually explains the failure: give it the larger share when both are long
+  const err = (stderr || '').trim();
+  const out = (stdout || '').trim();
+  if (!err) return truncateCommandOutput(out, limit);
+  if (!out) return `[stderr]\n${truncateCommandOutput(err, limit - 10)}`;
+
+  const errBudget = Math.max(Math.floor(limit * 0.6), limit - out.length - 20);
+  const errText = truncateCommandOutput(err, Math.min(errBudget, err.length));
+  const outText = truncateCommandOutput(out, limit - errText.length - 20);
+  return `[stderr]\n${errText}\n[stdout]\n${outText}`;
+}
+
+function truncateRead(output: string, limit: number): string {
+  const structured = parseObject(output);
+  const file = structured?.file as Record<string, unknown> | undefined;
+  const content = str(file?.content) ?? str(structured?.content) ?? output;
+  const path = str(file?.filePath);
+  const total = typeof file?.totalLines === 'number' ? ` (${file.totalLines} lines)` : '';
+
+  const header = path ? `${path}${total}\n` : '';
+  // The top of a file (imports, declarations) says most about it
+  return header + truncateText(content, limit - header.length, 0.7);
+}
+
+function truncateEdit(output: string, limit: number): string {
+  const structured = parseObject(output);
+  const filePath = str(structured?.filePath) ?? undefined;
+
+  if (structured && Array.isArray(structured.structuredPatch) && structured.structuredPatch.length > 0) {
+    return summarizeDiff(patchToDiff(filePath, structured.structuredPatch as PatchHunk[]), limit);
+  }
+  // Write: the written content (no original to diff against)
+  const content = str(structured?.content);
+  if (content !== null) {
+    const header = filePath ? `${filePath}\n` : '';
+    return header + truncateText(content, limit - header.length, 0.7);
+  }
+  return looksLikeDiff(output) ? summarizeDiff(output, limit) : truncateText(output, limit);
+}
+
+function truncateGrep(output: string, limit: number): string {
+  const structured = parseObject(output);
+  const content = str(structured?.content);
+  if (structured && content === null && Array.isArray(structured.filenames)) {
+    const files = structured.filenames.filter((f): f is string => typeof f === 'string');
+    return truncateText(`${files.length} files\n${files.join('\n')}`, limit, 0.8);
+  }
+
+  const lines = (content ?? output).split('\n').filter(l => l.trim());
+  // "path:line:text" / "path-line-text" (context) / "path:text"
+  const byFile = new Map<string, string[]>();
+  for (const line of lines) {
+    const match = line.match(/^([^:\n]+?\.[\w]+|[^:\n]+?)[:-](\d+[:-])?(.*)$/);
+    const file = match ? match[1] : '';
+    const entries = byFile.get(file) || [];
+    entries.push(match ? `${match[2] ?? ''}${match[3]}`.trim() : line);
+    byFile.set(file, entries);
+  }
+  if (byFile.size <= 1) {
+    return truncateText(lines.join('\n'), limit, 0.8);
+  }
+
+  const out = [`${lines.length} matching lines in ${byFile.size} files`];
+  for (const [file, entries] of [...byFile].slice(0, MAX_GREP_FILES)) {
+    out.push(`${file} (${entries.length})`);
+    out.push(...entries.slice(0, MAX_GREP_MATCHES_PER_FILE).map(e => `  ${clipLine(e)}`));
+  }
+  if (byFile.size > MAX_GREP_FILES) {
+    out.push(`... (${byFile.size - MAX_GREP_FILES} more files)`);
+  }
+  return headTail(out.join('\n'), limit, 0.8);
+}
+
+function truncateWebFetch(output: string, limit: number): string {
+  const structured = parseObject(output);
+  const text = str(structured?.result) ?? output;
+  const url = str(structured?.url);
+
+  // Pages are mostly blank lines and navigation; squeeze whitespace first
+  const squeezed = text.replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n');
+  const header = url ? `${url}\n` : '';
+  return header + truncateText(squeezed, limit - header.length, 0.75);
+}
+
+const STRATEGIES: Record<string, (output: string, limit: number) => string> = {
+  Bash: truncateBash,
+  Read: truncateRead,
+  Edit: truncateEdit,
+  MultiEdit: truncateEdit,
+  Write: truncateEdit,
+  NotebookEdit: truncateEdit,
+  Grep: truncateGrep,
+  WebFetch: truncateWebFetch,
+};
+
+/**
+ * Fit a tool output into `limit` characters, keeping what explains the call
+ */
+export function truncateToolOutput(toolName: string, output: string, limit: number): string {
+  if (output.length <= limit) return output;
+
+  const strategy = STRATEGIES[toolName] || truncateText;
+  const result = strategy(output, limit);
+  // Strategies aim for the limit; this guarantees it
+  return result.length <= limit ? result : headTail(result, limit);
+}
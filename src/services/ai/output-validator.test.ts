@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ModelOutputError,
+  parseModelJson,
+  validateCompressionResult,
+  validateCompressionBatch,
+  validateSummaryResult,
+} from './output-validator.js';
+
+// ============================================================================
+// parseModelJson
+// ============================================================================
+
+test('parseModelJson reads plain JSON', () => {
+  assert.deepEqual(parseModelJson(' {"a": 1} '), { a: 1 });
+  assert.deepEqual(parseModelJson('[1, 2]'), [1, 2]);
+});
+
+test('parseModelJson strips code fences', () => {
+  assert.deepEqual(parseModelJson('```json\n{"a": 1}\n```'), { a: 1 });
+  assert.deepEqual(parseModelJson('Here you go:\n```\n[{"index": 0}]\n```\nDone.'), [{ index: 0 }]);
+});
+
+test('parseModelJson finds the JSON inside prose', () => {
+  assert.deepEqual(parseModelJson('The result is {"title": "x", "facts": ["a"]} as requested.'), {
+    title: 'x',
+    facts: ['a'],
+  });
+  // An unbalanced brace before the array falls through to the array
+  assert.deepEqual(parseModelJson('Items } first: [1, 2] and { more'), [1, 2]);
+});
+
+test('parseModelJson throws ModelOutputError without JSON', () => {
+  assert.throws(() => parseModelJson('I could not find anything worth storing.'), ModelOutputError);
+  assert.throws(() => parseModelJson('{"a": '), /not valid JSON/);
+});
+
+// ============================================================================
+// validateCompressionResult
+// ============================================================================
+
+test('validateCompressionResult accepts a complete observation', () => {
+  const { value, errors, repairs } = validateCompressionResult({
+    type: 'bugfix',
+    title: 'Fix retry loop',
+    facts: ['Retries were unbounded'],
+    narrative: 'Capped retries at 3',
+    concepts: ['retry'],
+    files_modified: ['src/client.ts'],
+    should_store: true,
+    knowledge_type: 'pitfall',
+  });
+
+  assert.deepEqual(errors, []);
+  assert.deepEqual(repairs, []);
+  assert.equal(value!.type, 'bugfix');
+  assert.equal(value!.knowledge_type, 'pitfall');
+  assert.deepEqual(value!.files_read, []);
+});
+
+test('validateCompressionResult repairs near misses', () => {
+  const { value, errors, repairs } = validateCompressionResult({
+    type: 'Bug Fix',
+    title: 'x'.repeat(250),
+    facts: 'single fact',
+    should_store: 'true',
+    knowledge_type: 'best practice',
+  });
+
+  assert.deepEqual(errors, []);
+  assert.equal(value!.type, 'bugfix');
+  assert.equal(value!.title.length, 200);
+  assert.deepEqual(value!.facts, ['single fact']);
+  assert.equal(value!.should_store, true);
+  assert.equal(value!.knowledge_type, 'best-practice');
+  assert.ok(repairs.some(r => r.includes('"Bug Fix" mapped to "bugfix"')));
+  assert.ok(repairs.includes('title truncated to 200 chars'));
+});
+
+test('validateCompressionResult requires type and title only for stored observations', () => {
+  const skipped = validateCompressionResult({ should_store: false });
+  assert.deepEqual(skipped.errors, []);
+  assert.equal(skipped.value!.should_store, false);
+
+  const stored = validateCompressionResult({ should_store: true, type: 'musing' });
+  assert.equal(stored.value, null);
+  assert.ok(stored.errors.some(e => e.startsWith('type "musing" is not one of')));
+  assert.ok(stored.errors.includes('title is required'));
+
+  assert.deepEqual(validateCompressionResult('text').errors, ['result must be a JSON object']);
+});
+
+// ============================================================================
+// validateCompressionBatch
+// ============================================================================
+
+test('validateCompressionBatch places results by index and reports invalid entries', () => {
+  const { value, errors, invalid } = validateCompressionBatch(
+    {
+      results: [
+        { index: 2, type: 'feature', title: 'Add export', should_store: true },
+        { index: 0, should_store: false },
+        { index: 1, type: 'feature', should_store: true },
+        { index: 7, should_store: false },
+      ],
+    },
+    3
+  );
+
+  assert.equal(value![0]!.should_store, false);
+  assert.equal(value![1], null);
+  assert.equal(value![2]!.title, 'Add export');
+  assert.deepEqual(invalid, [1]);
+  assert.ok(errors.includes('[1].title is required'));
+  assert.ok(errors.includes('[3].index must be an integer from 0 to 2'));
+});
+
+test('validateCompressionBatch rejects answers without an array', () => {
+  const { value, errors } = validateCompressionBatch({ index: 0 }, 1);
+  assert.equal(value, null);
+  assert.deepEqual(errors, ['answer must be a JSON array']);
+});
+
+// ============================================================================
+// validateSummaryResult
+// ============================================================================
+
+test('validateSummaryResult keeps valid knowledge and drops the rest', () => {
+  const { value, errors, repairs } = validateSummaryResult(
+    {
+      request: 'Speed up matching',
+      learned: 42,
+      sinkable_knowledge: [
+        { type: 'decision', title: 'Use a heap', content: 'Order book uses a binary heap', tags: ['perf'] },
+        { type: 'pitfall', title: 'No content' },
+        'not an object',
+      ],
+    },
+    '/repo'
+  );
+
+  assert.deepEqual(errors, []);
+  assert.equal(value!.request, 'Speed up matching');
+  assert.equal(value!.learned, '42');
+  assert.equal(value!.next_steps, '');
+  assert.deepEqual(value!.sinkable_knowledge, [
+    { project: '/repo', type: 'adr', title: 'Use a heap', content: 'Order book uses a binary heap', tags: ['perf'] },
+  ]);
+  assert.ok(repairs.some(r => r.startsWith('sinkable_knowledge[1] dropped: sinkable_knowledge[1].content is required')));
+  assert.ok(repairs.includes('sinkable_knowledge[2] dropped (not an object)'));
+});
+
+test('validateSummaryResult rejects non-objects', () => {
+  assert.deepEqual(validateSummaryResult([], '/repo').errors, ['summary must be a JSON object']);
+});
@@ -0,0 +1,400 @@
+/**
+ * Validation and repair of JSON produced by the model
+ *
+ * Models wrap JSON in ```json fences, add prose around it, invent enum values
+ * or write far more than asked. Parsing is lenient (fences and surrounding
+ * text are stripped), enum values are mapped onto the allowed ones where the
+ * intent is clear and over-long fields are truncated. What cannot be repaired
+ * is reported as errors, which CompressorService can send back to the model.
+ */
+
+import type {
+  CompressionResult,
+  ObservationType,
+  KnowledgeType,
+  KnowledgeInput,
+  SummaryResult,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The model answered, but not with usable JSON (as opposed to an API failure)
+ */
+export class ModelOutputError extends Error {
+  constructor(message: string, readonly errors: string[] = []) {
+    super(message);
+    this.name = 'ModelOutputError';
+  }
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];    // unrepairable problems; value is null (or partial, for batches)
+  repairs: string[];   // coercions applied to produce value
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const OBSERVATION_TYPES: ObservationType[] = [
+  'decision', 'bugfix', 'feature', 'refactor', 'discovery', 'pitfall', 'change',
+];
+
+export const KNOWLEDGE_TYPES: KnowledgeType[] = [
+  'pitfall', 'adr', 'glossary', 'best-practice', 'pattern', 'discovery',
+];
+
+// Common near-misses the model produces instead of the allowed values
+const OBSERVATION_TYPE_ALIASES: Record<string, ObservationType> = {
+  'bug-fix': 'bugfix',
+  bug_fix: 'bugfix',
+  bug: 'bugfix',
+  fix: 'bugfix',
+  feat: 'feature',
+  refactoring: 'refactor',
+  gotcha: 'pitfall',
+  architecture: 'decision',
+  adr: 'decision',
+  learning: 'discovery',
+  insight: 'discovery',
+  investigation: 'discovery',
+  update: 'change',
+  chore: 'change',
+};
+
+const KNOWLEDGE_TYPE_ALIASES: Record<string, KnowledgeType> = {
+  best_practice: 'best-practice',
+  bestpractice: 'best-practice',
+  practice: 'best-practice',
+  decision: 'adr',
+  gotcha: 'pitfall',
+  term: 'glossary',
+  definition: 'glossary',
+  insight: 'discovery',
+};
+
+const LIMITS = {
+  title: 200,
+  subtitle: 300,
+  narrative: 2000,
+  fact: 500,
+  facts: 20,
+  concept: 60,
+  concepts: 20,
+  path: 500,
+  paths: 100,
+  summary_field: 4000,
+  knowledge_content: 8000,
+  knowledge_items: 20,
+  tag: 60,
+  tags: 20,
+};
+
+// ============================================================================
+// JSON Extraction
+// ============================================================================
+
+/**
+ * Parse the JSON value in a model answer, tolerating code fences and prose
+ * around it. Throws when no JSON value can be found.
+ */
+export function parseModelJson(text: string): unknown {
+  const trimmed = text.trim();
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through to lenient parsing
+  }
+
+  const fenced = trimmed.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/);
+  if (fenced) {
+    try {
+      return JSON.parse(fenced[1].trim());
+    } catch {
+      // fall through: the fence may contain prose as well
+    }
+  }
+
+  // Outermost object or array in the text
+  for (const [open, close] of [['{', '}'], ['[', ']']] as const) {
+    const start = trimmed.indexOf(open);
+    const end = trimmed.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // try the other bracket type
+      }
+    }
+  }
+
+  throw new ModelOutputError('Model output is not valid JSON', ['answer is not valid JSON']);
+}
+
+// ============================================================================
+// Field Helpers
+// ============================================================================
+
+class FieldReader {
+  errors: string[] = [];
+  repairs: string[] = [];
+
+  constructor(private prefix = '') {}
+
+  private name(field: string): string {
+    return `${this.prefix}${field}`;
+  }
+
+  string(raw: Record<string, unknown>, field: string, max: number, required: boolean): string | undefined {
+    let value = raw[field];
+    if (value == null || value === '') {
+      if (required) this.errors.push(`${this.name(field)} is required`);
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        value = String(value);
+        this.repairs.push(`${this.name(field)} converted to string`);
+      } else {
+        this.errors.push(`${this.name(field)} must be a string`);
+        return undefined;
+      }
+    }
+    return this.truncate(field, (value as string).trim(), max);
+  }
+
+  stringArray(raw: Record<string, unknown>, field: string, maxItems: number, maxChars: number): string[] {
+    let value = raw[field];
+    if (value == null) return [];
+    if (typeof value === 'string') {
+      value = [value];
+      this.repairs.push(`${this.name(field)} wrapped in an array`);
+    }
+    if (!Array.isArray(value)) {
+      this.errors.push(`${this.name(field)} must be an array of strings`);
+      return [];
+    }
+
+    const items = value
+      .filter((v): v is string | number => typeof v === 'string' || typeof v === 'number')
+      .map(v => String(v).trim())
+      .filter(Boolean);
+    if (items.length !== value.length) {
+      this.repairs.push(`${this.name(field)}: dropped non-string entries`);
+    }
+    if (items.length > maxItems) {
+      this.repairs.push(`${this.name(field)} truncated to ${maxItems} entries`);
+    }
+    return items.slice(0, maxItems).map((item, i) => this.truncate(`${field}[${i}]`, item, maxChars));
+  }
+
+  boolean(raw: Record<string, unknown>, field: string, fallback: boolean): boolean {
+    const value = raw[field];
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') {
+      this.repairs.push(`${this.name(field)} converted to boolean`);
+      return value === 'true';
+    }
+    if (value != null) {
+      this.errors.push(`${this.name(field)} must be true or false`);
+    }
+    return fallback;
+  }
+
+  enumValue<T extends string>(
+    raw: Record<string, unknown>,
+    field: string,
+    allowed: readonly T[],
+    aliases: Record<string, T>,
+    required: boolean
+  ): T | undefined {
+    const value = raw[field];
+    if (value == null || value === '') {
+      if (required) this.errors.push(`${this.name(field)} is required (one of ${allowed.join(', ')})`);
+      return undefined;
+    }
+
+    const normalized = String(value).trim().toLowerCase().replace(/\s+/g, '-');
+    if ((allowed as readonly string[]).includes(normalized)) {
+      return normalized as T;
+    }
+    const alias = aliases[normalized] ?? aliases[normalized.replace(/-/g, '_')];
+    if (alias) {
+      this.repairs.push(`${this.name(field)} "${value}" mapped to "${alias}"`);
+      return alias;
+    }
+
+    if (required) {
+      this.errors.push(`${this.name(field)} "${value}" is not one of ${allowed.join(', ')}`);
+    } else {
+      this.repairs.push(`${this.name(field)} "${value}" dropped (not one of ${allowed.join(', ')})`);
+    }
+    return undefined;
+  }
+
+  private truncate(field: string, value: string, max: number): string {
+    if (value.length <= max) return value;
+    this.repairs.push(`${this.name(field)} truncated to ${max} chars`);
+    return value.slice(0, max);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * Validate one compression result (an element of the batch array or the
+ * single-call object). `prefix` names the element in error messages.
+ */
+export function validateCompressionResult(raw: unknown, prefix = ''): ValidationResult<CompressionResult> {
+  if (!isObject(raw)) {
+    return { value: null, errors: [`${prefix || 'result'} must be a JSON object`], repairs: [] };
+  }
+
+  const read = new FieldReader(prefix);
+  const shouldStore = read.boolean(raw, 'should_store', false);
+
+  // A skipped call needs no content; only a stored one must be complete
+  const type = read.enumValue(raw, 'type', OBSERVATION_TYPES, OBSERVATION_TYPE_ALIASES, shouldStore);
+  const title = read.string(raw, 'title', LIMITS.title, shouldStore);
+
+  const value: CompressionResult = {
+    type: type ?? 'discovery',
+    title: title ?? '',
+    subtitle: read.string(raw, 'subtitle', LIMITS.subtitle, false),
+    facts: read.stringArray(raw, 'facts', LIMITS.facts, LIMITS.fact),
+    narrative: read.string(raw, 'narrative', LIMITS.narrative, false) ?? '',
+    concepts: read.stringArray(raw, 'concepts', LIMITS.concepts, LIMITS.concept),
+    files_read: read.stringArray(raw, 'files_read', LIMITS.paths, LIMITS.path),
+    files_modified: read.stringArray(raw, 'files_modified', LIMITS.paths, LIMITS.path),
+    should_store: shouldStore,
+    knowledge_type: shouldStore
+      ? read.enumValue(raw, 'knowledge_type', KNOWLEDGE_TYPES, KNOWLEDGE_TYPE_ALIASES, false)
+      : undefined,
+  };
+
+  return {
+    value: read.errors.length > 0 ? null : value,
+    errors: read.errors,
+    repairs: read.repairs,
+  };
+}
+
+/**
+ * Validate a batch answer: an array of results carrying their call `index`.
+ * Entries that fail validation are reported; valid ones are kept.
+ */
+export function validateCompressionBatch(
+  raw: unknown,
+  count: number
+): ValidationResult<(CompressionResult | null)[]> & { invalid: number[] } {
+  // Some models wrap the array in an object ({ "results": [...] })
+  const entries = isObject(raw) ? Object.values(raw).find(Array.isArray) : raw;
+  if (!Array.isArray(entries)) {
+    return { value: null, errors: ['answer must be a JSON array'], repairs: [], invalid: [] };
+  }
+
+  const results: (CompressionResult | null)[] = new Array(count).fill(null);
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const invalid: number[] = [];
+
+  entries.forEach((entry, position) => {
+    const index = isObject(entry) && typeof entry.index === 'number' ? entry.index : -1;
+    if (!Number.isInteger(index) || index < 0 || index >= count) {
+      errors.push(`[${position}].index must be an integer from 0 to ${count - 1}`);
+      return;
+    }
+
+    const { value, errors: entryErrors, repairs: entryRepairs } = validateCompressionResult(entry, `[${index}].`);
+    repairs.push(...entryRepairs);
+    if (value) {
+      results[index] = value;
+    } else {
+      errors.push(...entryErrors);
+      invalid.push(index);
+    }
+  });
+
+  return { value: results, errors, repairs, invalid };
+}
+
+/**
+ * Validate a session summary answer. Invalid sinkable_knowledge items are
+ * dropped (reported as repairs); the summary fields themselves are optional.
+ */
+export function validateSummaryResult(raw: unknown, project: string): ValidationResult<SummaryResult> {
+  if (!isObject(raw)) {
+    return { value: null, errors: ['summary must be a JSON object'], repairs: [] };
+  }
+
+  const read = new FieldReader();
+  const field = (name: string) => read.string(raw, name, LIMITS.summary_field, false) ?? '';
+
+  const knowledge: KnowledgeInput[] = [];
+  const items = Array.isArray(raw.sinkable_knowledge) ? raw.sinkable_knowledge : [];
+  if (raw.sinkable_knowledge != null && !Array.isArray(raw.sinkable_knowledge)) {
+    read.repairs.push('sinkable_knowledge dropped (not an array)');
+  }
+
+  items.slice(0, LIMITS.knowledge_items).forEach((item, i) => {
+    const itemReader = new FieldReader(`sinkable_knowledge[${i}].`);
+    if (!isObject(item)) {
+      read.repairs.push(`sinkable_knowledge[${i}] dropped (not an object)`);
+      return;
+    }
+
+    const type = itemReader.enumValue(item, 'type', KNOWLEDGE_TYPES, KNOWLEDGE_TYPE_ALIASES, true);
+    const title = itemReader.string(item, 'title', LIMITS.title, true);
+    const content = itemReader.string(item, 'content', LIMITS.knowledge_content, true);
+    const tags = itemReader.stringArray(item, 'tags', LIMITS.tags, LIMITS.tag);
+
+    read.repairs.push(...itemReader.repairs);
+    if (itemReader.errors.length > 0 || !type || !title || !content) {
+      read.repairs.push(`sinkable_knowledge[${i}] dropped: ${itemReader.errors.join('; ')}`);
+      return;
+    }
+    knowledge.push({ project, type, title, content, tags });
+  });
+
+  const value: SummaryResult = {
+    request: field('request'),
+    investigated: field('investigated'),
+    learned: field('learned'),
+    completed: field('completed'),
+    next_steps: field('next_steps'),
+    sinkable_knowledge: knowledge,
+  };
+
+  return {
+    value: read.errors.length > 0 ? null : value,
+    errors: read.errors,
+    repairs: read.repairs,
+  };
+}
+
+/**
+ * Follow-up prompt asking the model to correct its previous answer
+ */
+export function buildRepairPrompt(originalPrompt: string, answer: string, errors: string[]): string {
+  return `${originalPrompt}
+
+<previous_answer>
+${answer.slice(0, 4000)}
+</previous_answer>
+
+Your previous answer could not be used:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Respond again with ONLY the corrected JSON, no markdown or explanation.`;
+}
@@ -0,0 +1,252 @@
+/**
+ * Prompt templates for compression and session summaries
+ *
+ * Templates are Markdown files with a YAML front matter and `{{variable}}`
+ * placeholders, shipped in the plugin's `templates/prompts/` directory:
+ *
+ *   ---
+ *   name: compression
+ *   version: 1
+ *   ---
+ *   Tool: {{tool_name}} ...
+ *
+ * A project can override any of them with `<name>.md` in the directory named by
+ * `prompts.templates_dir` in .ai-agent-entrance.yaml, and choose the output
+ * language with `prompts.language` (AI_OUTPUT_LANGUAGE otherwise). The
+ * template version is stored with each observation so prompt changes can be
+ * told apart when reviewing results.
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getPluginRoot, getSetting } from '../../shared/config.js';
+import { loadProjectConfig } from '../../shared/project-config.js';
+import { logger } from '../../utils/logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PromptTemplateName =
+  | 'compression'
+  | 'compression-batch'
+  | 'summary'
+  | 'transcript-notes'
+  | 'transcript-summary';
+
+export type OutputLanguage = 'en' | 'zh';
+
+export interface PromptTemplate {
+  name: PromptTemplateName;
+  version: string;
+  source: 'plugin' | 'project';
+  path: string;
+  body: string;
+}
+
+export interface RenderedPrompt {
+  template: PromptTemplateName;
+  template_version: string;   // "<name>@<version>", prefixed with "project:" for project overrides
+  source: PromptTemplate['source'];
+  path: string;
+  language: OutputLanguage;
+  prompt: string;
+}
+
+/**
+ * A template is missing or malformed (as opposed to an API failure)
+ */
+export class PromptTemplateError extends Error {
+  constructor(message: string, readonly errors: string[] = []) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Variables each template may use; `language` is filled in for all of them
+export const TEMPLATE_VARIABLES: Record<PromptTemplateName, string[]> = {
+  'compression': ['tool_name', 'tool_input', 'tool_output', 'output_limit', 'project'],
+  'compression-batch': ['tool_calls', 'project'],
+  'summary': ['project', 'user_prompt', 'observations'],
+  'transcript-notes': ['part', 'parts', 'project', 'transcript'],
+  'transcript-summary': ['project', 'user_prompt', 'content'],
+};
+
+export const OUTPUT_LANGUAGES: Record<OutputLanguage, string> = {
+  en: 'English',
+  zh: 'Simplified Chinese (简体中文)',
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// ============================================================================
+// Parsing & Rendering
+// ============================================================================
+
+/**
+ * Substitute `{{name}}` placeholders in one pass. Values are inserted as-is
+ * (no `$` patterns, no re-expansion of placeholders inside values); unknown
+ * placeholders are left untouched.
+ */
+export function renderTemplate(body: string, vars: Record<string, string | number>): string {
+  return body.replace(PLACEHOLDER, (match, key: string) =>
+    Object.prototype.hasOwnProperty.call(vars, key) ? String(vars[key]) : match
+  );
+}
+
+/**
+ * Parse and validate a template file. Every placeholder must be a variable of
+ * the template, and the front matter must carry a version.
+ */
+export function parsePromptTemplate(
+  text: string,
+  name: PromptTemplateName,
+  path: string,
+  source: PromptTemplate['source']
+): { template: PromptTemplate | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    return { template: null, errors: ['missing front matter (--- version: N ---)'] };
+  }
+
+  let meta: unknown;
+  try {
+    meta = parseYaml(match[1]);
+  } catch (error) {
+    return { template: null, errors: [`front matter: ${(error as Error).message}`] };
+  }
+  const fields = (meta && typeof meta === 'object' ? meta : {}) as Record<string, unknown>;
+
+  const version = typeof fields.version === 'number' || typeof fields.version === 'string'
+    ? String(fields.version).trim()
+    : '';
+  if (!version) {
+    errors.push('version: expected a number or string');
+  }
+  if (fields.name !== undefined && fields.name !== name) {
+    errors.push(`name: expected "${name}"`);
+  }
+
+  const body = text.slice(match[0].length).trim();
+  if (!body) {
+    errors.push('template body is empty');
+  }
+
+  const allowed = [...TEMPLATE_VARIABLES[name], 'language'];
+  for (const [, key] of body.matchAll(PLACEHOLDER)) {
+    if (!allowed.includes(key)) {
+      errors.push(`unknown variable {{${key}}} (available: ${allowed.join(', ')})`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { template: null, errors };
+  }
+  return { template: { name, version, source, path, body }, errors };
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+// Keyed by file path; re-read when the file's mtime changes
+const cache = new Map<string, { mtimeMs: number; template: PromptTemplate | null; errors: string[] }>();
+
+function readTemplate(
+  path: string,
+  name: PromptTemplateName,
+  source: PromptTemplate['source']
+): { template: PromptTemplate | null; errors: string[] } {
+  try {
+    const { mtimeMs } = statSync(path);
+    const cached = cache.get(path);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached;
+    }
+
+    const parsed = parsePromptTemplate(readFileSync(path, 'utf-8'), name, path, source);
+    if (!parsed.template) {
+      logger.warn('PROMPT', `Rejected prompt template ${path}`, { errors: parsed.errors });
+    }
+    cache.set(path, { mtimeMs, ...parsed });
+    return parsed;
+  } catch (error) {
+    return { template: null, errors: [(error as Error).message] };
+  }
+}
+
+/**
+ * Directory of the project's template overrides, resolved against its project file
+ */
+function getProjectTemplatesDir(project: string | undefined): string | null {
+  if (!project || !isAbsolute(project)) return null;
+
+  const config = loadProjectConfig(project);
+  if (!config?.prompts?.templates_dir) return null;
+  return resolve(dirname(config.path), config.prompts.templates_dir);
+}
+
+export function getPluginTemplatesDir(): string {
+  return join(getPluginRoot(), 'templates', 'prompts');
+}
+
+/**
+ * Template for `name`: the project's override when it exists and is valid,
+ * else the plugin's. Throws PromptTemplateError when neither is usable.
+ */
+export function loadPromptTemplate(name: PromptTemplateName, project?: string): PromptTemplate {
+  const projectDir = getProjectTemplatesDir(project);
+  if (projectDir) {
+    const path = join(projectDir, `${name}.md`);
+    if (existsSync(path)) {
+      const { template } = readTemplate(path, name, 'project');
+      if (template) return template;
+      // Rejected overrides were logged; the plugin template still works
+    }
+  }
+
+  const path = join(getPluginTemplatesDir(), `${name}.md`);
+  const { template, errors } = readTemplate(path, name, 'plugin');
+  if (!template) {
+    throw new PromptTemplateError(`Prompt template "${name}" is unusable (${path}): ${errors.join('; ')}`, errors);
+  }
+  return template;
+}
+
+/**
+ * Output language for a project: `prompts.language`, else AI_OUTPUT_LANGUAGE
+ */
+export function getOutputLanguage(project?: string): OutputLanguage {
+  const cwd = project && isAbsolute(project) ? project : undefined;
+  const language = getSetting('AI_OUTPUT_LANGUAGE', cwd).trim().toLowerCase();
+  return language in OUTPUT_LANGUAGES ? (language as OutputLanguage) : 'en';
+}
+
+/**
+ * Load and render the template for `name` in the project's output language
+ */
+export function renderPrompt(
+  name: PromptTemplateName,
+  vars: Record<string, string | number>,
+  project?: string
+): RenderedPrompt {
+  const template = loadPromptTemplate(name, project);
+  const language = getOutputLanguage(project);
+
+  return {
+    template: name,
+    template_version: `${template.source === 'project' ? 'project:' : ''}${name}@${template.version}`,
+    source: template.source,
+    path: template.path,
+    language,
+    prompt: renderTemplate(template.body, { ...vars, language: OUTPUT_LANGUAGES[language] }),
+  };
+}
@@ -0,0 +1,173 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { Server } from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  OpenAiCompatibleProvider,
+  OllamaProvider,
+  ProviderApiError,
+  getRetryAfterMs,
+  getProviderName,
+  resolveModel,
+} from './providers.js';
+import { getSettingsPath } from '../../shared/config.js';
+
+let dataDir: string;
+let server: Server;
+let baseUrl: string;
+
+// What the fake endpoint received, and what it answers next
+const received: { url: string; headers: Record<string, unknown>; body: Record<string, unknown> }[] = [];
+let reply: { status: number; body: unknown; headers?: Record<string, string> } = { status: 200, body: {} };
+
+const TOOL = {
+  name: 'record_observation',
+  description: 'Record one observation',
+  input_schema: { properties: { title: { type: 'string' } }, required: ['title'] },
+};
+
+function writeSettings(settings: Record<string, string>): void {
+  writeFileSync(getSettingsPath(), JSON.stringify(settings));
+}
+
+before(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-providers-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+
+  server = createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => (data += chunk));
+    req.on('end', () => {
+      received.push({ url: req.url!, headers: req.headers, body: JSON.parse(data) });
+      res.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address() as { port: number };
+  baseUrl = `http://127.0.0.1:${address.port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// HTTP providers
+// ============================================================================
+
+test('the OpenAI-compatible provider forces the tool call and reads its arguments', async () => {
+  received.length = 0;
+  reply = {
+    status: 200,
+    body: {
+      choices: [{ message: { content: null, tool_calls: [{ function: { arguments: '{"title":"Fix retry"}' } }] } }],
+      usage: { prompt_tokens: 120, completion_tokens: 30 },
+    },
+  };
+
+  const response = await new OpenAiCompatibleProvider(`${baseUrl}/v1/`, 'sk-test').complete({
+    model: 'gpt-4o-mini',
+    prompt: 'Compress this',
+    max_tokens: 500,
+    tool: TOOL,
+  });
+
+  assert.deepEqual(response, {
+    text: null,
+    tool_input: { title: 'Fix retry' },
+    usage: { input_tokens: 120, output_tokens: 30 },
+  });
+
+  const [request] = received;
+  assert.equal(request.url, '/v1/chat/completions');
+  assert.equal(request.headers.authorization, 'Bearer sk-test');
+  assert.equal(request.body.model, 'gpt-4o-mini');
+  assert.deepEqual(request.body.tool_choice, { type: 'function', function: { name: 'record_observation' } });
+  assert.deepEqual((request.body.tools as { function: { parameters: unknown } }[])[0].function.parameters, {
+    type: 'object',
+    ...TOOL.input_schema,
+  });
+});
+
+test('the Ollama provider constrains the answer with a JSON schema', async () => {
+  received.length = 0;
+  reply = {
+    status: 200,
+    body: { message: { content: '{"title":"Cache the index"}' }, prompt_eval_count: 80, eval_count: 12 },
+  };
+
+  const provider = new OllamaProvider(baseUrl);
+  const structured = await provider.complete({ model: 'qwen2.5:7b', prompt: 'Compress this', max_tokens: 200, tool: TOOL });
+  assert.deepEqual(structured, {
+    text: null,
+    tool_input: { title: 'Cache the index' },
+    usage: { input_tokens: 80, output_tokens: 12 },
+  });
+
+  const [request] = received;
+  assert.equal(request.url, '/api/chat');
+  assert.equal(request.body.stream, false);
+  assert.deepEqual(request.body.options, { num_predict: 200 });
+  assert.deepEqual(request.body.format, { type: 'object', ...TOOL.input_schema });
+
+  // Without a tool the answer is plain text
+  const plain = await provider.complete({ model: 'qwen2.5:7b', prompt: 'Summarize', max_tokens: 200 });
+  assert.equal(plain.text, '{"title":"Cache the index"}');
+  assert.equal(plain.tool_input, null);
+});
+
+test('HTTP errors carry the status and the retry-after header', async () => {
+  reply = { status: 429, body: { error: 'slow down' }, headers: { 'retry-after': '7' } };
+
+  const error = await new OpenAiCompatibleProvider(baseUrl, undefined)
+    .complete({ model: 'gpt-4o-mini', prompt: 'x', max_tokens: 10 })
+    .catch((e: unknown) => e);
+
+  assert.ok(error instanceof ProviderApiError);
+  assert.equal(error.status, 429);
+  assert.match(error.message, /^openai API error 429: /);
+  assert.equal(getRetryAfterMs(error), 7000);
+});
+
+test('getRetryAfterMs reads milliseconds, seconds and HTTP dates', () => {
+  assert.equal(getRetryAfterMs({ headers: new Headers({ 'retry-after-ms': '1500', 'retry-after': '9' }) }), 1500);
+  assert.equal(getRetryAfterMs({ headers: { 'retry-after': '2' } }), 2000);
+
+  const date = getRetryAfterMs({ headers: { 'retry-after': new Date(Date.now() + 60_000).toUTCString() } });
+  assert.ok(date! > 55_000 && date! <= 60_000, String(date));
+
+  assert.equal(getRetryAfterMs({ headers: { 'retry-after': 'soon' } }), null);
+  assert.equal(getRetryAfterMs(new Error('no headers')), null);
+  assert.equal(getRetryAfterMs(null), null);
+});
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+test('AI_PROVIDER selects the provider, defaulting to anthropic', () => {
+  writeSettings({ AI_PROVIDER: ' Ollama ' });
+  assert.equal(getProviderName(), 'ollama');
+
+  writeSettings({ AI_PROVIDER: 'bedrock' });
+  assert.equal(getProviderName(), 'anthropic');
+});
+
+test('resolveModel picks the task model, then AI_MODEL, then the provider default', () => {
+  writeSettings({});
+  assert.equal(resolveModel('anthropic', 'compression'), 'claude-haiku-4-5');
+  assert.equal(resolveModel('anthropic', 'summary'), 'claude-sonnet-4-5');
+  // Claude model names are not sent to other providers
+  assert.equal(resolveModel('openai', 'compression'), 'gpt-4o-mini');
+  assert.equal(resolveModel('ollama', 'summary'), 'qwen2.5:7b');
+
+  writeSettings({ AI_PROVIDER: 'openai', AI_MODEL: 'gpt-4o', AI_MODEL_COMPRESSION: 'gpt-4o-mini' });
+  assert.equal(resolveModel('openai', 'compression'), 'gpt-4o-mini');
+  assert.equal(resolveModel('openai', 'summary'), 'gpt-4o');
+  assert.equal(resolveModel('openai', 'routing'), 'gpt-4o');
+});
@@ -0,0 +1,315 @@
+/**
+ * AI provider abstraction for CompressorService
+ *
+ * - anthropic: Messages API via @anthropic-ai/sdk (ANTHROPIC_API_KEY)
+ * - openai:    any OpenAI-compatible /chat/completions endpoint (AI_BASE_URL, AI_API_KEY / OPENAI_API_KEY)
+ * - ollama:    local model server /api/chat (AI_BASE_URL, default http://localhost:11434)
+ *
+ * Errors are thrown with the HTTP status in the message (e.g. "openai API error 429: ...")
+ * so CompressorService can classify them the same way for every provider, and
+ * carry the response headers so `retry-after` can be honored.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getSetting } from '../../shared/config.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AiProviderName = 'anthropic' | 'openai' | 'ollama';
+
+export type AiTask = 'compression' | 'summary' | 'routing';
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  max_tokens: number;
+  // Structured output: the answer is returned as `tool_input` matching this schema
+  tool?: {
+    name: string;
+    description: string;
+    input_schema: Record<string, unknown>;
+  };
+}
+
+export interface CompletionResponse {
+  text: string | null;
+  tool_input: Record<string, unknown> | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface AiProvider {
+  readonly name: AiProviderName;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+/**
+ * Non-2xx response from an HTTP provider (the Anthropic SDK throws its own
+ * APIError with the same `status` / `headers` fields)
+ */
+export class ProviderApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly headers: Headers
+  ) {
+    super(message);
+    this.name = 'ProviderApiError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const AI_PROVIDERS: AiProviderName[] = ['anthropic', 'openai', 'ollama'];
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+const DEFAULT_BASE_URLS: Record<Exclude<AiProviderName, 'anthropic'>, string> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434',
+};
+
+// Used when no configured model suits the provider (Claude model names with another provider)
+const DEFAULT_MODELS: Record<AiProviderName, string> = {
+  anthropic: 'claude-sonnet-4-5',
+  openai: 'gpt-4o-mini',
+  ollama: 'qwen2.5:7b',
+};
+
+const TASK_MODEL_KEYS = {
+  compression: 'AI_MODEL_COMPRESSION',
+  summary: 'AI_MODEL_SUMMARY',
+  routing: 'AI_MODEL_ROUTING',
+} as const;
+
+// ============================================================================
+// HTTP Helper
+// ============================================================================
+
+async function postJson(
+  provider: AiProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Record<string, unknown>> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new ProviderApiError(
+      `${provider} API error ${response.status}: ${text.slice(0, 500)}`,
+      response.status,
+      response.headers
+    );
+  }
+  return JSON.parse(text) as Record<string, unknown>;
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> | null {
+  if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+  if (typeof raw !== 'string') return null;
+  try {
+    return JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export class AnthropicProvider implements AiProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor() {
+    this.client = new Anthropic();
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.max_tokens,
+      messages: [{ role: 'user', content: request.prompt }],
+      ...(request.tool
+        ? {
+            tools: [{ ...request.tool, input_schema: { type: 'object' as const, ...request.tool.input_schema } }],
+            tool_choice: { type: 'tool' as const, name: request.tool.name },
+          }
+        : {}),
+    });
+
+    const text = response.content.find(c => c.type === 'text');
+    const toolUse = response.content.find(c => c.type === 'tool_use');
+
+    return {
+      text: text && text.type === 'text' ? text.text : null,
+      tool_input: toolUse && toolUse.type === 'tool_use' ? (toolUse.input as Record<string, unknown>) : null,
+      usage: { input_tokens: response.usage.input_tokens, output_tokens: response.usage.output_tokens },
+    };
+  }
+}
+
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.max_tokens,
+      messages: [{ role: 'user', content: request.prompt }],
+    };
+    if (request.tool) {
+      body.tools = [{
+        type: 'function',
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: { type: 'object', ...request.tool.input_schema },
+        },
+      }];
+      body.tool_choice = { type: 'function', function: { name: request.tool.name } };
+    }
+
+    const data = await postJson(
+      this.name,
+      `${this.baseUrl.replace(/\/+$/, '')}/chat/completions`,
+      body,
+      this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {}
+    );
+
+    const message = ((data.choices as Array<{ message?: Record<string, unknown> }> | undefined)?.[0]?.message) || {};
+    const toolCalls = message.tool_calls as Array<{ function?: { arguments?: unknown } }> | undefined;
+    const usage = (data.usage || {}) as { prompt_tokens?: number; completion_tokens?: number };
+
+    return {
+      text: typeof message.content === 'string' ? message.content : null,
+      tool_input: parseArguments(toolCalls?.[0]?.function?.arguments),
+      usage: { input_tokens: usage.prompt_tokens || 0, output_tokens: usage.completion_tokens || 0 },
+    };
+  }
+}
+
+export class OllamaProvider implements AiProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private baseUrl: string) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+    // Ollama has no forced tool call; a JSON schema `format` constrains the answer instead
+    const prompt = request.tool
+      ? `${request.prompt}\n\nRespond with ONLY a JSON object for "${request.tool.name}": ${request.tool.description}`
+      : request.prompt;
+
+    const data = await postJson(this.name, `${this.baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      model: request.model,
+      stream: false,
+      messages: [{ role: 'user', content: prompt }],
+      options: { num_predict: request.max_tokens },
+      ...(request.tool ? { format: { type: 'object', ...request.tool.input_schema } } : {}),
+    });
+
+    const content = (data.message as { content?: unknown } | undefined)?.content;
+    const text = typeof content === 'string' ? content : null;
+
+    return {
+      text: request.tool ? null : text,
+      tool_input: request.tool ? parseArguments(text) : null,
+      usage: {
+        input_tokens: typeof data.prompt_eval_count === 'number' ? data.prompt_eval_count : 0,
+        output_tokens: typeof data.eval_count === 'number' ? data.eval_count : 0,
+      },
+    };
+  }
+}
+
+/**
+ * Delay requested by a `retry-after-ms` / `retry-after` header (seconds or an
+ * HTTP date) on a provider error, or null when there is none
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== 'object') return null;
+
+  const header = (name: string): string | null => {
+    if (typeof (headers as Headers).get === 'function') return (headers as Headers).get(name);
+    const value = (headers as Record<string, unknown>)[name];
+    return typeof value === 'string' ? value : null;
+  };
+
+  const ms = parseFloat(header('retry-after-ms') ?? '');
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const retryAfter = header('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = parseFloat(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+export function getProviderName(): AiProviderName {
+  const name = getSetting('AI_PROVIDER').trim().toLowerCase();
+  return AI_PROVIDERS.includes(name as AiProviderName) ? (name as AiProviderName) : 'anthropic';
+}
+
+/**
+ * Why the configured provider cannot be used, or null when it can
+ */
+export function checkProviderCredentials(name: AiProviderName): 'no_api_key' | null {
+  switch (name) {
+    case 'anthropic':
+      return process.env.ANTHROPIC_API_KEY ? null : 'no_api_key';
+    case 'openai':
+      // A custom gateway (AI_BASE_URL) may not need a key
+      return process.env.AI_API_KEY || process.env.OPENAI_API_KEY || getSetting('AI_BASE_URL') ? null : 'no_api_key';
+    case 'ollama':
+      return null;
+  }
+}
+
+export function createProvider(name: AiProviderName): AiProvider {
+  const baseUrl = getSetting('AI_BASE_URL');
+
+  switch (name) {
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'openai':
+      return new OpenAiCompatibleProvider(
+        baseUrl || DEFAULT_BASE_URLS.openai,
+        process.env.AI_API_KEY || process.env.OPENAI_API_KEY
+      );
+    case 'ollama':
+      return new OllamaProvider(baseUrl || DEFAULT_BASE_URLS.ollama);
+  }
+}
+
+/**
+ * Model for a task: AI_MODEL_<TASK>, else AI_MODEL, else the provider default.
+ * Claude model names are skipped when another provider is selected.
+ */
+export function resolveModel(provider: AiProviderName, task: AiTask): string {
+  const candidates = [getSetting(TASK_MODEL_KEYS[task]), getSetting('AI_MODEL')].filter(Boolean);
+  const usable = provider === 'anthropic' ? candidates : candidates.filter(m => !m.startsWith('claude-'));
+  return usable[0] || DEFAULT_MODELS[provider];
+}
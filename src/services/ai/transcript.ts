@@ -0,0 +1,193 @@
+/**
+ * Session transcript reader for Stop-hook summaries
+ *
+ * Claude Code writes one JSON object per line to `transcript_path`: user and
+ * assistant messages whose content is a string or a list of blocks (text,
+ * thinking, tool_use, tool_result), plus bookkeeping lines. Only the
+ * conversation is kept, rendered as compact text and split into chunks that
+ * fit one summary request; tool results are shortened and thinking dropped.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TranscriptEntry {
+  role: 'user' | 'assistant' | 'tool';
+  text: string;
+}
+
+/**
+ * Rendered entries [start, end) of a transcript. The transcript only grows, so
+ * a chunk's offsets identify the same text on every later Stop.
+ */
+export interface TranscriptChunk {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcript {
+  entries: TranscriptEntry[];
+  files_read: string[];
+  files_edited: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOOL_RESULT_CHARS = 600;
+const TOOL_INPUT_CHARS = 300;
+const MESSAGE_CHARS = 8000;
+
+const READ_TOOLS = new Set(['Read']);
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}...[truncated]` : text;
+}
+
+function blockText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(b => (b && typeof b === 'object' && typeof (b as ContentBlock).text === 'string' ? (b as ContentBlock).text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function describeToolUse(block: ContentBlock): string {
+  const input = block.input || {};
+  // The most telling argument first (path, command, pattern), the rest as JSON
+  const primary = ['file_path', 'notebook_path', 'command', 'pattern', 'url', 'query', 'prompt']
+    .map(key => input[key])
+    .find((v): v is string => typeof v === 'string');
+  return `${block.name || 'tool'}: ${clip(primary ?? JSON.stringify(input), TOOL_INPUT_CHARS)}`;
+}
+
+/**
+ * Parse a transcript JSONL document. Unreadable lines are skipped.
+ */
+export function parseTranscript(jsonl: string): Transcript {
+  const entries: TranscriptEntry[] = [];
+  const filesRead = new Set<string>();
+  const filesEdited = new Set<string>();
+
+  for (const line of jsonl.split('\n')) {
+    if (!line.trim()) continue;
+
+    let record: { type?: string; isMeta?: boolean; message?: { role?: string; content?: unknown } };
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if ((record.type !== 'user' && record.type !== 'assistant') || record.isMeta || !record.message) continue;
+
+    const role = record.type;
+    const content = record.message.content;
+
+    if (typeof content === 'string') {
+      if (content.trim()) entries.push({ role, text: clip(content.trim(), MESSAGE_CHARS) });
+      continue;
+    }
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content as ContentBlock[]) {
+      if (!block || typeof block !== 'object') continue;
+
+      if (block.type === 'text' && block.text?.trim()) {
+        entries.push({ role, text: clip(block.text.trim(), MESSAGE_CHARS) });
+      } else if (block.type === 'tool_use') {
+        const path = block.input?.file_path ?? block.input?.notebook_path;
+        if (typeof path === 'string' && READ_TOOLS.has(block.name || '')) filesRead.add(path);
+        if (typeof path === 'string' && EDIT_TOOLS.has(block.name || '')) filesEdited.add(path);
+        entries.push({ role: 'tool', text: `→ ${describeToolUse(block)}` });
+      } else if (block.type === 'tool_result') {
+        const result = blockText(block.content).trim();
+        if (result) {
+          entries.push({ role: 'tool', text: `${block.is_error ? '✗' : '←'} ${clip(result, TOOL_RESULT_CHARS)}` });
+        }
+      }
+    }
+  }
+
+  return { entries, files_read: [...filesRead], files_edited: [...filesEdited] };
+}
+
+/**
+ * Read and parse the transcript at `path`, or null when it is missing or unreadable
+ */
+export function loadTranscript(path: string | undefined): Transcript | null {
+  if (!path || !existsSync(path)) return null;
+  try {
+    return parseTranscript(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+export function renderEntry(entry: TranscriptEntry): string {
+  const label = entry.role === 'user' ? 'User' : entry.role === 'assistant' ? 'Assistant' : 'Tool';
+  return `[${label}] ${entry.text}`;
+}
+
+/**
+ * Split the rendered conversation into chunks of at most `maxChars`, breaking
+ * between entries (an entry longer than a chunk is cut). Chunks are filled
+ * from the start, so appending entries only changes the last one. When there
+ * are more than `maxChunks`, the first chunk (the request) and the latest
+ * ones are kept.
+ */
+export function chunkTranscript(
+  entries: TranscriptEntry[],
+  maxChars: number,
+  maxChunks: number
+): { chunks: TranscriptChunk[]; omitted: number } {
+  const chunks: TranscriptChunk[] = [];
+  let current: TranscriptChunk | null = null;
+
+  for (const [i, entry] of entries.entries()) {
+    const text = clip(renderEntry(entry), maxChars);
+    if (current && current.text.length + text.length + 1 > maxChars) {
+      chunks.push(current);
+      current = null;
+    }
+    if (current) {
+      current.end = i + 1;
+      current.text = `${current.text}\n${text}`;
+    } else {
+      current = { start: i, end: i + 1, text };
+    }
+  }
+  if (current) chunks.push(current);
+
+  if (chunks.length <= maxChunks) {
+    return { chunks, omitted: 0 };
+  }
+  const keep = Math.max(1, maxChunks);
+  return {
+    chunks: [chunks[0], ...chunks.slice(chunks.length - (keep - 1))].slice(0, keep),
+    omitted: chunks.length - keep,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * AI usage accounting and per-project token budgets
+ *
+ * Every request the compressor sends is recorded in `ai_usage` (tokens,
+ * model, latency, failures included). Budgets come from
+ * AI_DAILY_TOKEN_BUDGET / AI_MONTHLY_TOKEN_BUDGET, overridable per project
+ * via `ai_budget` in .ai-agent-entrance.yaml; periods follow local time.
+ */
+
+import { isAbsolute } from 'path';
+import type { DatabaseStore } from '../database/store.js';
+import { getSettingInt } from '../../shared/config.js';
+import { logger } from '../../utils/logger.js';
+import type { AiUsageInput, AiBudgetStatus, AiUsageReport } from '../../shared/types.js';
+
+// ============================================================================
+// Period Helpers
+// ============================================================================
+
+function startOfDay(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+// ============================================================================
+// Usage Tracker
+// ============================================================================
+
+export class AiUsageTracker {
+  // "<project>:<period start>" of budgets already reported as exceeded
+  private warned = new Set<string>();
+
+  constructor(private store: DatabaseStore) {}
+
+  /**
+   * Record one request; accounting failures never break the AI call
+   */
+  record(usage: AiUsageInput): void {
+    try {
+      this.store.recordAiUsage(usage);
+    } catch (error) {
+      logger.debug('USAGE', 'Failed to record AI usage', { error: (error as Error).message });
+    }
+  }
+
+  getBudgetStatus(project: string): AiBudgetStatus {
+    // Project paths pick up their .ai-agent-entrance.yaml
+    const cwd = isAbsolute(project) ? project : undefined;
+    const dailyLimit = Math.max(0, getSettingInt('AI_DAILY_TOKEN_BUDGET', cwd) || 0);
+    const monthlyLimit = Math.max(0, getSettingInt('AI_MONTHLY_TOKEN_BUDGET', cwd) || 0);
+
+    const now = new Date();
+    const day = startOfDay(now);
+    const month = startOfMonth(now);
+    const dailyUsed = dailyLimit > 0 ? this.store.sumAiTokens(project, day.getTime()) : 0;
+    const monthlyUsed = monthlyLimit > 0 ? this.store.sumAiTokens(project, month.getTime()) : 0;
+
+    let exceeded: AiBudgetStatus['exceeded'] = null;
+    let resetsAt: Date | null = null;
+    if (monthlyLimit > 0 && monthlyUsed >= monthlyLimit) {
+      exceeded = 'monthly';
+      resetsAt = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+    } else if (dailyLimit > 0 && dailyUsed >= dailyLimit) {
+      exceeded = 'daily';
+      resetsAt = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    }
+
+    return {
+      project,
+      daily_limit: dailyLimit,
+      daily_used: dailyUsed,
+      monthly_limit: monthlyLimit,
+      monthly_used: monthlyUsed,
+      exceeded,
+      resets_at: resetsAt ? resetsAt.toISOString() : null,
+    };
+  }
+
+  /**
+   * Whether AI calls for `project` are paused by its token budget
+   */
+  isOverBudget(project: string): boolean {
+    let status: AiBudgetStatus;
+    try {
+      status = this.getBudgetStatus(project);
+    } catch (error) {
+      logger.debug('USAGE', 'Failed to check AI budget', { error: (error as Error).message });
+      return false;
+    }
+    if (!status.exceeded) return false;
+
+    const key = `${project}:${status.exceeded}:${status.resets_at}`;
+    if (!this.warned.has(key)) {
+      this.warned.add(key);
+      const used = status.exceeded === 'daily' ? status.daily_used : status.monthly_used;
+      const limit = status.exceeded === 'daily' ? status.daily_limit : status.monthly_limit;
+      logger.warn('USAGE', `项目 token 预算已用完（${status.exceeded}: ${used}/${limit}），AI 压缩暂停至 ${status.resets_at}`, {
+        project,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Usage over the last `days` days, optionally for one project
+   */
+  getReport(options: { project?: string; days?: number } = {}): AiUsageReport {
+    const days = Math.max(1, options.days || 30);
+    const since = startOfDay(new Date());
+    since.setDate(since.getDate() - (days - 1));
+
+    const breakdown = this.store.getAiUsageBreakdown(options.project, since.getTime());
+    const projects = options.project
+      ? [options.project]
+      : breakdown.by_project.map(p => p.project).filter((p): p is string => !!p);
+
+    return {
+      since: since.toISOString(),
+      project: options.project ?? null,
+      ...breakdown,
+      budgets: projects.map(p => this.getBudgetStatus(p)),
+    };
+  }
+}
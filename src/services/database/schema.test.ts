@@ -0,0 +1,165 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { SCHEMA_VERSION, getMigrationSQL } from './schema.js';
+import { DatabaseStore } from './store.js';
+
+let dataDir: string;
+let dbPath: string;
+
+/**
+ * A database as v2 left it, with knowledge the Stop hook kept writing to the
+ * legacy table and a summary pointing at it
+ */
+function createV2Database(path: string): void {
+  const db = new Database(path);
+  for (const sql of getMigrationSQL(0, 2)) {
+    db.exec(sql);
+  }
+
+  const now = '2025-01-01T00:00:00.000Z';
+  const epoch = Date.parse(now);
+  db.prepare(
+    `INSERT INTO sessions (session_id, project, created_at, created_at_epoch) VALUES ('s1', '/repo', ?, ?)`
+  ).run(now, epoch);
+  db.prepare(
+    `INSERT INTO knowledge (session_id, project, type, title, content, tags, synced_at, created_at, created_at_epoch)
+     VALUES ('s1', '/repo', 'pitfall', 'Retry storm', 'Back off on 429', '["retry"]', NULL, ?, ?),
+            ('s1', '/repo', 'adr', 'Use SQLite', 'Single file store', NULL, ?, ?, ?)`
+  ).run(now, epoch, now, now, epoch);
+  db.prepare(
+    `INSERT INTO knowledge_assets (type, name, product_line, title, content, source_project, created_at, created_at_epoch, updated_at, updated_at_epoch)
+     VALUES ('glossary', 'tps', 'exchange', 'TPS', 'Transactions per second', '/repo', ?, ?, ?, ?)`
+  ).run(now, epoch, now, epoch);
+  db.prepare(
+    `INSERT INTO session_summaries (session_id, project, sinkable_knowledge, created_at, created_at_epoch)
+     VALUES ('s1', '/repo', '[1,2]', ?, ?)`
+  ).run(now, epoch);
+  db.close();
+}
+
+/**
+ * A v12 database whose unpublished assets were not yet in the review queue,
+ * next to an observation draft that was
+ */
+function createV12Database(path: string): void {
+  const db = new Database(path);
+  for (const sql of getMigrationSQL(0, 12)) {
+    db.exec(sql);
+  }
+
+  const now = '2025-06-01T00:00:00.000Z';
+  const epoch = Date.parse(now);
+  db.prepare(
+    `INSERT INTO sessions (session_id, project, created_at, created_at_epoch) VALUES ('s1', '/repo', ?, ?)`
+  ).run(now, epoch);
+  db.prepare(
+    `INSERT INTO observations (session_id, project, type, title, created_at, created_at_epoch)
+     VALUES ('s1', '/repo', 'pitfall', 'Retry storm', ?, ?)`
+  ).run(now, epoch);
+  db.prepare(
+    `INSERT INTO pending_knowledge (observation_id, session_id, project, type, name, product_line, title, content, created_at, created_at_epoch)
+     VALUES (1, 's1', '/repo', 'pitfall', 'retry-storm', 'general', 'Retry storm', 'Back off on 429', ?, ?)`
+  ).run(now, epoch);
+  const insertAsset = db.prepare(
+    `INSERT INTO knowledge_assets (type, name, product_line, title, content, source_project, session_id, status, created_at, created_at_epoch, updated_at, updated_at_epoch)
+     VALUES ('adr', ?, 'general', ?, 'Body', '/repo', 's1', ?, ?, ?, ?, ?)`
+  );
+  for (const [name, status] of [['from-summary', 'draft'], ['from-sink', 'pending'], ['published', 'published']]) {
+    insertAsset.run(name, name, status, now, epoch, now, epoch);
+  }
+  db.close();
+}
+
+before(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-schema-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  dbPath = join(dataDir, 'v2.db');
+  createV2Database(dbPath);
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('upgrades a v2 database to the latest schema', async () => {
+  const store = new DatabaseStore(dbPath);
+  await store.initialize();
+
+  try {
+    // Legacy knowledge becomes published assets, renamed and moved to the general product line
+    const legacy = [1, 2].map(id => store.getKnowledgeAssetByName(`legacy-${id}`, 'general'));
+    assert.ok(legacy[0] && legacy[1]);
+    assert.deepEqual(legacy.map(a => a!.status), ['published', 'published']);
+    assert.equal(legacy[0]!.session_id, 's1');
+    assert.equal(legacy[1]!.promoted, 1);
+
+    // The summary follows its knowledge to the new ids
+    const summary = store.getSummary('s1');
+    assert.deepEqual(JSON.parse(summary!.sinkable_knowledge!), legacy.map(a => a!.id));
+
+    // Assets written before review statuses existed stay published, so nothing waits for review
+    const tps = store.getKnowledgeAssetByName('tps', 'exchange');
+    assert.equal(tps!.status, 'published');
+    assert.equal(store.countPendingKnowledge(), 0);
+
+    // Every asset starts its history with its current content
+    for (const asset of [...legacy, tps]) {
+      const revisions = store.getAssetRevisions(asset!.id);
+      assert.deepEqual(revisions.map(r => [r.revision, r.content]), [[1, asset!.content]]);
+    }
+  } finally {
+    store.close();
+  }
+
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    const version = db.prepare(`SELECT version FROM schema_version`).get() as { version: number };
+    assert.equal(version.version, SCHEMA_VERSION);
+    const legacyTable = db.prepare(`SELECT name FROM sqlite_master WHERE name = 'knowledge'`).get();
+    assert.equal(legacyTable, undefined);
+  } finally {
+    db.close();
+  }
+});
+
+test('reopening a migrated database keeps its data', async () => {
+  const store = new DatabaseStore(dbPath);
+  await store.initialize();
+
+  try {
+    assert.ok(store.getKnowledgeAssetByName('legacy-1', 'general'));
+    assert.equal(store.getKnowledgeAssetByName('tps', 'exchange')!.status, 'published');
+  } finally {
+    store.close();
+  }
+});
+
+test('queues unpublished assets written before the unified review queue', async () => {
+  const path = join(dataDir, 'v12.db');
+  createV12Database(path);
+  const store = new DatabaseStore(path);
+  await store.initialize();
+
+  try {
+    const queued = store.listPendingKnowledge({ status: 'pending' });
+    const byName = new Map(queued.map(draft => [draft.name, draft]));
+    assert.deepEqual([...byName.keys()].sort(), ['from-sink', 'from-summary', 'retry-storm']);
+
+    // Observation drafts keep their observation; asset drafts point at their asset
+    assert.equal(byName.get('retry-storm')!.origin, 'observation');
+    assert.equal(byName.get('retry-storm')!.observation_id, 1);
+    for (const [name, origin] of [['from-summary', 'summary'], ['from-sink', 'sink']] as const) {
+      const draft = byName.get(name)!;
+      assert.equal(draft.origin, origin);
+      assert.equal(draft.observation_id, null);
+      assert.equal(draft.asset_id, store.getKnowledgeAssetByName(name, 'general')!.id);
+      assert.equal(draft.project, '/repo');
+    }
+  } finally {
+    store.close();
+  }
+});
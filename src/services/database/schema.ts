@@ -2,7 +2,7 @@
  * Database schema and migrations for AI Agent Entrance
  */
 
-export const SCHEMA_VERSION = 2;
+export const SCHEMA_VERSION = 14;
 
 export const MIGRATIONS: Record<number, string[]> = {
   1: [
@@ -260,6 +260,334 @@ export const MIGRATIONS: Record<number, string[]> = {
     // Update schema version
     `UPDATE schema_version SET version = 2`,
   ],
+
+  3: [
+    // Workflow actually used in a session (detected from Skill/SlashCommand calls)
+    `ALTER TABLE sessions ADD COLUMN actual_workflow TEXT`,
+
+    // Routing feedback: which workflow was really used and whether it worked
+    `CREATE TABLE IF NOT EXISTS routing_feedback (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT,
+      project TEXT NOT NULL,
+      task_type TEXT NOT NULL,
+      recommended_workflow TEXT,
+      actual_workflow TEXT NOT NULL,
+      success INTEGER NOT NULL CHECK(success IN (0, 1)),
+      source TEXT NOT NULL DEFAULT 'user' CHECK(source IN ('user', 'stop_hook')),
+      weight REAL NOT NULL DEFAULT 1,
+      keywords TEXT,
+      note TEXT,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_routing_feedback_project ON routing_feedback(project, task_type)`,
+    `CREATE INDEX IF NOT EXISTS idx_routing_feedback_session ON routing_feedback(session_id)`,
+
+    `UPDATE schema_version SET version = 3`,
+  ],
+
+  4: [
+    // Every prompt of a session with the routing it produced (sessions.user_prompt keeps the first)
+    `CREATE TABLE IF NOT EXISTS session_prompts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      project TEXT NOT NULL,
+      prompt_number INTEGER NOT NULL,
+      prompt TEXT NOT NULL,
+      task_type TEXT NOT NULL,
+      confidence REAL NOT NULL DEFAULT 0,
+      product_line TEXT,
+      keywords TEXT,
+      recommended_workflow TEXT,
+      task_switch INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      UNIQUE(session_id, prompt_number),
+      FOREIGN KEY (session_id) REFERENCES sessions(session_id)
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_session_prompts_project ON session_prompts(project, created_at_epoch DESC)`,
+
+    `UPDATE schema_version SET version = 4`,
+  ],
+
+  5: [
+    // Durable PostToolUse compression queue; finished jobs are deleted, exhausted ones kept as 'dead'
+    `CREATE TABLE IF NOT EXISTS pending_compressions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      project TEXT NOT NULL,
+      tool_name TEXT NOT NULL,
+      tool_input TEXT,
+      tool_output TEXT,
+      prompt_number INTEGER,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at_epoch INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      updated_at_epoch INTEGER NOT NULL
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_pending_compressions_due ON pending_compressions(status, next_attempt_at_epoch)`,
+
+    `UPDATE schema_version SET version = 5`,
+  ],
+
+  6: [
+    // One row per AI request (failed ones included) for usage reports and token budgets
+    `CREATE TABLE IF NOT EXISTS ai_usage (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project TEXT,
+      task TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      model TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      latency_ms INTEGER NOT NULL DEFAULT 0,
+      success INTEGER NOT NULL CHECK(success IN (0, 1)),
+      error TEXT,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_ai_usage_project ON ai_usage(project, created_at_epoch)`,
+    `CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at_epoch)`,
+
+    `UPDATE schema_version SET version = 6`,
+  ],
+
+  7: [
+    // Prompt template ("<name>@<version>") an observation was compressed with; NULL for heuristic ones
+    `ALTER TABLE observations ADD COLUMN template_version TEXT`,
+
+    `UPDATE schema_version SET version = 7`,
+  ],
+
+  8: [
+    // Session consolidation: merged rows point at the observation that replaced them,
+    // which lists them in merged_from (JSON array of ids)
+    `ALTER TABLE observations ADD COLUMN merged_into INTEGER REFERENCES observations(id)`,
+    `ALTER TABLE observations ADD COLUMN merged_from TEXT`,
+
+    `CREATE INDEX IF NOT EXISTS idx_observations_merged_into ON observations(merged_into)`,
+
+    `UPDATE schema_version SET version = 8`,
+  ],
+
+  9: [
+    // Knowledge type suggested by the compressor for sinkable observations
+    `ALTER TABLE observations ADD COLUMN knowledge_type TEXT`,
+
+    // Knowledge asset drafts from sinkable observations, upserted into knowledge_assets on approval
+    `CREATE TABLE IF NOT EXISTS pending_knowledge (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      observation_id INTEGER NOT NULL UNIQUE,
+      session_id TEXT,
+      project TEXT NOT NULL,
+      type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      product_line TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected')),
+      asset_id INTEGER,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      reviewed_at TEXT,
+      reviewed_at_epoch INTEGER,
+      FOREIGN KEY (observation_id) REFERENCES observations(id),
+      FOREIGN KEY (asset_id) REFERENCES knowledge_assets(id)
+    )`,
+
+    `CREATE INDEX IF NOT EXISTS idx_pending_knowledge_status ON pending_knowledge(status, created_at_epoch)`,
+
+    `UPDATE schema_version SET version = 9`,
+  ],
+
+  10: [
+    // Review status of knowledge assets: only published ones are indexed, injected and pushed to L2
+    `ALTER TABLE knowledge_assets ADD COLUMN status TEXT NOT NULL DEFAULT 'published'
+      CHECK(status IN ('draft', 'pending', 'published'))`,
+    `ALTER TABLE knowledge_assets ADD COLUMN session_id TEXT`,
+    `CREATE INDEX IF NOT EXISTS idx_ka_status ON knowledge_assets(status)`,
+
+    // Legacy rows copied by migration 2 used the project as product line
+    `UPDATE knowledge_assets SET product_line = 'general'
+     WHERE name LIKE 'legacy-%' AND product_line = source_project`,
+
+    // Legacy knowledge written since migration 2 (the Stop hook kept using the old table)
+    `INSERT OR IGNORE INTO knowledge_assets (type, name, product_line, tags, title, content, source_project, l2_path, promoted, created_at, created_at_epoch, updated_at, updated_at_epoch)
+     SELECT
+       k.type,
+       'legacy-' || k.id,
+       'general',
+       k.tags,
+       k.title,
+       k.content,
+       k.project,
+       k.file_path,
+       CASE WHEN k.synced_at IS NOT NULL THEN 1 ELSE 0 END,
+       k.created_at,
+       k.created_at_epoch,
+       COALESCE(k.synced_at, k.created_at),
+       k.created_at_epoch
+     FROM knowledge k
+     WHERE NOT EXISTS (SELECT 1 FROM knowledge_assets ka WHERE ka.name = 'legacy-' || k.id)`,
+
+    // Legacy knowledge was already sunk, so it stays published
+    `UPDATE knowledge_assets
+     SET session_id = (SELECT k.session_id FROM knowledge k WHERE 'legacy-' || k.id = knowledge_assets.name)
+     WHERE name LIKE 'legacy-%'`,
+
+    // Summaries pointed at legacy knowledge ids
+    `UPDATE session_summaries
+     SET sinkable_knowledge = (
+       SELECT json_group_array(ka.id)
+       FROM json_each(session_summaries.sinkable_knowledge) j
+       JOIN knowledge_assets ka ON ka.name = 'legacy-' || j.value
+     )
+     WHERE sinkable_knowledge IS NOT NULL AND json_valid(sinkable_knowledge)`,
+
+    // Drop the legacy table; knowledge_assets is the only store from now on
+    `DROP TRIGGER IF EXISTS knowledge_ai`,
+    `DROP TRIGGER IF EXISTS knowledge_ad`,
+    `DROP TRIGGER IF EXISTS knowledge_au`,
+    `DROP TABLE IF EXISTS knowledge_fts`,
+    `DROP TABLE IF EXISTS knowledge`,
+
+    `UPDATE schema_version SET version = 10`,
+  ],
+
+  11: [
+    // Review workflow of knowledge drafts: edits, rejection reasons, snoozed reminders
+    `ALTER TABLE pending_knowledge ADD COLUMN reject_reason TEXT`,
+    `ALTER TABLE pending_knowledge ADD COLUMN snoozed_until TEXT`,
+    `ALTER TABLE pending_knowledge ADD COLUMN snoozed_until_epoch INTEGER`,
+    `ALTER TABLE pending_knowledge ADD COLUMN edited_at TEXT`,
+    `ALTER TABLE pending_knowledge ADD COLUMN edited_at_epoch INTEGER`,
+    `CREATE INDEX IF NOT EXISTS idx_pending_knowledge_project ON pending_knowledge(project, status)`,
+
+    `UPDATE schema_version SET version = 11`,
+  ],
+
+  12: [
+    // Snapshot of a knowledge asset after every change, so overwrites by sink calls
+    // and L2 pulls can be reviewed and rolled back
+    `CREATE TABLE IF NOT EXISTS knowledge_asset_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      asset_id INTEGER NOT NULL,
+      revision INTEGER NOT NULL,
+      source TEXT NOT NULL CHECK(source IN ('sink', 'pull', 'manual')),
+      author TEXT,
+      message TEXT,
+      type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      product_line TEXT NOT NULL,
+      tags TEXT,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      status TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      UNIQUE(asset_id, revision),
+      FOREIGN KEY (asset_id) REFERENCES knowledge_assets(id) ON DELETE CASCADE
+    )`,
+
+    // Existing assets start their history with their current content; only pulled
+    // assets have an L2 path without having been pushed
+    `INSERT INTO knowledge_asset_revisions (
+       asset_id, revision, source, message, type, name, product_line, tags, title, content, status,
+       created_at, created_at_epoch
+     )
+     SELECT id, 1, CASE WHEN promoted = 0 AND l2_path IS NOT NULL THEN 'pull' ELSE 'sink' END, 'Content before revision history',
+       type, name, product_line, tags, title, content, status, updated_at, updated_at_epoch
+     FROM knowledge_assets`,
+
+    `UPDATE schema_version SET version = 12`,
+  ],
+
+  13: [
+    // One review queue: draft / pending assets from summaries and sink requests are
+    // queued next to observation drafts, so observation_id becomes optional
+    `CREATE TABLE pending_knowledge_new (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      origin TEXT NOT NULL DEFAULT 'observation' CHECK(origin IN ('observation', 'summary', 'sink')),
+      observation_id INTEGER UNIQUE,
+      session_id TEXT,
+      project TEXT NOT NULL,
+      type TEXT NOT NULL,
+      name TEXT NOT NULL,
+      product_line TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected')),
+      asset_id INTEGER,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      reviewed_at TEXT,
+      reviewed_at_epoch INTEGER,
+      reject_reason TEXT,
+      snoozed_until TEXT,
+      snoozed_until_epoch INTEGER,
+      edited_at TEXT,
+      edited_at_epoch INTEGER,
+      FOREIGN KEY (observation_id) REFERENCES observations(id),
+      FOREIGN KEY (asset_id) REFERENCES knowledge_assets(id)
+    )`,
+    `INSERT INTO pending_knowledge_new (
+       id, observation_id, session_id, project, type, name, product_line, title, content, tags,
+       status, asset_id, created_at, created_at_epoch, reviewed_at, reviewed_at_epoch,
+       reject_reason, snoozed_until, snoozed_until_epoch, edited_at, edited_at_epoch
+     )
+     SELECT
+       id, observation_id, session_id, project, type, name, product_line, title, content, tags,
+       status, asset_id, created_at, created_at_epoch, reviewed_at, reviewed_at_epoch,
+       reject_reason, snoozed_until, snoozed_until_epoch, edited_at, edited_at_epoch
+     FROM pending_knowledge`,
+    `DROP TABLE pending_knowledge`,
+    `ALTER TABLE pending_knowledge_new RENAME TO pending_knowledge`,
+    `CREATE INDEX IF NOT EXISTS idx_pending_knowledge_status ON pending_knowledge(status, created_at_epoch)`,
+    `CREATE INDEX IF NOT EXISTS idx_pending_knowledge_project ON pending_knowledge(project, status)`,
+    `CREATE INDEX IF NOT EXISTS idx_pending_knowledge_asset ON pending_knowledge(asset_id)`,
+
+    // Unpublished assets written before the queue covered them
+    `INSERT INTO pending_knowledge (
+       origin, session_id, project, type, name, product_line, title, content, tags,
+       asset_id, created_at, created_at_epoch
+     )
+     SELECT
+       CASE WHEN status = 'draft' THEN 'summary' ELSE 'sink' END,
+       session_id, COALESCE(source_project, 'unknown'), type, name, product_line, title, content, tags,
+       id, created_at, created_at_epoch
+     FROM knowledge_assets
+     WHERE status IN ('draft', 'pending')`,
+
+    `UPDATE schema_version SET version = 13`,
+  ],
+
+  14: [
+    // Notes of transcript chunks [start_entry, end_entry) from earlier Stop summaries;
+    // the key covers the chunk text and notes template
+    `CREATE TABLE IF NOT EXISTS transcript_notes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      session_id TEXT NOT NULL,
+      start_entry INTEGER NOT NULL,
+      end_entry INTEGER NOT NULL,
+      chunk_key TEXT NOT NULL,
+      notes TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      created_at_epoch INTEGER NOT NULL,
+      UNIQUE(session_id, start_entry)
+    )`,
+
+    `UPDATE schema_version SET version = 14`,
+  ],
 };
 
 export function getMigrationSQL(fromVersion: number, toVersion: number): string[] {
@@ -6,9 +6,10 @@ import Database from 'better-sqlite3';
 import { getDbPath } from '../../shared/config.js';
 import type {
   ObservationRow,
-  KnowledgeRow,
   KnowledgeAssetRow,
   KnowledgeAssetType,
+  KnowledgeAssetStatus,
+  RelatedAsset,
   SearchOptions,
   SearchResult,
 } from '../../shared/types.js';
@@ -45,8 +46,8 @@ export class SearchService {
     const db = this.getDb();
     const { project, type, limit = 20, offset = 0, orderBy = 'relevance' } = options;
 
-    // Build WHERE clauses
-    const whereClauses: string[] = [];
+    // Build WHERE clauses; merged observations are represented by their consolidation
+    const whereClauses: string[] = ['o.merged_into IS NULL'];
     const params: unknown[] = [];
 
     if (project) {
@@ -107,66 +108,6 @@ export class SearchService {
     return { items, total, hasMore };
   }
 
-  // ============================================================================
-  // Knowledge Search
-  // ============================================================================
-
-  searchKnowledge(
-    query: string,
-    options: SearchOptions = {}
-  ): SearchResult<KnowledgeRow & { rank?: number }> {
-    const db = this.getDb();
-    const { project, limit = 20, offset = 0, orderBy = 'relevance' } = options;
-
-    const whereClauses: string[] = [];
-    const params: unknown[] = [];
-
-    if (project) {
-      whereClauses.push('k.project = ?');
-      params.push(project);
-    }
-
-    const whereSQL = whereClauses.length > 0 ? `AND ${whereClauses.join(' AND ')}` : '';
-
-    const orderSQL =
-      orderBy === 'relevance'
-        ? 'ORDER BY rank'
-        : orderBy === 'date_desc'
-        ? 'ORDER BY k.created_at_epoch DESC'
-        : 'ORDER BY k.created_at_epoch ASC';
-
-    const sql = `
-      SELECT k.*, fts.rank
-      FROM knowledge k
-      JOIN knowledge_fts fts ON k.id = fts.rowid
-      WHERE knowledge_fts MATCH ?
-      ${whereSQL}
-      ${orderSQL}
-      LIMIT ? OFFSET ?
-    `;
-
-    params.unshift(query);
-    params.push(limit + 1, offset);
-
-    const rows = db.prepare(sql).all(...params) as (KnowledgeRow & { rank: number })[];
-
-    const hasMore = rows.length > limit;
-    const items = hasMore ? rows.slice(0, limit) : rows;
-
-    const countSQL = `
-      SELECT COUNT(*) as total
-      FROM knowledge k
-      JOIN knowledge_fts fts ON k.id = fts.rowid
-      WHERE knowledge_fts MATCH ?
-      ${whereSQL}
-    `;
-
-    const countParams = [query, ...params.slice(1, -2)];
-    const { total } = db.prepare(countSQL).get(...countParams) as { total: number };
-
-    return { items, total, hasMore };
-  }
-
   // ============================================================================
   // Combined Search (for context injection)
   // ============================================================================
@@ -175,13 +116,13 @@ export class SearchService {
     project: string,
     query?: string,
     limit: number = 10
-  ): { observations: ObservationRow[]; knowledge: KnowledgeRow[] } {
+  ): { observations: ObservationRow[]; knowledge: KnowledgeAssetRow[] } {
     const db = this.getDb();
 
     if (query) {
       // Search with FTS
       const obsResult = this.searchObservations(query, { project, limit });
-      const knowResult = this.searchKnowledge(query, { project, limit });
+      const knowResult = this.searchKnowledgeAssets(query, { source_project: project, limit });
 
       return {
         observations: obsResult.items,
@@ -194,7 +135,7 @@ export class SearchService {
       .prepare(
         `
       SELECT * FROM observations
-      WHERE project = ?
+      WHERE project = ? AND merged_into IS NULL
       ORDER BY created_at_epoch DESC
       LIMIT ?
     `
@@ -204,13 +145,13 @@ export class SearchService {
     const knowledge = db
       .prepare(
         `
-      SELECT * FROM knowledge
-      WHERE project = ?
-      ORDER BY created_at_epoch DESC
+      SELECT * FROM knowledge_assets
+      WHERE source_project = ? AND status = 'published'
+      ORDER BY updated_at_epoch DESC
       LIMIT ?
     `
       )
-      .all(project, limit) as KnowledgeRow[];
+      .all(project, limit) as KnowledgeAssetRow[];
 
     return { observations, knowledge };
   }
@@ -228,27 +169,35 @@ export class SearchService {
     options: {
       product_line?: string;
       type?: KnowledgeAssetType;
+      status?: KnowledgeAssetStatus[];   // default: published only
+      source_project?: string;
       limit?: number;
       offset?: number;
       orderBy?: 'relevance' | 'date_desc' | 'date_asc';
     } = {}
   ): SearchResult<KnowledgeAssetRow & { rank?: number; score?: number; snippet?: string }> {
     const db = this.getDb();
-    const { product_line, type, limit = 20, offset = 0, orderBy = 'relevance' } = options;
+    const { product_line, type, source_project, limit = 20, offset = 0, orderBy = 'relevance' } = options;
+    const status = options.status && options.status.length > 0 ? options.status : ['published'];
 
-    const whereClauses: string[] = [];
-    const params: unknown[] = [];
+    const whereClauses: string[] = [`ka.status IN (${status.map(() => '?').join(', ')})`];
+    const params: unknown[] = [...status];
 
     if (product_line) {
-      whereClauses.push('ka.product_line = ?');
-      params.push(product_line);
+      // Hierarchical filter: "exchange" also matches "exchange/core"
+      whereClauses.push("(ka.product_line = ? OR ka.product_line LIKE ? || '/%')");
+      params.push(product_line, product_line);
     }
     if (type) {
       whereClauses.push('ka.type = ?');
       params.push(type);
     }
+    if (source_project) {
+      whereClauses.push('ka.source_project = ?');
+      params.push(source_project);
+    }
 
-    const whereSQL = whereClauses.length > 0 ? `AND ${whereClauses.join(' AND ')}` : '';
+    const whereSQL = `AND ${whereClauses.join(' AND ')}`;
 
     const orderSQL =
       orderBy === 'relevance'
@@ -299,6 +248,108 @@ export class SearchService {
     return { items, total, hasMore };
   }
 
+  // ============================================================================
+  // Prompt-Time Retrieval
+  // ============================================================================
+
+  /**
+   * Knowledge assets related to a prompt, used by the UserPromptSubmit hook.
+   *
+   * Candidates are FTS hits on `terms`, substring hits on title/tags/content
+   * (the unicode61 tokenizer cannot find CJK words inside a sentence), and
+   * pitfalls/ADRs of the same product line, its ancestors or descendants.
+   */
+  findRelatedAssets(
+    terms: string[],
+    options: { product_line?: string; limit?: number } = {}
+  ): RelatedAsset[] {
+    const db = this.getDb();
+    const { product_line, limit = 3 } = options;
+    const uniqueTerms = [...new Set(terms.map(t => t.trim()).filter(t => t.length > 1))];
+
+    const candidates = new Map<number, { row: KnowledgeAssetRow; fts: number }>();
+
+    if (uniqueTerms.length > 0) {
+      // FTS: quote each term so punctuation cannot break the MATCH syntax
+      const matchQuery = uniqueTerms.map(t => `"${t.replace(/"/g, '""')}"`).join(' OR ');
+      try {
+        const rows = db.prepare(`
+          SELECT ka.*, fts.rank
+          FROM knowledge_assets ka
+          JOIN knowledge_assets_fts fts ON ka.id = fts.rowid
+          WHERE knowledge_assets_fts MATCH ? AND ka.status = 'published'
+          ORDER BY rank
+          LIMIT 50
+        `).all(matchQuery) as (KnowledgeAssetRow & { rank: number })[];
+
+        for (const { rank, ...row } of rows) {
+          candidates.set(row.id, { row, fts: this.normalizeRank(rank) });
+        }
+      } catch {
+        // FTS query failed, substring matching below still applies
+      }
+
+      const likeClauses = uniqueTerms.map(() => '(title LIKE ? OR tags LIKE ? OR content LIKE ?)');
+      const likeParams = uniqueTerms.flatMap(t => [`%${t}%`, `%${t}%`, `%${t}%`]);
+      const rows = db.prepare(`
+        SELECT * FROM knowledge_assets
+        WHERE status = 'published' AND (${likeClauses.join(' OR ')})
+        ORDER BY updated_at_epoch DESC
+        LIMIT 50
+      `).all(...likeParams) as KnowledgeAssetRow[];
+
+      for (const row of rows) {
+        if (!candidates.has(row.id)) candidates.set(row.id, { row, fts: 0 });
+      }
+    }
+
+    if (product_line) {
+      const rows = db.prepare(`
+        SELECT * FROM knowledge_assets
+        WHERE type IN ('pitfall', 'adr') AND status = 'published'
+          AND (product_line = ? OR product_line LIKE ? || '/%' OR ? LIKE product_line || '/%')
+        ORDER BY updated_at_epoch DESC
+        LIMIT 20
+      `).all(product_line, product_line, product_line) as KnowledgeAssetRow[];
+
+      for (const row of rows) {
+        if (!candidates.has(row.id)) candidates.set(row.id, { row, fts: 0 });
+      }
+    }
+
+    const related: RelatedAsset[] = [];
+    for (const { row, fts } of candidates.values()) {
+      const haystack = `${row.title}\n${row.tags || ''}\n${row.content}`.toLowerCase();
+      const matchedTerms = uniqueTerms.filter(t => haystack.includes(t.toLowerCase()));
+      const sameProductLine = !!product_line && (
+        row.product_line === product_line ||
+        row.product_line.startsWith(`${product_line}/`) ||
+        product_line.startsWith(`${row.product_line}/`)
+      );
+
+      // Text evidence dominates; product line and pitfall/ADR type break ties
+      const textScore = uniqueTerms.length > 0
+        ? Math.max(fts, matchedTerms.length / uniqueTerms.length)
+        : 0;
+      const score = 0.6 * textScore
+        + (sameProductLine ? 0.3 : 0)
+        + (row.type === 'pitfall' || row.type === 'adr' ? 0.1 : 0);
+
+      if (textScore > 0 || sameProductLine) {
+        related.push({
+          ...row,
+          score: parseFloat(Math.min(1, score).toFixed(2)),
+          matched_terms: matchedTerms,
+          same_product_line: sameProductLine,
+        });
+      }
+    }
+
+    return related
+      .sort((a, b) => b.score - a.score || b.updated_at_epoch - a.updated_at_epoch)
+      .slice(0, limit);
+  }
+
   /**
    * Normalize FTS5 rank to 0-1 score (higher is better)
    * FTS5 rank is negative, closer to 0 is more relevant
@@ -351,29 +402,41 @@ export class SearchService {
     return snippet.trim();
   }
 
+  /**
+   * Counts of published assets, plus drafts and pending ones awaiting review
+   */
   getAssetStats(productLine?: string): {
     total: number;
     by_type: Record<string, number>;
     by_product_line: Record<string, number>;
     promoted: number;
     unpromoted: number;
+    draft: number;
+    pending: number;
   } {
     const db = this.getDb();
 
-    const plFilter = productLine ? ' WHERE product_line = ?' : '';
+    const plFilter = productLine ? ' AND product_line = ?' : '';
     const plParams = productLine ? [productLine] : [];
 
-    const total = (
-      db.prepare(`SELECT COUNT(*) as count FROM knowledge_assets${plFilter}`).get(...plParams) as { count: number }
-    ).count;
+    const statusRows = db
+      .prepare(`SELECT status, COUNT(*) as count FROM knowledge_assets WHERE 1 = 1${plFilter} GROUP BY status`)
+      .all(...plParams) as { status: KnowledgeAssetStatus; count: number }[];
+    const by_status: Record<string, number> = {};
+    for (const row of statusRows) {
+      by_status[row.status] = row.count;
+    }
+    const total = by_status.published || 0;
+
+    const published = `WHERE status = 'published'${plFilter}`;
 
     const promoted = (
-      db.prepare(`SELECT COUNT(*) as count FROM knowledge_assets WHERE promoted = 1${productLine ? ' AND product_line = ?' : ''}`).get(...plParams) as { count: number }
+      db.prepare(`SELECT COUNT(*) as count FROM knowledge_assets ${published} AND promoted = 1`).get(...plParams) as { count: number }
     ).count;
 
     // By type
     const typeRows = db
-      .prepare(`SELECT type, COUNT(*) as count FROM knowledge_assets${plFilter} GROUP BY type`)
+      .prepare(`SELECT type, COUNT(*) as count FROM knowledge_assets ${published} GROUP BY type`)
       .all(...plParams) as { type: string; count: number }[];
     const by_type: Record<string, number> = {};
     for (const row of typeRows) {
@@ -382,41 +445,57 @@ export class SearchService {
 
     // By product_line
     const plRows = db
-      .prepare(`SELECT product_line, COUNT(*) as count FROM knowledge_assets${plFilter} GROUP BY product_line`)
+      .prepare(`SELECT product_line, COUNT(*) as count FROM knowledge_assets ${published} GROUP BY product_line`)
       .all(...plParams) as { product_line: string; count: number }[];
     const by_product_line: Record<string, number> = {};
     for (const row of plRows) {
       by_product_line[row.product_line] = row.count;
     }
 
-    return { total, by_type, by_product_line, promoted, unpromoted: total - promoted };
+    return {
+      total,
+      by_type,
+      by_product_line,
+      promoted,
+      unpromoted: total - promoted,
+      draft: by_status.draft || 0,
+      pending: by_status.pending || 0,
+    };
   }
 
   listAssets(filters?: {
     type?: KnowledgeAssetType;
     product_line?: string;
     promoted?: boolean;
+    status?: KnowledgeAssetStatus[];   // default: published only
+    source_project?: string;
     limit?: number;
     offset?: number;
   }): SearchResult<KnowledgeAssetRow> {
     const db = this.getDb();
-    const where: string[] = [];
-    const params: unknown[] = [];
+    const status = filters?.status && filters.status.length > 0 ? filters.status : ['published'];
+    const where: string[] = [`status IN (${status.map(() => '?').join(', ')})`];
+    const params: unknown[] = [...status];
+
+    if (filters?.source_project) {
+      where.push('source_project = ?');
+      params.push(filters.source_project);
+    }
 
     if (filters?.type) {
       where.push('type = ?');
       params.push(filters.type);
     }
     if (filters?.product_line) {
-      where.push('product_line = ?');
-      params.push(filters.product_line);
+      where.push("(product_line = ? OR product_line LIKE ? || '/%')");
+      params.push(filters.product_line, filters.product_line);
     }
     if (filters?.promoted !== undefined) {
       where.push('promoted = ?');
       params.push(filters.promoted ? 1 : 0);
     }
 
-    const whereSQL = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+    const whereSQL = `WHERE ${where.join(' AND ')}`;
     const limit = filters?.limit || 50;
     const offset = filters?.offset || 0;
 
@@ -454,7 +533,7 @@ export class SearchService {
         .prepare(`SELECT COUNT(*) as count FROM observations WHERE project = ?`)
         .get(project) as { count: number };
       const know = db
-        .prepare(`SELECT COUNT(*) as count FROM knowledge WHERE project = ?`)
+        .prepare(`SELECT COUNT(*) as count FROM knowledge_assets WHERE source_project = ?`)
         .get(project) as { count: number };
       const sess = db
         .prepare(`SELECT COUNT(*) as count FROM sessions WHERE project = ?`)
@@ -468,7 +547,7 @@ export class SearchService {
     }
 
     const obs = db.prepare(`SELECT COUNT(*) as count FROM observations`).get() as { count: number };
-    const know = db.prepare(`SELECT COUNT(*) as count FROM knowledge`).get() as { count: number };
+    const know = db.prepare(`SELECT COUNT(*) as count FROM knowledge_assets`).get() as { count: number };
     const sess = db.prepare(`SELECT COUNT(*) as count FROM sessions`).get() as { count: number };
 
     return {
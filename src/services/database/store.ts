@@ -9,19 +9,46 @@ import { logger } from '../../utils/logger.js';
 import type {
   SessionRow,
   SessionInput,
+  SessionPromptRow,
+  SessionPromptInput,
   ObservationRow,
   ObservationInput,
-  KnowledgeRow,
-  KnowledgeInput,
   SessionSummaryRow,
   KnowledgeAssetRow,
   KnowledgeAssetInput,
   KnowledgeAssetType,
+  KnowledgeAssetStatus,
+  KnowledgeAssetRevisionRow,
+  KnowledgeRevisionOrigin,
+  PendingKnowledgeRow,
+  PendingKnowledgeInput,
+  PendingKnowledgeStatus,
+  PendingKnowledgeEdit,
+  PendingKnowledgeOrigin,
   SyncLogRow,
   SyncDirection,
   ConfigRow,
+  RoutingFeedbackInput,
+  RoutingFeedbackRow,
+  RoutingOutcome,
+  PendingCompressionRow,
+  PendingCompressionInput,
+  CompressionJobStatus,
+  AiUsageInput,
+  AiUsageTotals,
 } from '../../shared/types.js';
 
+/**
+ * Whether an update changed anything a revision records
+ */
+function isRevisionChanged(before: KnowledgeAssetRow, after: KnowledgeAssetRow): boolean {
+  return before.type !== after.type
+    || before.tags !== after.tags
+    || before.title !== after.title
+    || before.content !== after.content
+    || before.status !== after.status;
+}
+
 export class DatabaseStore {
   private db: Database.Database | null = null;
   private dbPath: string;
@@ -127,7 +154,7 @@ export class DatabaseStore {
 
   updateSession(
     sessionId: string,
-    updates: Partial<Pick<SessionRow, 'user_prompt' | 'detected_keywords' | 'recommended_workflow' | 'status' | 'completed_at'>>
+    updates: Partial<Pick<SessionRow, 'user_prompt' | 'detected_keywords' | 'recommended_workflow' | 'actual_workflow' | 'status' | 'completed_at'>>
   ): void {
     const db = this.getDb();
     const sets: string[] = [];
@@ -145,6 +172,10 @@ export class DatabaseStore {
       sets.push('recommended_workflow = ?');
       values.push(updates.recommended_workflow);
     }
+    if (updates.actual_workflow !== undefined) {
+      sets.push('actual_workflow = ?');
+      values.push(updates.actual_workflow);
+    }
     if (updates.status !== undefined) {
       sets.push('status = ?');
       values.push(updates.status);
@@ -172,168 +203,559 @@ export class DatabaseStore {
     return stmt.all(project, limit) as SessionRow[];
   }
 
+  /**
+   * Sessions that recorded a user prompt, newest first (routing corpus export)
+   */
+  getSessionsWithPrompts(project?: string, limit: number = 500): SessionRow[] {
+    const db = this.getDb();
+    if (project) {
+      const stmt = db.prepare(`
+        SELECT * FROM sessions
+        WHERE project = ? AND user_prompt IS NOT NULL AND user_prompt != ''
+        ORDER BY created_at_epoch DESC
+        LIMIT ?
+      `);
+      return stmt.all(project, limit) as SessionRow[];
+    }
+    const stmt = db.prepare(`
+      SELECT * FROM sessions
+      WHERE user_prompt IS NOT NULL AND user_prompt != ''
+      ORDER BY created_at_epoch DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as SessionRow[];
+  }
+
   // ============================================================================
-  // Observations
+  // Session Prompts
   // ============================================================================
 
-  createObservation(input: ObservationInput): ObservationRow {
+  /**
+   * Record one prompt of a session; a repeated prompt_number (hook retry) replaces the row
+   */
+  recordSessionPrompt(input: SessionPromptInput): SessionPromptRow {
     const db = this.getDb();
     const now = new Date();
 
-    const stmt = db.prepare(`
-      INSERT INTO observations (
-        session_id, project, type, title, subtitle, facts,
-        narrative, concepts, files_read, files_modified,
-        tool_name, prompt_number, discovery_tokens, should_sink,
-        created_at, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-
-    const result = stmt.run(
+    db.prepare(`
+      INSERT INTO session_prompts (
+        session_id, project, prompt_number, prompt, task_type, confidence, product_line,
+        keywords, recommended_workflow, task_switch, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(session_id, prompt_number) DO UPDATE SET
+        prompt = excluded.prompt,
+        task_type = excluded.task_type,
+        confidence = excluded.confidence,
+        product_line = excluded.product_line,
+        keywords = excluded.keywords,
+        recommended_workflow = excluded.recommended_workflow,
+        task_switch = excluded.task_switch
+    `).run(
       input.session_id,
       input.project,
-      input.type,
-      input.title,
-      input.subtitle || null,
-      input.facts ? JSON.stringify(input.facts) : null,
-      input.narrative || null,
-      input.concepts ? JSON.stringify(input.concepts) : null,
-      input.files_read ? JSON.stringify(input.files_read) : null,
-      input.files_modified ? JSON.stringify(input.files_modified) : null,
-      input.tool_name || null,
-      input.prompt_number || null,
-      input.discovery_tokens || 0,
-      input.should_sink ? 1 : 0,
+      input.prompt_number,
+      input.prompt,
+      input.task_type,
+      input.confidence,
+      input.product_line || null,
+      input.keywords ? JSON.stringify(input.keywords) : null,
+      input.recommended_workflow || null,
+      input.task_switch ? 1 : 0,
       now.toISOString(),
       now.getTime()
     );
 
-    return this.getObservation(result.lastInsertRowid as number)!;
+    return db.prepare(`SELECT * FROM session_prompts WHERE session_id = ? AND prompt_number = ?`)
+      .get(input.session_id, input.prompt_number) as SessionPromptRow;
   }
 
-  getObservation(id: number): ObservationRow | null {
+  getSessionPrompts(sessionId: string): SessionPromptRow[] {
     const db = this.getDb();
-    const stmt = db.prepare(`SELECT * FROM observations WHERE id = ?`);
-    return stmt.get(id) as ObservationRow | null;
+    const stmt = db.prepare(`
+      SELECT * FROM session_prompts
+      WHERE session_id = ?
+      ORDER BY prompt_number ASC
+    `);
+    return stmt.all(sessionId) as SessionPromptRow[];
   }
 
-  getSessionObservations(sessionId: string): ObservationRow[] {
+  /**
+   * Recorded prompts across sessions, newest first (routing corpus export)
+   */
+  getRecentSessionPrompts(project?: string, limit: number = 500): SessionPromptRow[] {
+    const db = this.getDb();
+    if (project) {
+      const stmt = db.prepare(`
+        SELECT * FROM session_prompts
+        WHERE project = ?
+        ORDER BY created_at_epoch DESC
+        LIMIT ?
+      `);
+      return stmt.all(project, limit) as SessionPromptRow[];
+    }
+    const stmt = db.prepare(`
+      SELECT * FROM session_prompts
+      ORDER BY created_at_epoch DESC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as SessionPromptRow[];
+  }
+
+  // ============================================================================
+  // Routing Feedback
+  // ============================================================================
+
+  /**
+   * Record which workflow a session actually used and whether it worked.
+   * Explicit user feedback replaces feedback the Stop hook inferred for the same session.
+   */
+  recordRoutingFeedback(input: RoutingFeedbackInput): RoutingFeedbackRow {
+    const db = this.getDb();
+    const now = new Date();
+    const source = input.source || 'user';
+
+    const insert = db.transaction(() => {
+      if (source === 'user' && input.session_id) {
+        db.prepare(`DELETE FROM routing_feedback WHERE session_id = ? AND source = 'stop_hook'`)
+          .run(input.session_id);
+      }
+
+      return db.prepare(`
+        INSERT INTO routing_feedback (
+          session_id, project, task_type, recommended_workflow, actual_workflow,
+          success, source, weight, keywords, note, created_at, created_at_epoch
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        input.session_id || null,
+        input.project,
+        input.task_type,
+        input.recommended_workflow || null,
+        input.actual_workflow,
+        input.success ? 1 : 0,
+        source,
+        input.weight ?? 1,
+        input.keywords ? JSON.stringify(input.keywords) : null,
+        input.note || null,
+        now.toISOString(),
+        now.getTime()
+      );
+    });
+
+    const result = insert();
+    return db.prepare(`SELECT * FROM routing_feedback WHERE id = ?`).get(result.lastInsertRowid) as RoutingFeedbackRow;
+  }
+
+  hasRoutingFeedback(sessionId: string): boolean {
+    const db = this.getDb();
+    const stmt = db.prepare(`SELECT 1 FROM routing_feedback WHERE session_id = ? LIMIT 1`);
+    return stmt.get(sessionId) !== undefined;
+  }
+
+  /**
+   * Weighted success/failure counts per task type and workflow for a project
+   */
+  getRoutingOutcomes(project: string): RoutingOutcome[] {
     const db = this.getDb();
     const stmt = db.prepare(`
-      SELECT * FROM observations
-      WHERE session_id = ?
-      ORDER BY created_at_epoch ASC
+      SELECT
+        task_type,
+        actual_workflow AS workflow,
+        SUM(CASE WHEN success = 1 THEN weight ELSE 0 END) AS successes,
+        SUM(CASE WHEN success = 0 THEN weight ELSE 0 END) AS failures
+      FROM routing_feedback
+      WHERE project = ?
+      GROUP BY task_type, actual_workflow
     `);
-    return stmt.all(sessionId) as ObservationRow[];
+    return stmt.all(project) as RoutingOutcome[];
   }
 
-  getRecentObservations(project: string, limit: number = 20): ObservationRow[] {
+  getRecentRoutingFeedback(project: string, limit: number = 20): RoutingFeedbackRow[] {
     const db = this.getDb();
     const stmt = db.prepare(`
-      SELECT * FROM observations
+      SELECT * FROM routing_feedback
       WHERE project = ?
       ORDER BY created_at_epoch DESC
       LIMIT ?
     `);
-    return stmt.all(project, limit) as ObservationRow[];
+    return stmt.all(project, limit) as RoutingFeedbackRow[];
   }
 
-  getSinkableObservations(project: string): ObservationRow[] {
+  // ============================================================================
+  // Compression Queue
+  // ============================================================================
+
+  enqueueCompression(input: PendingCompressionInput): number {
+    const db = this.getDb();
+    const now = new Date();
+
+    const result = db.prepare(`
+      INSERT INTO pending_compressions (
+        session_id, project, tool_name, tool_input, tool_output, prompt_number,
+        status, attempts, next_attempt_at_epoch, created_at, created_at_epoch, updated_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+    `).run(
+      input.session_id,
+      input.project,
+      input.tool_name,
+      input.tool_input == null
+        ? null
+        : typeof input.tool_input === 'string' ? input.tool_input : JSON.stringify(input.tool_input),
+      input.tool_output == null ? null : String(input.tool_output),
+      input.prompt_number || null,
+      now.getTime(),
+      now.toISOString(),
+      now.getTime(),
+      now.getTime()
+    );
+
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Atomically claim up to `maxBatches` batches of due jobs. A batch holds jobs
+   * of one session and prompt_number, and is only claimed once it is full or
+   * its oldest job has waited `windowMs` (so related calls can accumulate).
+   */
+  claimCompressionBatches(maxBatches: number, batchSize: number, windowMs: number): PendingCompressionRow[][] {
+    const db = this.getDb();
+    const now = Date.now();
+
+    const claim = db.transaction(() => {
+      const rows = db.prepare(`
+        SELECT * FROM pending_compressions
+        WHERE status = 'pending' AND next_attempt_at_epoch <= ?
+        ORDER BY id ASC
+        LIMIT ?
+      `).all(now, Math.max(100, maxBatches * batchSize * 10)) as PendingCompressionRow[];
+
+      const groups = new Map<string, PendingCompressionRow[]>();
+      for (const row of rows) {
+        const key = `${row.session_id}\u0000${row.prompt_number ?? ''}`;
+        const group = groups.get(key) || [];
+        group.push(row);
+        groups.set(key, group);
+      }
+
+      const batches: PendingCompressionRow[][] = [];
+      for (const group of groups.values()) {
+        if (batches.length >= maxBatches) break;
+        if (group.length < batchSize && group[0].created_at_epoch > now - windowMs) continue;
+        batches.push(group.slice(0, batchSize));
+      }
+
+      const mark = db.prepare(`
+        UPDATE pending_compressions SET status = 'processing', updated_at_epoch = ? WHERE id = ?
+      `);
+      for (const row of batches.flat()) {
+        mark.run(now, row.id);
+      }
+      return batches.map(batch => batch.map(row => ({ ...row, status: 'processing' as const })));
+    });
+
+    return claim();
+  }
+
+  completeCompression(id: number): void {
+    const db = this.getDb();
+    db.prepare(`DELETE FROM pending_compressions WHERE id = ?`).run(id);
+  }
+
+  /**
+   * Record a failed attempt: back to pending until `nextAttemptAt`, or dead-lettered when null
+   */
+  failCompression(id: number, error: string, nextAttemptAt: number | null): void {
+    const db = this.getDb();
+    db.prepare(`
+      UPDATE pending_compressions
+      SET status = ?, attempts = attempts + 1, last_error = ?,
+          next_attempt_at_epoch = COALESCE(?, next_attempt_at_epoch), updated_at_epoch = ?
+      WHERE id = ?
+    `).run(nextAttemptAt === null ? 'dead' : 'pending', error, nextAttemptAt, Date.now(), id);
+  }
+
+  /**
+   * Return a claimed job to the queue without counting an attempt (e.g. AI became
+   * unavailable), optionally not before `nextAttemptAt`
+   */
+  releaseCompression(id: number, nextAttemptAt?: number): void {
+    const db = this.getDb();
+    db.prepare(`
+      UPDATE pending_compressions
+      SET status = 'pending', next_attempt_at_epoch = COALESCE(?, next_attempt_at_epoch), updated_at_epoch = ?
+      WHERE id = ?
+    `).run(nextAttemptAt ?? null, Date.now(), id);
+  }
+
+  /**
+   * Jobs left in 'processing' by a crashed or killed worker go back to pending
+   */
+  recoverStaleCompressions(): number {
+    const db = this.getDb();
+    const result = db.prepare(`
+      UPDATE pending_compressions SET status = 'pending', updated_at_epoch = ? WHERE status = 'processing'
+    `).run(Date.now());
+    return result.changes;
+  }
+
+  /**
+   * Move dead jobs (all, or the given ids) back to pending with a fresh attempt budget
+   */
+  retryDeadCompressions(ids?: number[]): number {
+    const db = this.getDb();
+    const now = Date.now();
+
+    if (ids && ids.length > 0) {
+      const placeholders = ids.map(() => '?').join(', ');
+      return db.prepare(`
+        UPDATE pending_compressions
+        SET status = 'pending', attempts = 0, next_attempt_at_epoch = ?, updated_at_epoch = ?
+        WHERE status = 'dead' AND id IN (${placeholders})
+      `).run(now, now, ...ids).changes;
+    }
+
+    return db.prepare(`
+      UPDATE pending_compressions
+      SET status = 'pending', attempts = 0, next_attempt_at_epoch = ?, updated_at_epoch = ?
+      WHERE status = 'dead'
+    `).run(now, now).changes;
+  }
+
+  getCompressionQueueCounts(): {
+    counts: Record<CompressionJobStatus, number>;
+    due: number;
+    oldest_pending_epoch: number | null;
+  } {
+    const db = this.getDb();
+    const rows = db.prepare(`
+      SELECT status, COUNT(*) AS count FROM pending_compressions GROUP BY status
+    `).all() as { status: CompressionJobStatus; count: number }[];
+
+    const counts: Record<CompressionJobStatus, number> = { pending: 0, processing: 0, dead: 0 };
+    for (const row of rows) {
+      counts[row.status] = row.count;
+    }
+
+    const pending = db.prepare(`
+      SELECT
+        SUM(CASE WHEN next_attempt_at_epoch <= ? THEN 1 ELSE 0 END) AS due,
+        MIN(created_at_epoch) AS oldest
+      FROM pending_compressions
+      WHERE status = 'pending'
+    `).get(Date.now()) as { due: number | null; oldest: number | null };
+
+    return { counts, due: pending.due || 0, oldest_pending_epoch: pending.oldest };
+  }
+
+  getDeadCompressions(limit: number = 20): PendingCompressionRow[] {
     const db = this.getDb();
     const stmt = db.prepare(`
-      SELECT * FROM observations
-      WHERE project = ? AND should_sink = 1
-      ORDER BY created_at_epoch DESC
+      SELECT * FROM pending_compressions
+      WHERE status = 'dead'
+      ORDER BY updated_at_epoch DESC
+      LIMIT ?
     `);
-    return stmt.all(project) as ObservationRow[];
+    return stmt.all(limit) as PendingCompressionRow[];
   }
 
   // ============================================================================
-  // Knowledge
+  // AI Usage
   // ============================================================================
 
-  createKnowledge(input: KnowledgeInput): KnowledgeRow {
+  recordAiUsage(input: AiUsageInput): void {
     const db = this.getDb();
     const now = new Date();
 
+    db.prepare(`
+      INSERT INTO ai_usage (
+        project, task, provider, model, input_tokens, output_tokens,
+        latency_ms, success, error, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      input.project,
+      input.task,
+      input.provider,
+      input.model,
+      input.input_tokens,
+      input.output_tokens,
+      Math.round(input.latency_ms),
+      input.success ? 1 : 0,
+      input.error || null,
+      now.toISOString(),
+      now.getTime()
+    );
+  }
+
+  /**
+   * Input + output tokens used by `project` since `sinceEpoch`
+   */
+  sumAiTokens(project: string, sinceEpoch: number): number {
+    const db = this.getDb();
+    const row = db.prepare(`
+      SELECT COALESCE(SUM(input_tokens + output_tokens), 0) AS tokens
+      FROM ai_usage WHERE project = ? AND created_at_epoch >= ?
+    `).get(project, sinceEpoch) as { tokens: number };
+    return row.tokens;
+  }
+
+  /**
+   * Usage totals since `sinceEpoch`, overall and grouped by day (local time), task, model and project
+   */
+  getAiUsageBreakdown(project: string | undefined, sinceEpoch: number): {
+    totals: AiUsageTotals;
+    by_day: Array<AiUsageTotals & { day: string }>;
+    by_task: Array<AiUsageTotals & { task: string }>;
+    by_model: Array<AiUsageTotals & { provider: string; model: string }>;
+    by_project: Array<AiUsageTotals & { project: string | null }>;
+  } {
+    const db = this.getDb();
+    const where = project ? 'WHERE created_at_epoch >= ? AND project = ?' : 'WHERE created_at_epoch >= ?';
+    const params = project ? [sinceEpoch, project] : [sinceEpoch];
+    const totals = `
+      COUNT(*) AS requests,
+      SUM(CASE WHEN success = 0 THEN 1 ELSE 0 END) AS failed,
+      COALESCE(SUM(input_tokens), 0) AS input_tokens,
+      COALESCE(SUM(output_tokens), 0) AS output_tokens,
+      CAST(COALESCE(AVG(latency_ms), 0) AS INTEGER) AS avg_latency_ms
+    `;
+    const grouped = <T>(columns: string, order: string) =>
+      db.prepare(`
+        SELECT ${columns}, ${totals} FROM ai_usage ${where}
+        GROUP BY ${columns.replace(/ AS \w+/g, '')} ORDER BY ${order}
+      `).all(...params) as Array<AiUsageTotals & T>;
+
+    const overall = db.prepare(`SELECT ${totals} FROM ai_usage ${where}`).get(...params) as AiUsageTotals;
+
+    return {
+      totals: { ...overall, failed: overall.failed ?? 0 },
+      by_day: grouped<{ day: string }>(
+        `date(created_at_epoch / 1000, 'unixepoch', 'localtime') AS day`,
+        'day DESC'
+      ),
+      by_task: grouped<{ task: string }>('task', 'input_tokens + output_tokens DESC'),
+      by_model: grouped<{ provider: string; model: string }>('provider, model', 'input_tokens + output_tokens DESC'),
+      by_project: grouped<{ project: string | null }>('project', 'input_tokens + output_tokens DESC'),
+    };
+  }
+
+  // ============================================================================
+  // Observations
+  // ============================================================================
+
+  createObservation(input: ObservationInput): ObservationRow {
+    return this.insertObservation(input, new Date(), null);
+  }
+
+  private insertObservation(input: ObservationInput, now: Date, mergedFrom: number[] | null): ObservationRow {
+    const db = this.getDb();
+
     const stmt = db.prepare(`
-      INSERT INTO knowledge (
-        session_id, observation_id, project, type, title, content,
-        tags, file_path, created_at, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO observations (
+        session_id, project, type, title, subtitle, facts,
+        narrative, concepts, files_read, files_modified,
+        tool_name, prompt_number, discovery_tokens, should_sink,
+        template_version, merged_from, knowledge_type, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
-      input.session_id || null,
-      input.observation_id || null,
+      input.session_id,
       input.project,
       input.type,
       input.title,
-      input.content,
-      input.tags ? JSON.stringify(input.tags) : null,
-      input.file_path || null,
+      input.subtitle || null,
+      input.facts ? JSON.stringify(input.facts) : null,
+      input.narrative || null,
+      input.concepts ? JSON.stringify(input.concepts) : null,
+      input.files_read ? JSON.stringify(input.files_read) : null,
+      input.files_modified ? JSON.stringify(input.files_modified) : null,
+      input.tool_name || null,
+      input.prompt_number || null,
+      input.discovery_tokens || 0,
+      input.should_sink ? 1 : 0,
+      input.template_version || null,
+      mergedFrom ? JSON.stringify(mergedFrom) : null,
+      input.knowledge_type || null,
       now.toISOString(),
       now.getTime()
     );
 
-    return this.getKnowledge(result.lastInsertRowid as number)!;
+    return this.getObservation(result.lastInsertRowid as number)!;
   }
 
-  getKnowledge(id: number): KnowledgeRow | null {
+  /**
+   * Store the consolidation of `sourceIds` and mark them merged into it, atomically.
+   * The new row takes `createdAt` (the latest source's time) to keep its place in the session.
+   * Throws when a source was already merged (concurrent consolidation).
+   */
+  createMergedObservation(input: ObservationInput, sourceIds: number[], createdAt: Date): ObservationRow {
     const db = this.getDb();
-    const stmt = db.prepare(`SELECT * FROM knowledge WHERE id = ?`);
-    return stmt.get(id) as KnowledgeRow | null;
+
+    const merge = db.transaction(() => {
+      const merged = this.insertObservation(input, createdAt, sourceIds);
+      const mark = db.prepare(`UPDATE observations SET merged_into = ? WHERE id = ? AND merged_into IS NULL`);
+      for (const id of sourceIds) {
+        if (mark.run(merged.id, id).changes !== 1) {
+          throw new Error(`Observation ${id} is already merged`);
+        }
+      }
+      // Drafts of the sources are superseded by the merged observation
+      this.deletePendingKnowledgeForObservations(sourceIds);
+      return merged;
+    });
+
+    return merge();
   }
 
-  getProjectKnowledge(project: string, type?: string): KnowledgeRow[] {
+  getObservation(id: number): ObservationRow | null {
     const db = this.getDb();
+    const stmt = db.prepare(`SELECT * FROM observations WHERE id = ?`);
+    return stmt.get(id) as ObservationRow | null;
+  }
 
-    if (type) {
-      const stmt = db.prepare(`
-        SELECT * FROM knowledge
-        WHERE project = ? AND type = ?
-        ORDER BY created_at_epoch DESC
-      `);
-      return stmt.all(project, type) as KnowledgeRow[];
-    }
-
+  /**
+   * Observations merged directly into `id`
+   */
+  getMergedObservations(id: number): ObservationRow[] {
+    const db = this.getDb();
     const stmt = db.prepare(`
-      SELECT * FROM knowledge
-      WHERE project = ?
-      ORDER BY created_at_epoch DESC
+      SELECT * FROM observations
+      WHERE merged_into = ?
+      ORDER BY created_at_epoch ASC
     `);
-    return stmt.all(project) as KnowledgeRow[];
+    return stmt.all(id) as ObservationRow[];
   }
 
-  getUnsyncedKnowledge(project?: string): KnowledgeRow[] {
-    const db = this.getDb();
-
-    if (project) {
-      const stmt = db.prepare(`
-        SELECT * FROM knowledge
-        WHERE project = ? AND synced_at IS NULL
-        ORDER BY created_at_epoch ASC
-      `);
-      return stmt.all(project) as KnowledgeRow[];
-    }
+  // Merged observations are kept for provenance but left out of the listings below
 
+  getSessionObservations(sessionId: string): ObservationRow[] {
+    const db = this.getDb();
     const stmt = db.prepare(`
-      SELECT * FROM knowledge
-      WHERE synced_at IS NULL
+      SELECT * FROM observations
+      WHERE session_id = ? AND merged_into IS NULL
       ORDER BY created_at_epoch ASC
     `);
-    return stmt.all() as KnowledgeRow[];
+    return stmt.all(sessionId) as ObservationRow[];
   }
 
-  markKnowledgeSynced(id: number, filePath: string): void {
+  getRecentObservations(project: string, limit: number = 20): ObservationRow[] {
     const db = this.getDb();
-    const now = new Date().toISOString();
     const stmt = db.prepare(`
-      UPDATE knowledge
-      SET synced_at = ?, file_path = ?
-      WHERE id = ?
+      SELECT * FROM observations
+      WHERE project = ? AND merged_into IS NULL
+      ORDER BY created_at_epoch DESC
+      LIMIT ?
     `);
-    stmt.run(now, filePath, id);
+    return stmt.all(project, limit) as ObservationRow[];
+  }
+
+  getSinkableObservations(project: string): ObservationRow[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM observations
+      WHERE project = ? AND should_sink = 1 AND merged_into IS NULL
+      ORDER BY created_at_epoch DESC
+    `);
+    return stmt.all(project) as ObservationRow[];
   }
 
   // ============================================================================
@@ -400,38 +822,75 @@ export class DatabaseStore {
     return stmt.all(project, limit) as SessionSummaryRow[];
   }
 
+  // ============================================================================
+  // Transcript Notes
+  // ============================================================================
+
+  /**
+   * Notes of the transcript chunk [start, end) of a session, if its key still matches
+   */
+  getTranscriptNotes(sessionId: string, start: number, end: number, key: string): string | null {
+    const db = this.getDb();
+    const row = db.prepare(`
+      SELECT notes FROM transcript_notes
+      WHERE session_id = ? AND start_entry = ? AND end_entry = ? AND chunk_key = ?
+    `).get(sessionId, start, end, key) as { notes: string } | undefined;
+    return row?.notes ?? null;
+  }
+
+  /**
+   * Store the notes of a chunk; they replace the notes of the shorter chunk
+   * that started at the same entry before the transcript grew
+   */
+  saveTranscriptNotes(sessionId: string, start: number, end: number, key: string, notes: string): void {
+    const db = this.getDb();
+    const now = new Date();
+    db.prepare(`
+      INSERT OR REPLACE INTO transcript_notes (
+        session_id, start_entry, end_entry, chunk_key, notes, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(sessionId, start, end, key, notes, now.toISOString(), now.getTime());
+  }
+
   // ============================================================================
   // Knowledge Assets (L1 Cache)
   // ============================================================================
 
-  createKnowledgeAsset(input: KnowledgeAssetInput): KnowledgeAssetRow {
+  createKnowledgeAsset(input: KnowledgeAssetInput, origin: KnowledgeRevisionOrigin): KnowledgeAssetRow {
     const db = this.getDb();
     const now = new Date();
 
     const stmt = db.prepare(`
       INSERT INTO knowledge_assets (
         type, name, product_line, tags, title, content,
-        source_project, l2_path, promoted,
+        source_project, l2_path, promoted, status, session_id,
         created_at, created_at_epoch, updated_at, updated_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.run(
-      input.type,
-      input.name,
-      input.product_line,
-      input.tags ? JSON.stringify(input.tags) : null,
-      input.title,
-      input.content,
-      input.source_project || null,
-      input.l2_path || null,
-      now.toISOString(),
-      now.getTime(),
-      now.toISOString(),
-      now.getTime()
-    );
+    const create = db.transaction(() => {
+      const result = stmt.run(
+        input.type,
+        input.name,
+        input.product_line,
+        input.tags ? JSON.stringify(input.tags) : null,
+        input.title,
+        input.content,
+        input.source_project || null,
+        input.l2_path || null,
+        input.status || 'published',
+        input.session_id || null,
+        now.toISOString(),
+        now.getTime(),
+        now.toISOString(),
+        now.getTime()
+      );
+      const asset = this.getKnowledgeAsset(result.lastInsertRowid as number)!;
+      this.recordAssetRevision(asset, origin);
+      return asset;
+    });
 
-    return this.getKnowledgeAsset(result.lastInsertRowid as number)!;
+    return create();
   }
 
   getKnowledgeAsset(id: number): KnowledgeAssetRow | null {
@@ -452,7 +911,13 @@ export class DatabaseStore {
     return stmt.get(name, productLine) as KnowledgeAssetRow | null;
   }
 
-  upsertKnowledgeAsset(input: KnowledgeAssetInput): KnowledgeAssetRow {
+  /**
+   * Create or update the asset with the same name and product line. The
+   * previous content stays in its revision history; updates that change
+   * nothing add no revision. A changed asset is marked for re-push unless
+   * the change was pulled from L2.
+   */
+  upsertKnowledgeAsset(input: KnowledgeAssetInput, origin: KnowledgeRevisionOrigin): KnowledgeAssetRow {
     const existing = this.getKnowledgeAssetByName(input.name, input.product_line);
     if (existing) {
       const db = this.getDb();
@@ -460,30 +925,52 @@ export class DatabaseStore {
       const stmt = db.prepare(`
         UPDATE knowledge_assets SET
           type = ?, tags = ?, title = ?, content = ?,
-          source_project = ?, l2_path = ?,
+          source_project = ?, l2_path = ?, status = ?,
           updated_at = ?, updated_at_epoch = ?
         WHERE id = ?
       `);
-      stmt.run(
-        input.type,
-        input.tags ? JSON.stringify(input.tags) : null,
-        input.title,
-        input.content,
-        input.source_project || existing.source_project,
-        input.l2_path || existing.l2_path,
-        now.toISOString(),
-        now.getTime(),
-        existing.id
-      );
-      return this.getKnowledgeAsset(existing.id)!;
+
+      const update = db.transaction(() => {
+        stmt.run(
+          input.type,
+          input.tags ? JSON.stringify(input.tags) : null,
+          input.title,
+          input.content,
+          input.source_project || existing.source_project,
+          input.l2_path || existing.l2_path,
+          input.status || existing.status,
+          now.toISOString(),
+          now.getTime(),
+          existing.id
+        );
+        let asset = this.getKnowledgeAsset(existing.id)!;
+        if (isRevisionChanged(existing, asset)) {
+          // Changed content goes to L2 on the next push, unless it came from there
+          if (origin.source !== 'pull' && asset.promoted) {
+            db.prepare(`UPDATE knowledge_assets SET promoted = 0 WHERE id = ?`).run(asset.id);
+            asset = this.getKnowledgeAsset(existing.id)!;
+          }
+          this.recordAssetRevision(asset, origin);
+        }
+        // Publishing over a queued draft settles its review
+        const draft = asset.status === 'published' ? this.getPendingKnowledgeByAsset(asset.id) : null;
+        if (draft) {
+          this.reviewPendingKnowledge(draft.id, 'approved', { assetId: asset.id });
+        }
+        return asset;
+      });
+
+      return update();
     }
-    return this.createKnowledgeAsset(input);
+    return this.createKnowledgeAsset(input, origin);
   }
 
   listKnowledgeAssets(filters?: {
     type?: KnowledgeAssetType;
     product_line?: string;
     promoted?: boolean;
+    status?: KnowledgeAssetStatus[];
+    source_project?: string;
     limit?: number;
     offset?: number;
   }): KnowledgeAssetRow[] {
@@ -491,6 +978,15 @@ export class DatabaseStore {
     const where: string[] = [];
     const params: unknown[] = [];
 
+    if (filters?.status && filters.status.length > 0) {
+      where.push(`status IN (${filters.status.map(() => '?').join(', ')})`);
+      params.push(...filters.status);
+    }
+    if (filters?.source_project) {
+      where.push('source_project = ?');
+      params.push(filters.source_project);
+    }
+
     if (filters?.type) {
       where.push('type = ?');
       params.push(filters.type);
@@ -520,13 +1016,14 @@ export class DatabaseStore {
   }
 
   /**
-   * Get all knowledge assets (no limit)
+   * Get all published knowledge assets (no limit)
    * Used for generating AGENTS-INDEX.md
    */
   getAllKnowledgeAssets(): KnowledgeAssetRow[] {
     const db = this.getDb();
     const stmt = db.prepare(`
       SELECT * FROM knowledge_assets
+      WHERE status = 'published'
       ORDER BY promoted DESC, updated_at_epoch DESC
     `);
     return stmt.all() as KnowledgeAssetRow[];
@@ -547,12 +1044,429 @@ export class DatabaseStore {
     const db = this.getDb();
     const stmt = db.prepare(`
       SELECT * FROM knowledge_assets
-      WHERE promoted = 0
+      WHERE promoted = 0 AND status = 'published'
       ORDER BY created_at_epoch ASC
     `);
     return stmt.all() as KnowledgeAssetRow[];
   }
 
+  /**
+   * Assets still named "legacy-<id>" from the v1 knowledge table
+   */
+  getLegacyKnowledgeAssets(): KnowledgeAssetRow[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM knowledge_assets
+      WHERE name LIKE 'legacy-%'
+      ORDER BY id ASC
+    `);
+    return stmt.all() as KnowledgeAssetRow[];
+  }
+
+  /**
+   * Change the name / product line of an asset; false when the pair is taken
+   */
+  renameKnowledgeAsset(id: number, name: string, productLine: string, origin: KnowledgeRevisionOrigin): boolean {
+    const db = this.getDb();
+
+    const rename = db.transaction(() => {
+      const result = db.prepare(`
+        UPDATE OR IGNORE knowledge_assets
+        SET name = ?, product_line = ?
+        WHERE id = ?
+      `).run(name, productLine, id);
+      if (result.changes === 0) return false;
+
+      this.recordAssetRevision(this.getKnowledgeAsset(id)!, origin);
+      return true;
+    });
+
+    return rename();
+  }
+
+  /**
+   * Change the review status of an asset, recorded as a revision. Publishing
+   * also approves the asset's draft in the review queue.
+   */
+  setKnowledgeAssetStatus(id: number, status: KnowledgeAssetStatus, origin: KnowledgeRevisionOrigin): KnowledgeAssetRow | null {
+    const db = this.getDb();
+    const now = new Date();
+
+    const update = db.transaction(() => {
+      const result = db.prepare(`
+        UPDATE knowledge_assets
+        SET status = ?, updated_at = ?, updated_at_epoch = ?
+        WHERE id = ? AND status != ?
+      `).run(status, now.toISOString(), now.getTime(), id, status);
+      if (result.changes === 0) return null;
+
+      const draft = status === 'published' ? this.getPendingKnowledgeByAsset(id) : null;
+      if (draft) {
+        this.reviewPendingKnowledge(draft.id, 'approved', { assetId: id });
+      }
+
+      const asset = this.getKnowledgeAsset(id)!;
+      this.recordAssetRevision(asset, origin);
+      return asset;
+    });
+
+    return update();
+  }
+
+  /**
+   * Delete an asset that was never published (its revisions go with it) and
+   * reject its draft in the review queue; false when it is published or missing
+   */
+  deleteUnpublishedKnowledgeAsset(id: number, reason?: string): boolean {
+    const db = this.getDb();
+
+    const remove = db.transaction(() => {
+      const asset = this.getKnowledgeAsset(id);
+      if (!asset || asset.status === 'published') return false;
+
+      const draft = this.getPendingKnowledgeByAsset(id);
+      if (draft) {
+        // The rejected draft keeps its copy of the content, without the link
+        this.reviewPendingKnowledge(draft.id, 'rejected', { reason });
+      }
+      db.prepare(`DELETE FROM knowledge_assets WHERE id = ?`).run(id);
+      return true;
+    });
+
+    return remove();
+  }
+
+  // ============================================================================
+  // Knowledge Asset Revisions
+  // ============================================================================
+
+  /**
+   * Snapshot the asset's current state as its next revision
+   */
+  private recordAssetRevision(asset: KnowledgeAssetRow, origin: KnowledgeRevisionOrigin): void {
+    const db = this.getDb();
+    const now = new Date();
+
+    db.prepare(`
+      INSERT INTO knowledge_asset_revisions (
+        asset_id, revision, source, author, message,
+        type, name, product_line, tags, title, content, status,
+        created_at, created_at_epoch
+      ) VALUES (
+        ?, (SELECT COALESCE(MAX(revision), 0) + 1 FROM knowledge_asset_revisions WHERE asset_id = ?), ?, ?, ?,
+        ?, ?, ?, ?, ?, ?, ?,
+        ?, ?
+      )
+    `).run(
+      asset.id,
+      asset.id,
+      origin.source,
+      origin.author || null,
+      origin.message || null,
+      asset.type,
+      asset.name,
+      asset.product_line,
+      asset.tags,
+      asset.title,
+      asset.content,
+      asset.status,
+      now.toISOString(),
+      now.getTime()
+    );
+  }
+
+  /**
+   * Revisions of an asset, newest first
+   */
+  getAssetRevisions(assetId: number, limit: number = 50): KnowledgeAssetRevisionRow[] {
+    const db = this.getDb();
+    const stmt = db.prepare(`
+      SELECT * FROM knowledge_asset_revisions
+      WHERE asset_id = ?
+      ORDER BY revision DESC
+      LIMIT ?
+    `);
+    return stmt.all(assetId, limit) as KnowledgeAssetRevisionRow[];
+  }
+
+  getAssetRevision(assetId: number, revision: number): KnowledgeAssetRevisionRow | null {
+    const db = this.getDb();
+    const stmt = db.prepare(`SELECT * FROM knowledge_asset_revisions WHERE asset_id = ? AND revision = ?`);
+    return stmt.get(assetId, revision) as KnowledgeAssetRevisionRow | null;
+  }
+
+  /**
+   * Restore the type, title, tags and content of a revision as a new revision.
+   * The asset is marked unpromoted so the next push writes it to L2 again.
+   */
+  restoreAssetRevision(assetId: number, revision: number, origin: KnowledgeRevisionOrigin): KnowledgeAssetRow | null {
+    const db = this.getDb();
+    const target = this.getAssetRevision(assetId, revision);
+    if (!target) return null;
+
+    const now = new Date();
+    const restore = db.transaction(() => {
+      db.prepare(`
+        UPDATE knowledge_assets SET
+          type = ?, tags = ?, title = ?, content = ?, promoted = 0,
+          updated_at = ?, updated_at_epoch = ?
+        WHERE id = ?
+      `).run(target.type, target.tags, target.title, target.content, now.toISOString(), now.getTime(), assetId);
+
+      const asset = this.getKnowledgeAsset(assetId)!;
+      this.recordAssetRevision(asset, origin);
+      return asset;
+    });
+
+    return restore();
+  }
+
+  // ============================================================================
+  // Pending Knowledge (review queue)
+  // ============================================================================
+
+  /**
+   * Queue a draft; returns null when the observation already has one
+   */
+  createPendingKnowledge(input: PendingKnowledgeInput): PendingKnowledgeRow | null {
+    const db = this.getDb();
+    const now = new Date();
+
+    const result = db.prepare(`
+      INSERT OR IGNORE INTO pending_knowledge (
+        origin, observation_id, asset_id, session_id, project, type, name, product_line,
+        title, content, tags, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      input.origin || 'observation',
+      input.observation_id ?? null,
+      input.asset_id ?? null,
+      input.session_id || null,
+      input.project,
+      input.type,
+      input.name,
+      input.product_line,
+      input.title,
+      input.content,
+      input.tags ? JSON.stringify(input.tags) : null,
+      now.toISOString(),
+      now.getTime()
+    );
+
+    return result.changes > 0 ? this.getPendingKnowledge(result.lastInsertRowid as number) : null;
+  }
+
+  getPendingKnowledge(id: number): PendingKnowledgeRow | null {
+    const db = this.getDb();
+    return db.prepare(`SELECT * FROM pending_knowledge WHERE id = ?`).get(id) as PendingKnowledgeRow | null;
+  }
+
+  /**
+   * Create an unpublished asset and queue it for review, atomically
+   */
+  createQueuedKnowledgeAsset(
+    input: KnowledgeAssetInput,
+    revision: KnowledgeRevisionOrigin,
+    queue: { origin: Exclude<PendingKnowledgeOrigin, 'observation'>; project: string }
+  ): { asset: KnowledgeAssetRow; draft: PendingKnowledgeRow } {
+    const db = this.getDb();
+
+    const create = db.transaction(() => {
+      const asset = this.createKnowledgeAsset(input, revision);
+      const draft = this.createPendingKnowledge({
+        ...input,
+        origin: queue.origin,
+        asset_id: asset.id,
+        project: queue.project,
+      })!;
+      return { asset, draft };
+    });
+
+    return create();
+  }
+
+  /**
+   * Unreviewed draft of an unpublished asset
+   */
+  getPendingKnowledgeByAsset(assetId: number): PendingKnowledgeRow | null {
+    const db = this.getDb();
+    return db
+      .prepare(`SELECT * FROM pending_knowledge WHERE asset_id = ? AND status = 'pending'`)
+      .get(assetId) as PendingKnowledgeRow | null;
+  }
+
+  getPendingKnowledgeByObservation(observationId: number): PendingKnowledgeRow | null {
+    const db = this.getDb();
+    return db
+      .prepare(`SELECT * FROM pending_knowledge WHERE observation_id = ?`)
+      .get(observationId) as PendingKnowledgeRow | null;
+  }
+
+  /**
+   * Unreviewed draft using `name` in a product line
+   */
+  getPendingKnowledgeByName(name: string, productLine: string): PendingKnowledgeRow | null {
+    const db = this.getDb();
+    return db
+      .prepare(`SELECT * FROM pending_knowledge WHERE name = ? AND product_line = ? AND status = 'pending'`)
+      .get(name, productLine) as PendingKnowledgeRow | null;
+  }
+
+  /**
+   * Drafts, newest first. `active` leaves out pending drafts snoozed past `now`.
+   */
+  listPendingKnowledge(filters: {
+    status?: PendingKnowledgeStatus;
+    project?: string;
+    active?: boolean;
+    limit?: number;
+  } = {}): PendingKnowledgeRow[] {
+    const db = this.getDb();
+    const { whereSQL, params } = this.pendingKnowledgeFilter(filters);
+    params.push(filters.limit ?? 50);
+
+    return db.prepare(`
+      SELECT * FROM pending_knowledge
+      ${whereSQL}
+      ORDER BY created_at_epoch DESC
+      LIMIT ?
+    `).all(...params) as PendingKnowledgeRow[];
+  }
+
+  countPendingKnowledge(filters: {
+    status?: PendingKnowledgeStatus;
+    project?: string;
+    active?: boolean;
+  } = {}): number {
+    const db = this.getDb();
+    const { whereSQL, params } = this.pendingKnowledgeFilter(filters);
+    const row = db.prepare(`SELECT COUNT(*) as count FROM pending_knowledge ${whereSQL}`).get(...params) as { count: number };
+    return row.count;
+  }
+
+  private pendingKnowledgeFilter(filters: {
+    status?: PendingKnowledgeStatus;
+    project?: string;
+    active?: boolean;
+  }): { whereSQL: string; params: unknown[] } {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status) {
+      where.push('status = ?');
+      params.push(filters.status);
+    }
+    if (filters.project) {
+      where.push('project = ?');
+      params.push(filters.project);
+    }
+    if (filters.active) {
+      where.push('(snoozed_until_epoch IS NULL OR snoozed_until_epoch <= ?)');
+      params.push(Date.now());
+    }
+
+    return { whereSQL: where.length > 0 ? `WHERE ${where.join(' AND ')}` : '', params };
+  }
+
+  /**
+   * Apply reviewer edits to a pending draft, and to its unpublished asset if it
+   * has one (recorded as a revision); false when it was already reviewed.
+   * Throws when the asset's new name is taken.
+   */
+  updatePendingKnowledge(id: number, edit: PendingKnowledgeEdit): boolean {
+    const db = this.getDb();
+    const now = new Date();
+    const sets: string[] = [];
+    const params: unknown[] = [];
+
+    for (const key of ['type', 'name', 'product_line', 'title', 'content'] as const) {
+      if (edit[key] !== undefined) {
+        sets.push(`${key} = ?`);
+        params.push(edit[key]);
+      }
+    }
+    if (edit.tags !== undefined) {
+      sets.push('tags = ?');
+      params.push(JSON.stringify(edit.tags));
+    }
+
+    const update = db.transaction(() => {
+      const draft = this.getPendingKnowledge(id);
+      if (!draft || draft.status !== 'pending') return false;
+
+      if (draft.asset_id !== null && sets.length > 0) {
+        const before = this.getKnowledgeAsset(draft.asset_id)!;
+        db.prepare(`
+          UPDATE knowledge_assets
+          SET ${sets.join(', ')}, updated_at = ?, updated_at_epoch = ?
+          WHERE id = ?
+        `).run(...params, now.toISOString(), now.getTime(), draft.asset_id);
+
+        const after = this.getKnowledgeAsset(draft.asset_id)!;
+        if (isRevisionChanged(before, after) || before.name !== after.name || before.product_line !== after.product_line) {
+          this.recordAssetRevision(after, { source: 'manual', message: `Edited draft #${id}` });
+        }
+      }
+
+      db.prepare(`
+        UPDATE pending_knowledge
+        SET ${[...sets, 'edited_at = ?', 'edited_at_epoch = ?'].join(', ')}
+        WHERE id = ?
+      `).run(...params, now.toISOString(), now.getTime(), id);
+      return true;
+    });
+
+    return update();
+  }
+
+  /**
+   * Record a review decision on a pending draft; false when it was already reviewed
+   */
+  reviewPendingKnowledge(
+    id: number,
+    status: Exclude<PendingKnowledgeStatus, 'pending'>,
+    options: { assetId?: number; reason?: string } = {}
+  ): boolean {
+    const db = this.getDb();
+    const now = new Date();
+
+    const result = db.prepare(`
+      UPDATE pending_knowledge
+      SET status = ?, asset_id = ?, reject_reason = ?, reviewed_at = ?, reviewed_at_epoch = ?
+      WHERE id = ? AND status = 'pending'
+    `).run(status, options.assetId ?? null, options.reason ?? null, now.toISOString(), now.getTime(), id);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Hide a pending draft from reminders until `until`
+   */
+  snoozePendingKnowledge(id: number, until: Date): boolean {
+    const db = this.getDb();
+    const result = db.prepare(`
+      UPDATE pending_knowledge
+      SET snoozed_until = ?, snoozed_until_epoch = ?
+      WHERE id = ? AND status = 'pending'
+    `).run(until.toISOString(), until.getTime(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Drop unreviewed drafts of observations that were merged into another one
+   */
+  deletePendingKnowledgeForObservations(observationIds: number[]): number {
+    if (observationIds.length === 0) return 0;
+    const db = this.getDb();
+
+    const result = db.prepare(`
+      DELETE FROM pending_knowledge
+      WHERE status = 'pending' AND observation_id IN (${observationIds.map(() => '?').join(', ')})
+    `).run(...observationIds);
+
+    return result.changes;
+  }
+
   // ============================================================================
   // Sync Log
   // ============================================================================
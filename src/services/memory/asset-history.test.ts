@@ -0,0 +1,64 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseStore } from '../database/store.js';
+import { AssetHistoryService } from './asset-history.js';
+
+let dataDir: string;
+let store: DatabaseStore;
+let history: AssetHistoryService;
+
+before(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-history-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  store = new DatabaseStore(join(dataDir, 'test.db'));
+  await store.initialize();
+  history = new AssetHistoryService(store);
+});
+
+after(() => {
+  store.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+const asset = (content: string) => ({
+  type: 'pitfall' as const,
+  name: 'retry-storm',
+  product_line: 'exchange',
+  tags: ['retry'],
+  title: 'Retry storm',
+  content,
+});
+
+test('history diffs each revision against the one before it', () => {
+  const created = store.upsertKnowledgeAsset(asset('Back off on 429'), { source: 'sink', author: 's1' });
+  store.upsertKnowledgeAsset(asset('Back off on 429'), { source: 'sink', author: 's2' });
+  store.upsertKnowledgeAsset(asset('Back off on 429 and 503'), { source: 'pull', author: 'abc123' });
+
+  const result = history.getHistory(created.id)!;
+  assert.deepEqual(
+    result.revisions.map(r => [r.revision, r.source, r.author]),
+    [[2, 'pull', 'abc123'], [1, 'sink', 's1']]
+  );
+  assert.ok(result.revisions[0].diff.includes('-Back off on 429\n+Back off on 429 and 503'));
+  assert.ok(result.revisions[1].diff.startsWith('--- /dev/null\n+++ retry-storm@1'));
+  assert.equal(history.getHistory(created.id, 1)!.revisions[0].diff, result.revisions[0].diff);
+  assert.equal(history.getHistory(9999), null);
+});
+
+test('rollback restores old content as a new revision to push', () => {
+  const id = store.getKnowledgeAssetByName('retry-storm', 'exchange')!.id;
+
+  const restored = history.rollback(id, 1, 'alice');
+  assert.equal(restored.content, 'Back off on 429');
+  assert.equal(restored.promoted, 0);
+
+  const latest = store.getAssetRevisions(id, 1)[0];
+  assert.deepEqual(
+    [latest.revision, latest.source, latest.author, latest.message],
+    [3, 'manual', 'alice', 'Rollback to revision 1']
+  );
+  assert.throws(() => history.rollback(id, 42), /Revision 42 of asset/);
+});
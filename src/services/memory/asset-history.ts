@@ -0,0 +1,103 @@
+/**
+ * Revision history of knowledge assets
+ *
+ * Every create or update of a knowledge asset (sink calls, approved drafts,
+ * L2 pulls) stores a snapshot in `knowledge_asset_revisions`. History shows
+ * each revision as a unified diff against the one before it; rollback copies
+ * an old revision back as a new revision and marks the asset for re-push.
+ */
+
+import type { DatabaseStore } from '../database/store.js';
+import { unifiedDiff } from '../../utils/diff.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  KnowledgeAssetRow,
+  KnowledgeAssetRevisionRow,
+  KnowledgeAssetHistory,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function parseTags(tags: string | null): string[] {
+  if (!tags) return [];
+  try {
+    const parsed: unknown = JSON.parse(tags);
+    return Array.isArray(parsed) ? parsed.filter((t): t is string => typeof t === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The fields a revision records, as text to diff
+ */
+function revisionText(revision: KnowledgeAssetRevisionRow): string {
+  return [
+    `type: ${revision.type}`,
+    `name: ${revision.product_line}/${revision.name}`,
+    `status: ${revision.status}`,
+    `tags: ${parseTags(revision.tags).join(', ')}`,
+    `title: ${revision.title}`,
+    '',
+    revision.content,
+  ].join('\n');
+}
+
+function revisionDiff(previous: KnowledgeAssetRevisionRow | undefined, revision: KnowledgeAssetRevisionRow): string {
+  return unifiedDiff(previous ? revisionText(previous) : '', revisionText(revision), {
+    oldLabel: previous ? `${revision.name}@${previous.revision}` : '/dev/null',
+    newLabel: `${revision.name}@${revision.revision}`,
+  });
+}
+
+// ============================================================================
+// History Service
+// ============================================================================
+
+export class AssetHistoryService {
+  constructor(private store: DatabaseStore) {}
+
+  /**
+   * The latest `limit` revisions of an asset with their diffs, newest first
+   */
+  getHistory(assetId: number, limit: number = DEFAULT_HISTORY_LIMIT): KnowledgeAssetHistory | null {
+    const asset = this.store.getKnowledgeAsset(assetId);
+    if (!asset) return null;
+
+    // One more than shown, to diff the oldest shown revision against
+    const rows = this.store.getAssetRevisions(assetId, limit + 1);
+    return {
+      asset,
+      revisions: rows.slice(0, limit).map((revision, i) => ({
+        ...revision,
+        diff: revisionDiff(rows[i + 1], revision),
+      })),
+    };
+  }
+
+  /**
+   * Restore the content of `revision`. The restore is itself a new revision,
+   * so it can be rolled back in turn.
+   */
+  rollback(assetId: number, revision: number, author?: string): KnowledgeAssetRow {
+    const asset = this.store.restoreAssetRevision(assetId, revision, {
+      source: 'manual',
+      author,
+      message: `Rollback to revision ${revision}`,
+    });
+    if (!asset) {
+      throw new Error(`Revision ${revision} of asset ${assetId} not found`);
+    }
+
+    logger.info('HISTORY', `知识资产已回滚: ${asset.product_line}/${asset.name} → r${revision}`, { assetId });
+    return asset;
+  }
+}
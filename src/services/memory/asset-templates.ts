@@ -0,0 +1,110 @@
+/**
+ * Knowledge asset templates
+ *
+ * The plugin's `templates/<type>.md` files (pitfall, adr, glossary, ...) use a
+ * small Mustache subset:
+ *
+ *   {{name}}                  value (lists are joined with ", ")
+ *   {{#list}}- {{.}}{{/list}}  repeated per item; object items expose their fields
+ *   {{#flag}}...{{/flag}}      rendered once when the value is truthy
+ *   {{^list}}...{{/list}}      rendered when the value is empty or falsy
+ *
+ * Missing or empty values render as EMPTY_VALUE so reviewers see what is left to fill in.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { getPluginRoot } from '../../shared/config.js';
+import type { KnowledgeAssetType } from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateValue[] | TemplateContext;
+
+export interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EMPTY_VALUE = '（待补充）';
+
+// Sections and variables are matched in one pass so inserted values are never re-expanded;
+// a section tag alone on its line takes the line break with it
+const TAG = /\{\{([#^])\s*([\w.-]+)\s*\}\}\n?([\s\S]*?)\{\{\/\s*\2\s*\}\}\n?|\{\{\s*([\w.-]+|\.)\s*\}\}/g;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+function isEmpty(value: TemplateValue): boolean {
+  return value === undefined || value === null || value === false || value === ''
+    || (Array.isArray(value) && value.length === 0);
+}
+
+function lookup(stack: TemplateValue[], key: string): TemplateValue {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const scope = stack[i];
+    if (key === '.') return scope;
+    if (scope && typeof scope === 'object' && !Array.isArray(scope) && key in scope) {
+      return scope[key];
+    }
+  }
+  return undefined;
+}
+
+function stringify(value: TemplateValue): string {
+  if (Array.isArray(value)) return value.map(stringify).filter(Boolean).join(', ');
+  if (value && typeof value === 'object') return '';
+  return value === undefined || value === null || value === false ? '' : String(value);
+}
+
+function renderWith(template: string, stack: TemplateValue[]): string {
+  return template.replace(TAG, (_match, kind?: string, section?: string, inner?: string, variable?: string) => {
+    if (variable) {
+      return stringify(lookup(stack, variable)).trim() || EMPTY_VALUE;
+    }
+
+    const value = lookup(stack, section!);
+    if (kind === '^') {
+      return isEmpty(value) ? renderWith(inner!, stack) : '';
+    }
+    if (isEmpty(value)) return '';
+    if (Array.isArray(value)) {
+      return value.map(item => renderWith(inner!, [...stack, item])).join('');
+    }
+    return renderWith(inner!, [...stack, value]);
+  });
+}
+
+/**
+ * Render a template against `context`. Values are inserted as-is.
+ */
+export function renderAssetTemplate(template: string, context: TemplateContext): string {
+  return renderWith(template, [context]);
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+export function getAssetTemplatePath(type: KnowledgeAssetType): string {
+  return join(getPluginRoot(), 'templates', `${type}.md`);
+}
+
+/**
+ * Template for an asset type, or null when the plugin ships none for it
+ */
+export function loadAssetTemplate(type: KnowledgeAssetType): string | null {
+  const path = getAssetTemplatePath(type);
+  if (!existsSync(path)) return null;
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return null;
+  }
+}
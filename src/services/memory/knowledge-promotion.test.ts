@@ -0,0 +1,191 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { DatabaseStore } from '../database/store.js';
+import { RoutingService } from '../routing.js';
+import { SensitiveFilter } from '../security/sensitive-filter.js';
+import { KnowledgePromotionService, slugify } from './knowledge-promotion.js';
+import type { ObservationInput, ObservationRow } from '../../shared/types.js';
+
+let dataDir: string;
+let store: DatabaseStore;
+let promotion: KnowledgePromotionService;
+
+function observe(input: Partial<ObservationInput> = {}): ObservationRow {
+  return store.createObservation({
+    session_id: 's1',
+    project: '/repo',
+    type: 'bugfix',
+    title: 'Order book drops cancels under load',
+    subtitle: 'Cancels were lost when the queue was full',
+    facts: ['The cancel queue had a fixed size', 'Now it applies back-pressure'],
+    narrative: 'The 撮合引擎 dropped cancel requests once its queue filled up.',
+    concepts: ['backpressure'],
+    files_modified: ['src/book.ts'],
+    should_sink: true,
+    ...input,
+  });
+}
+
+before(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-promotion-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  process.env.CLAUDE_PLUGIN_ROOT = fileURLToPath(new URL('../../../plugins/ai-agent-entrance', import.meta.url));
+
+  store = new DatabaseStore(join(dataDir, 'test.db'));
+  await store.initialize();
+  store.getOrCreateSession('s1', '/repo');
+  promotion = new KnowledgePromotionService(store, new RoutingService(), new SensitiveFilter());
+});
+
+after(() => {
+  store.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Drafting
+// ============================================================================
+
+test('slugify keeps the ASCII words of a title', () => {
+  assert.equal(slugify('Fix N+1 query'), 'fix-n-1-query');
+  assert.equal(slugify('  Café déjà vu! '), 'cafe-deja-vu');
+  assert.equal(slugify('撮合引擎'), '');
+  assert.ok(slugify('word '.repeat(30)).length <= 60);
+});
+
+test('a sinkable observation becomes a templated draft, not an asset', () => {
+  const observation = observe();
+  const draft = promotion.draftFromObservation(observation)!;
+
+  assert.equal(draft.origin, 'observation');
+  assert.equal(draft.observation_id, observation.id);
+  assert.equal(draft.type, 'pitfall');
+  assert.equal(draft.name, 'order-book-drops-cancels-under-load');
+  assert.equal(draft.product_line, 'exchange/core');
+  assert.deepEqual(JSON.parse(draft.tags!), ['backpressure']);
+  assert.ok(draft.content.startsWith('# 踩坑记录: Order book drops cancels under load'));
+  assert.ok(draft.content.includes('- Now it applies back-pressure'));
+
+  assert.ok(!store.getKnowledgeAssetByName(draft.name, draft.product_line));
+  // One draft per observation
+  assert.equal(promotion.draftFromObservation(observation), null);
+});
+
+test('drafts get unique names and skip observations that are not sinkable', () => {
+  const again = promotion.draftFromObservation(observe())!;
+  assert.equal(again.name, 'order-book-drops-cancels-under-load-2');
+
+  assert.equal(promotion.draftFromObservation(observe({ should_sink: false })), null);
+
+  // CJK titles are named after the type and tags
+  const cjk = promotion.draftFromObservation(
+    observe({ type: 'decision', title: '撮合改用二叉堆', concepts: ['heap', '性能'], knowledge_type: undefined })
+  )!;
+  assert.equal(cjk.type, 'adr');
+  assert.equal(cjk.name, 'adr-heap');
+});
+
+test('draftSinkable drafts what is left of a session and redacts secrets', () => {
+  observe({
+    title: 'Rotate the exchange API key',
+    narrative: 'Set api_key=sk_live_0123456789abcdefghij in the env file',
+    knowledge_type: 'best-practice',
+  });
+
+  const drafts = promotion.draftSinkable('/repo', 's1');
+  assert.deepEqual(drafts.map(d => [d.type, d.name]), [['best-practice', 'rotate-the-exchange-api-key']]);
+  assert.ok(!drafts[0].content.includes('sk_live_0123456789abcdefghij'));
+  assert.deepEqual(promotion.draftSinkable('/repo', 's1'), []);
+});
+
+test('approving a draft publishes the asset with the reviewer in its history', () => {
+  const draft = promotion.draftFromObservation(observe({ title: 'Bound the cancel queue' }))!;
+
+  const { draft: approved, asset } = promotion.approve(draft.id, 'alice');
+  assert.equal(approved.status, 'approved');
+  assert.equal(approved.asset_id, asset.id);
+  assert.equal(asset.status, 'published');
+  assert.equal(asset.name, 'bound-the-cancel-queue');
+  assert.equal(asset.content, draft.content);
+
+  const [revision] = store.getAssetRevisions(asset.id);
+  assert.deepEqual([revision.source, revision.author, revision.message], ['manual', 'alice', `Approved draft #${draft.id}`]);
+  assert.throws(() => promotion.approve(draft.id), /already approved/);
+});
+
+// ============================================================================
+// Review queue
+// ============================================================================
+
+test('an edited draft is approved with the reviewer changes', () => {
+  const draft = promotion.draftFromObservation(observe({ title: 'Retry cancels once' }))!;
+
+  const edited = promotion.edit(draft.id, {
+    name: 'cancel-retry',
+    title: 'Retry a cancel once',
+    content: 'Retry once; password=hunter2hunter2 is not needed',
+    tags: ['cancel'],
+  });
+  assert.equal(edited.status, 'pending');
+  assert.equal(edited.name, 'cancel-retry');
+  assert.ok(edited.edited_at);
+  assert.ok(!edited.content.includes('hunter2hunter2'));
+
+  const { asset } = promotion.approve(draft.id);
+  assert.deepEqual([asset.name, asset.title, asset.content], ['cancel-retry', 'Retry a cancel once', edited.content]);
+  assert.deepEqual(JSON.parse(asset.tags!), ['cancel']);
+});
+
+test('a rejected draft keeps its reason and never becomes an asset', () => {
+  const draft = promotion.draftFromObservation(observe({ title: 'Obvious fix' }))!;
+
+  const rejected = promotion.reject(draft.id, '  too specific  ');
+  assert.deepEqual([rejected.status, rejected.reject_reason], ['rejected', 'too specific']);
+  assert.ok(!store.getKnowledgeAssetByName(draft.name, draft.product_line));
+  assert.throws(() => promotion.edit(draft.id, { title: 'x' }), /already rejected/);
+  assert.throws(() => promotion.reject(9999), /Draft 9999 not found/);
+});
+
+test('a snoozed draft stays pending but leaves the active list', () => {
+  const draft = promotion.draftFromObservation(observe({ title: 'Snoozed advice', project: '/other' }))!;
+  assert.deepEqual(promotion.listActive('/other').map(d => d.id), [draft.id]);
+
+  const snoozed = promotion.snooze(draft.id, 2);
+  assert.equal(snoozed.status, 'pending');
+  assert.ok(snoozed.snoozed_until_epoch! > Date.now() + 3600_000);
+  assert.deepEqual(promotion.listActive('/other'), []);
+  assert.equal(store.countPendingKnowledge({ status: 'pending', project: '/other' }), 1);
+});
+
+test('summary and sink assets are reviewed through the same queue', () => {
+  const summary = promotion.sinkKnowledge(
+    { session_id: 's1', project: '/repo', type: 'adr', title: 'Use a binary heap', content: 'For the order book' },
+    'draft'
+  );
+  const sink = promotion.sinkKnowledge(
+    { session_id: 's1', project: '/repo', type: 'pitfall', title: 'Clock skew', content: 'Use monotonic time' },
+    'pending'
+  );
+  assert.deepEqual([summary.status, sink.status], ['draft', 'pending']);
+
+  const summaryDraft = store.getPendingKnowledgeByAsset(summary.id)!;
+  const sinkDraft = store.getPendingKnowledgeByAsset(sink.id)!;
+  assert.deepEqual([summaryDraft.origin, sinkDraft.origin], ['summary', 'sink']);
+
+  // Edits reach the unpublished asset
+  promotion.edit(summaryDraft.id, { content: 'For the order book, keyed by price' });
+  assert.equal(store.getKnowledgeAsset(summary.id)!.content, 'For the order book, keyed by price');
+
+  const { draft, asset } = promotion.approve(summaryDraft.id, 'bob');
+  assert.deepEqual([draft.status, asset.id, asset.status], ['approved', summary.id, 'published']);
+  const [revision] = store.getAssetRevisions(summary.id);
+  assert.deepEqual([revision.source, revision.author], ['manual', 'bob']);
+
+  const rejected = promotion.reject(sinkDraft.id, 'duplicate');
+  assert.deepEqual([rejected.status, rejected.reject_reason], ['rejected', 'duplicate']);
+  assert.ok(!store.getKnowledgeAsset(sink.id));
+});
@@ -0,0 +1,443 @@
+/**
+ * Promotion of sinkable observations to knowledge assets
+ *
+ * The compressor flags observations worth keeping (`should_sink`) and suggests
+ * a `knowledge_type`. Each one becomes a draft in `pending_knowledge`: a slug
+ * name, the product line detected by routing and content rendered from the
+ * type's template in `templates/`. Nothing reaches `knowledge_assets` until a
+ * draft is approved.
+ *
+ * Knowledge from session summaries and explicit sink requests is written to
+ * `knowledge_assets` directly, as `draft` / `pending` assets that stay out of
+ * search, context injection and L2. They are queued in `pending_knowledge`
+ * as well, so one queue lists, edits, approves (publishes) and rejects
+ * (deletes) every kind of draft.
+ */
+
+import { basename, isAbsolute } from 'path';
+import type { DatabaseStore } from '../database/store.js';
+import type { RoutingService } from '../routing.js';
+import type { SensitiveFilter } from '../security/sensitive-filter.js';
+import { HEURISTIC_CONCEPT } from '../ai/heuristic-extractor.js';
+import { loadAssetTemplate, renderAssetTemplate, EMPTY_VALUE, type TemplateContext } from './asset-templates.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  ObservationRow,
+  ObservationType,
+  KnowledgeAssetType,
+  KnowledgeAssetRow,
+  KnowledgeAssetStatus,
+  KnowledgeInput,
+  PendingKnowledgeRow,
+  PendingKnowledgeEdit,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const AUTHOR = 'ai-agent-entrance';
+const DEFAULT_SNOOZE_HOURS = 24;
+const MAX_SLUG_LENGTH = 60;
+
+// Asset type for observations the compressor gave no knowledge_type
+const TYPE_BY_OBSERVATION: Record<ObservationType, KnowledgeAssetType> = {
+  decision: 'adr',
+  bugfix: 'pitfall',
+  pitfall: 'pitfall',
+  discovery: 'discovery',
+  feature: 'best-practice',
+  refactor: 'best-practice',
+  change: 'discovery',
+};
+
+// Code fence language of the best-practice example, from the modified files
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  py: 'python', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', rb: 'ruby',
+  sh: 'bash', sql: 'sql', yaml: 'yaml', yml: 'yaml', json: 'json',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Kebab-case name from the ASCII words of a title ("Fix N+1 query" → "fix-n-1-query")
+ */
+export function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')  // accents split off by NFKD ("déjà" → "deja")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug.length > MAX_SLUG_LENGTH ? slug.slice(0, MAX_SLUG_LENGTH).replace(/-[^-]*$/, '') : slug;
+}
+
+const hasHan = (text: string) => /\p{Script=Han}/u.test(text);
+
+/**
+ * Name for a new asset: the slug of its title, else of its ASCII tags prefixed
+ * with the type (CJK titles have no slug), else "<type>-<fallback>"
+ */
+function baseName(title: string, tags: string[], type: KnowledgeAssetType, fallback: string | number): string {
+  const fromTitle = hasHan(title) ? '' : slugify(title);
+  if (fromTitle) return fromTitle;
+
+  const fromTags = slugify(tags.filter(t => !hasHan(t)).slice(0, 3).join(' '));
+  return fromTags ? `${type}-${fromTags}` : `${type}-${fallback}`;
+}
+
+function assetTypeOf(observation: ObservationRow): KnowledgeAssetType {
+  return observation.knowledge_type || TYPE_BY_OBSERVATION[observation.type] || 'discovery';
+}
+
+function codeLanguage(files: string[]): string {
+  for (const file of files) {
+    const language = LANGUAGE_BY_EXTENSION[file.split('.').pop()?.toLowerCase() || ''];
+    if (language) return language;
+  }
+  return '';
+}
+
+/**
+ * Template variables for an observation; every template picks the fields it uses
+ */
+function templateContext(observation: ObservationRow, productLine: string, concepts: string[]): TemplateContext {
+  const facts = parseList(observation.facts);
+  const files = [...new Set([...parseList(observation.files_modified), ...parseList(observation.files_read)])];
+  const narrative = observation.narrative || '';
+  const summary = observation.subtitle || '';
+  const factList = facts.map(f => `- ${f}`).join('\n');
+  const created = new Date(observation.created_at_epoch);
+
+  return {
+    title: observation.title,
+    date: created.toISOString().slice(0, 10),
+    product_line: productLine,
+    keywords: concepts,
+    project_name: isAbsolute(observation.project) ? basename(observation.project) : observation.project,
+    timestamp: new Date().toISOString(),
+    author: AUTHOR,
+    summary,
+    details: narrative,
+    facts,
+    files,
+
+    // pitfall
+    symptom: summary || observation.title,
+    root_cause: narrative,
+    solution: factList,
+    prevention: '',
+
+    // adr
+    status: 'proposed',
+    context: narrative,
+    decision: summary || observation.title,
+    options: [],
+    chosen_option: summary || observation.title,
+    rationale: factList,
+    consequences: '',
+
+    // glossary
+    term: observation.title,
+    definition: summary || narrative,
+    example: factList,
+    related_terms: concepts,
+
+    // best-practice / pattern
+    scenario: narrative,
+    recommendation: factList || summary,
+    language: codeLanguage(files),
+    code_example: '',
+    common_mistakes: '',
+    references: files,
+  };
+}
+
+/**
+ * Plain Markdown for asset types without a template (skill, reference)
+ */
+function fallbackContent(context: TemplateContext): string {
+  const facts = (context.facts as string[]).map(f => `- ${f}`).join('\n');
+  return [
+    `# ${context.title}`,
+    '',
+    `**产品线**: ${context.product_line}`,
+    '',
+    context.summary || context.details || EMPTY_VALUE,
+    facts ? `\n${facts}` : '',
+    '',
+    `> **来源项目**: ${context.project_name}`,
+  ].join('\n');
+}
+
+// ============================================================================
+// Promotion Service
+// ============================================================================
+
+export class KnowledgePromotionService {
+  constructor(
+    private store: DatabaseStore,
+    private routing: RoutingService,
+    private sensitiveFilter: SensitiveFilter
+  ) {}
+
+  /**
+   * Queue a draft for one observation; null when it is not sinkable, merged
+   * away or already has a draft
+   */
+  draftFromObservation(observation: ObservationRow): PendingKnowledgeRow | null {
+    if (!observation.should_sink || observation.merged_into !== null) return null;
+    if (this.store.getPendingKnowledgeByObservation(observation.id)) return null;
+
+    const concepts = parseList(observation.concepts).filter(c => c !== HEURISTIC_CONCEPT);
+    const type = assetTypeOf(observation);
+    const productLine = this.detectProductLine(
+      [observation.title, observation.subtitle, observation.narrative, ...concepts],
+      observation.project
+    );
+
+    const context = templateContext(observation, productLine, concepts);
+    const template = loadAssetTemplate(type);
+    const content = template ? renderAssetTemplate(template, context) : fallbackContent(context);
+
+    return this.store.createPendingKnowledge({
+      observation_id: observation.id,
+      session_id: observation.session_id,
+      project: observation.project,
+      type,
+      name: this.uniqueName(baseName(observation.title, concepts, type, observation.id), productLine),
+      product_line: productLine,
+      title: this.sensitiveFilter.sanitize(observation.title),
+      content: this.sensitiveFilter.sanitize(content),
+      tags: concepts,
+    });
+  }
+
+  /**
+   * Draft every sinkable observation of a project (optionally one session) that has none yet
+   */
+  draftSinkable(project: string, sessionId?: string): PendingKnowledgeRow[] {
+    const drafts: PendingKnowledgeRow[] = [];
+    for (const observation of this.store.getSinkableObservations(project)) {
+      if (sessionId && observation.session_id !== sessionId) continue;
+      try {
+        const draft = this.draftFromObservation(observation);
+        if (draft) drafts.push(draft);
+      } catch (error) {
+        logger.warn('PROMOTE', 'Failed to draft knowledge asset', {
+          observationId: observation.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (drafts.length > 0) {
+      logger.info('PROMOTE', `${drafts.length} 条知识草稿待审核`, { project, sessionId });
+    }
+    return drafts;
+  }
+
+  /**
+   * Upsert a pending draft into knowledge_assets, or publish the asset it was queued for
+   */
+  approve(id: number, author?: string): { draft: PendingKnowledgeRow; asset: KnowledgeAssetRow } {
+    const draft = this.requirePending(id);
+    if (draft.asset_id !== null) {
+      const asset = this.approveAsset(draft.asset_id, author);
+      return { draft: this.store.getPendingKnowledge(id)!, asset };
+    }
+
+    const asset = this.store.upsertKnowledgeAsset({
+      type: draft.type,
+      name: draft.name,
+      product_line: draft.product_line,
+      tags: parseList(draft.tags),
+      title: this.sensitiveFilter.sanitize(draft.title),
+      content: this.sensitiveFilter.sanitize(draft.content),
+      source_project: draft.project,
+      session_id: draft.session_id || undefined,
+      status: 'published',
+    }, { source: 'manual', author, message: `Approved draft #${id}` });
+    this.store.reviewPendingKnowledge(id, 'approved', { assetId: asset.id });
+
+    logger.info('PROMOTE', `知识资产已沉淀: ${asset.product_line}/${asset.name}`, { draftId: id, assetId: asset.id });
+    return { draft: this.store.getPendingKnowledge(id)!, asset };
+  }
+
+  /**
+   * Reject a pending draft; the unpublished asset it was queued for is deleted
+   */
+  reject(id: number, reason?: string): PendingKnowledgeRow {
+    const draft = this.requirePending(id);
+    if (draft.asset_id !== null) {
+      this.rejectAsset(draft.asset_id, reason);
+    } else {
+      this.store.reviewPendingKnowledge(id, 'rejected', { reason: reason?.trim() || undefined });
+    }
+    return this.store.getPendingKnowledge(id)!;
+  }
+
+  /**
+   * Change a pending draft before approval (and its unpublished asset, if any);
+   * title and content are sanitized again
+   */
+  edit(id: number, changes: PendingKnowledgeEdit): PendingKnowledgeRow {
+    this.requirePending(id);
+    this.store.updatePendingKnowledge(id, {
+      ...changes,
+      title: changes.title !== undefined ? this.sensitiveFilter.sanitize(changes.title) : undefined,
+      content: changes.content !== undefined ? this.sensitiveFilter.sanitize(changes.content) : undefined,
+    });
+    return this.store.getPendingKnowledge(id)!;
+  }
+
+  /**
+   * Leave a pending draft out of reminders for `hours`
+   */
+  snooze(id: number, hours: number = DEFAULT_SNOOZE_HOURS): PendingKnowledgeRow {
+    this.requirePending(id);
+    this.store.snoozePendingKnowledge(id, new Date(Date.now() + hours * 3600_000));
+    return this.store.getPendingKnowledge(id)!;
+  }
+
+  /**
+   * Pending drafts of a project that are not snoozed, for bulk skip / clear
+   */
+  listActive(project: string): PendingKnowledgeRow[] {
+    return this.store.listPendingKnowledge({ status: 'pending', project, active: true, limit: 500 });
+  }
+
+  private requirePending(id: number): PendingKnowledgeRow {
+    const draft = this.store.getPendingKnowledge(id);
+    if (!draft) {
+      throw new Error(`Draft ${id} not found`);
+    }
+    if (draft.status !== 'pending') {
+      throw new Error(`Draft ${id} is already ${draft.status}`);
+    }
+    return draft;
+  }
+
+  // ============================================================================
+  // Direct Sinking
+  // ============================================================================
+
+  /**
+   * Store knowledge from a session summary or sink request as an unpublished
+   * asset. It always gets a new name, so it never overwrites a published asset.
+   */
+  sinkKnowledge(input: KnowledgeInput, status: Exclude<KnowledgeAssetStatus, 'published'>): KnowledgeAssetRow {
+    const tags = input.tags || [];
+    const today = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    const productLine = this.detectProductLine([input.title, input.content, ...tags], input.project);
+
+    const { asset } = this.store.createQueuedKnowledgeAsset({
+      type: input.type,
+      name: this.uniqueName(baseName(input.title, tags, input.type, today), productLine),
+      product_line: productLine,
+      tags,
+      title: this.sensitiveFilter.sanitize(input.title),
+      content: this.sensitiveFilter.sanitize(input.content),
+      source_project: input.project,
+      session_id: input.session_id,
+      status,
+    }, { source: 'sink', author: input.session_id }, {
+      origin: status === 'draft' ? 'summary' : 'sink',
+      project: input.project,
+    });
+    return asset;
+  }
+
+  /**
+   * Publish a draft / pending asset so it is searched, injected and pushed to L2
+   */
+  private approveAsset(id: number, author?: string): KnowledgeAssetRow {
+    this.requireUnpublished(id);
+    const asset = this.store.setKnowledgeAssetStatus(id, 'published', { source: 'manual', author, message: 'Approved' })!;
+
+    logger.info('PROMOTE', `知识资产已发布: ${asset.product_line}/${asset.name}`, { assetId: id });
+    return asset;
+  }
+
+  /**
+   * Discard a draft / pending asset; it was never published, so nothing else refers to it
+   */
+  private rejectAsset(id: number, reason?: string): KnowledgeAssetRow {
+    const asset = this.requireUnpublished(id);
+    this.store.deleteUnpublishedKnowledgeAsset(id, reason?.trim() || undefined);
+
+    logger.info('PROMOTE', `知识资产已拒绝: ${asset.product_line}/${asset.name}`, { assetId: id });
+    return asset;
+  }
+
+  private requireUnpublished(id: number): KnowledgeAssetRow {
+    const asset = this.store.getKnowledgeAsset(id);
+    if (!asset) {
+      throw new Error(`Asset ${id} not found`);
+    }
+    if (asset.status === 'published') {
+      throw new Error(`Asset ${id} is already published`);
+    }
+    return asset;
+  }
+
+  /**
+   * Replace the "legacy-<id>" names given to rows of the v1 knowledge table
+   * with slugs; unpublished ones also get their product line detected
+   */
+  renameLegacyAssets(): number {
+    let renamed = 0;
+    for (const asset of this.store.getLegacyKnowledgeAssets()) {
+      const tags = parseList(asset.tags);
+      const productLine = asset.product_line === 'general' && !asset.promoted
+        ? this.detectProductLine([asset.title, asset.content, ...tags], asset.source_project || undefined)
+        : asset.product_line;
+      const name = this.uniqueName(baseName(asset.title, tags, asset.type, asset.id), productLine);
+
+      if (this.store.renameKnowledgeAsset(asset.id, name, productLine, { source: 'manual', message: 'Renamed legacy asset' })) {
+        renamed++;
+      }
+    }
+
+    if (renamed > 0) {
+      logger.info('PROMOTE', `Renamed ${renamed} legacy knowledge assets`);
+    }
+    return renamed;
+  }
+
+  // ============================================================================
+  // Naming
+  // ============================================================================
+
+  private detectProductLine(texts: (string | null | undefined)[], project?: string): string {
+    const cwd = project && isAbsolute(project) ? project : undefined;
+    return this.routing.detectProductLine(texts.filter(Boolean).join('\n'), cwd)?.product_line || 'general';
+  }
+
+  /**
+   * `base`, or `base-2`, `base-3`... when an asset or an unreviewed draft already uses it
+   */
+  private uniqueName(base: string, productLine: string): string {
+    const taken = (name: string) =>
+      !!this.store.getKnowledgeAssetByName(name, productLine) || !!this.store.getPendingKnowledgeByName(name, productLine);
+
+    let name = base;
+    for (let n = 2; taken(name); n++) {
+      name = `${base}-${n}`;
+    }
+    return name;
+  }
+}
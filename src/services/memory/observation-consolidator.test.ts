@@ -0,0 +1,117 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseStore } from '../database/store.js';
+import { ObservationConsolidator, titleTokens } from './observation-consolidator.js';
+import { HEURISTIC_CONCEPT } from '../ai/heuristic-extractor.js';
+import type { ObservationInput } from '../../shared/types.js';
+
+let dataDir: string;
+let store: DatabaseStore;
+let consolidator: ObservationConsolidator;
+let sessions = 0;
+
+/**
+ * A new session with the given observations, oldest first
+ */
+function session(observations: Omit<ObservationInput, 'session_id' | 'project'>[]): string {
+  const sessionId = `s${++sessions}`;
+  store.getOrCreateSession(sessionId, '/repo');
+  for (const observation of observations) {
+    store.createObservation({ session_id: sessionId, project: '/repo', ...observation });
+  }
+  return sessionId;
+}
+
+function edit(title: string, facts: string[], extra: Partial<ObservationInput> = {}) {
+  return {
+    type: 'change' as const,
+    title,
+    facts,
+    concepts: ['retry'],
+    files_modified: ['src/client.ts'],
+    tool_name: 'Edit',
+    discovery_tokens: 100,
+    ...extra,
+  };
+}
+
+before(async () => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-consolidate-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  store = new DatabaseStore(join(dataDir, 'test.db'));
+  await store.initialize();
+  consolidator = new ObservationConsolidator(store);
+});
+
+after(() => {
+  store.close();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('titleTokens splits words and CJK bigrams', () => {
+  assert.deepEqual([...titleTokens('Fix retry-loop in 撮合引擎')], ['fix', 'retry', 'loop', 'in', '撮合', '合引', '引擎']);
+});
+
+test('edits of the same file are merged into one observation with combined facts', () => {
+  const sessionId = session([
+    edit('Add retry to client', ['Retries on 503'], { prompt_number: 2 }),
+    { type: 'discovery', title: 'Read the order book docs', files_read: ['docs/book.md'], concepts: ['order-book'] },
+    edit('Tune client retry', ['Retries on 503', 'Backoff doubles'], { prompt_number: 3, should_sink: true }),
+    edit('Cap retries in client', ['Max 3 retries'], { prompt_number: 4 }),
+  ]);
+  const sources = store.getSessionObservations(sessionId).filter(o => o.tool_name === 'Edit').map(o => o.id);
+
+  const result = consolidator.consolidateSession(sessionId);
+  assert.equal(result.merged, 3);
+  assert.equal(result.remaining, 2);
+  assert.equal(result.consolidated.length, 1);
+  assert.deepEqual(result.consolidated[0].merged_from, sources);
+
+  const listed = store.getSessionObservations(sessionId);
+  assert.deepEqual(listed.map(o => o.title), ['Read the order book docs', 'Tune client retry']);
+
+  const merged = store.getObservation(result.consolidated[0].id)!;
+  assert.deepEqual(JSON.parse(merged.facts!), ['Retries on 503', 'Backoff doubles', 'Max 3 retries']);
+  assert.deepEqual(JSON.parse(merged.files_modified!), ['src/client.ts']);
+  assert.deepEqual(JSON.parse(merged.merged_from!), sources);
+  assert.equal(merged.prompt_number, 2);
+  assert.equal(merged.discovery_tokens, 300);
+  assert.equal(merged.should_sink, 1);
+  for (const id of sources) {
+    assert.equal(store.getObservation(id)!.merged_into, merged.id);
+  }
+});
+
+test('a later pass absorbs new observations and keeps the provenance chain', () => {
+  const sessionId = session([edit('Add retry to client', ['Retries on 503']), edit('Tune client retry', ['Backoff'])]);
+  const first = consolidator.consolidateSession(sessionId).consolidated[0];
+
+  // Nothing new: nothing to do
+  assert.deepEqual(consolidator.consolidateSession(sessionId).consolidated, []);
+
+  store.createObservation({ session_id: sessionId, project: '/repo', ...edit('Log client retries', ['Logs each retry']) });
+  const second = consolidator.consolidateSession(sessionId).consolidated[0];
+  assert.equal(second.merged_from[0], first.id);
+
+  const provenance = consolidator.getProvenance(second.id)!;
+  assert.deepEqual(provenance.merged_from.map(p => p.observation.id), second.merged_from);
+  assert.deepEqual(provenance.merged_from[0].merged_from.map(p => p.observation.id), first.merged_from);
+  assert.equal(consolidator.getProvenance(9999), null);
+});
+
+test('a model-written observation represents heuristic ones it is merged with', () => {
+  const sessionId = session([
+    edit('Edited src/client.ts', [], { concepts: [HEURISTIC_CONCEPT, 'retry'] }),
+    edit('Add jittered backoff to the client', ['Jitter avoids retry storms'], { type: 'feature' }),
+    edit('Edited src/client.ts again', [], { concepts: [HEURISTIC_CONCEPT, 'retry'] }),
+  ]);
+
+  const [merged] = consolidator.consolidateSession(sessionId).consolidated;
+  const row = store.getObservation(merged.id)!;
+  assert.equal(row.title, 'Add jittered backoff to the client');
+  assert.equal(row.type, 'feature');
+  assert.deepEqual(JSON.parse(row.concepts!), ['retry']);
+});
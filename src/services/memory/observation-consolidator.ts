@@ -0,0 +1,253 @@
+/**
+ * Consolidation of a session's observations
+ *
+ * Editing the same file ten times yields ten near-identical observations that
+ * crowd out everything else in context injection and summaries. Observations
+ * of one session are clustered by overlapping `files_modified`, `concepts` and
+ * title similarity; each cluster becomes one observation with the combined
+ * facts, and the originals are kept with `merged_into` pointing at it
+ * (the new row lists them in `merged_from`).
+ */
+
+import type { DatabaseStore } from '../database/store.js';
+import { HEURISTIC_CONCEPT } from '../ai/heuristic-extractor.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  ObservationRow,
+  ObservationInput,
+  ObservationType,
+  ConsolidationResult,
+  ObservationProvenance,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Weights of the similarity signals; a pair at or above the threshold is merged
+const FILES_WEIGHT = 0.5;
+const CONCEPTS_WEIGHT = 0.25;
+const TITLE_WEIGHT = 0.25;
+const MERGE_THRESHOLD = 0.5;
+
+// Same type and nearly the same title is enough on its own
+const TITLE_MATCH_THRESHOLD = 0.7;
+
+const MAX_FACTS = 12;
+const MAX_NARRATIVE_CHARS = 1500;
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+interface ParsedObservation {
+  row: ObservationRow;
+  facts: string[];
+  concepts: string[];
+  files_read: string[];
+  files_modified: string[];
+  titleTokens: Set<string>;
+}
+
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Words of a title; CJK runs become character bigrams since they have no spaces
+ */
+export function titleTokens(title: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const part of title.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!part) continue;
+    if (/\p{Script=Han}/u.test(part) && part.length > 1) {
+      for (let i = 0; i < part.length - 1; i++) tokens.add(part.slice(i, i + 2));
+    } else {
+      tokens.add(part);
+    }
+  }
+  return tokens;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function parse(row: ObservationRow): ParsedObservation {
+  return {
+    row,
+    facts: parseList(row.facts),
+    concepts: parseList(row.concepts),
+    files_read: parseList(row.files_read),
+    files_modified: parseList(row.files_modified),
+    titleTokens: titleTokens(row.title),
+  };
+}
+
+function isHeuristic(o: ParsedObservation): boolean {
+  return o.concepts.includes(HEURISTIC_CONCEPT);
+}
+
+/**
+ * Whether two observations describe the same work: weighted overlap of
+ * modified files, concepts and title words, or the same type and title
+ */
+function isSimilar(a: ParsedObservation, b: ParsedObservation): boolean {
+  // The heuristic marker is shared by every rule-based observation and says nothing about content
+  const concepts = (o: ParsedObservation) => new Set(o.concepts.filter(c => c !== HEURISTIC_CONCEPT));
+  const titles = jaccard(a.titleTokens, b.titleTokens);
+
+  const score = FILES_WEIGHT * jaccard(new Set(a.files_modified), new Set(b.files_modified))
+    + CONCEPTS_WEIGHT * jaccard(concepts(a), concepts(b))
+    + TITLE_WEIGHT * titles;
+  return score >= MERGE_THRESHOLD || (a.row.type === b.row.type && titles >= TITLE_MATCH_THRESHOLD);
+}
+
+/**
+ * Groups of similar observations (single-link: a pair above the threshold joins their groups)
+ */
+function cluster(observations: ParsedObservation[]): ParsedObservation[][] {
+  const parent = observations.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < observations.length; i++) {
+    for (let j = i + 1; j < observations.length; j++) {
+      if (isSimilar(observations[i], observations[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, ParsedObservation[]>();
+  observations.forEach((o, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), o]);
+  });
+  return [...groups.values()];
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+function unique(values: string[], key: (v: string) => string = v => v): string[] {
+  const seen = new Set<string>();
+  return values.filter(v => {
+    const k = key(v);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * One observation combining a cluster (sorted oldest first). Title, subtitle
+ * and template come from the most informative member: model-written over
+ * heuristic, then most facts, then the latest.
+ */
+function mergeCluster(members: ParsedObservation[]): ObservationInput {
+  const modelWritten = members.filter(o => !isHeuristic(o));
+  const candidates = modelWritten.length > 0 ? modelWritten : members;
+  const representative = candidates.reduce((best, o) => (o.facts.length >= best.facts.length ? o : best));
+
+  // Most frequent type among the candidates; the representative's on a tie
+  const counts = new Map<ObservationType, number>();
+  for (const o of candidates) counts.set(o.row.type, (counts.get(o.row.type) || 0) + 1);
+  let type = representative.row.type;
+  for (const [t, n] of counts) {
+    if (n > (counts.get(type) || 0)) type = t;
+  }
+
+  const narrative = unique(members.map(o => o.row.narrative || ''), normalize).join('\n');
+  const promptNumbers = members.map(o => o.row.prompt_number).filter((n): n is number => n != null);
+
+  return {
+    session_id: representative.row.session_id,
+    project: representative.row.project,
+    type,
+    title: representative.row.title,
+    subtitle: representative.row.subtitle || undefined,
+    facts: unique(members.flatMap(o => o.facts), normalize).slice(0, MAX_FACTS),
+    narrative: narrative.length > MAX_NARRATIVE_CHARS ? `${narrative.slice(0, MAX_NARRATIVE_CHARS)}...` : narrative,
+    // Still marked heuristic only if no model-written observation went into it
+    concepts: unique(members.flatMap(o => o.concepts))
+      .filter(c => c !== HEURISTIC_CONCEPT || modelWritten.length === 0),
+    files_read: unique(members.flatMap(o => o.files_read)),
+    files_modified: unique(members.flatMap(o => o.files_modified)),
+    tool_name: representative.row.tool_name || undefined,
+    prompt_number: promptNumbers.length > 0 ? Math.min(...promptNumbers) : undefined,
+    discovery_tokens: members.reduce((sum, o) => sum + (o.row.discovery_tokens || 0), 0),
+    should_sink: members.some(o => !!o.row.should_sink),
+    template_version: representative.row.template_version || undefined,
+    knowledge_type: representative.row.knowledge_type
+      || members.find(o => o.row.knowledge_type)?.row.knowledge_type
+      || undefined,
+  };
+}
+
+// ============================================================================
+// Consolidator
+// ============================================================================
+
+export class ObservationConsolidator {
+  constructor(private store: DatabaseStore) {}
+
+  /**
+   * Merge the session's similar observations. Safe to run repeatedly: merged
+   * rows are skipped, and earlier consolidations can absorb new observations.
+   */
+  consolidateSession(sessionId: string): ConsolidationResult {
+    const observations = this.store.getSessionObservations(sessionId).map(parse);
+    const result: ConsolidationResult = { session_id: sessionId, consolidated: [], merged: 0, remaining: observations.length };
+
+    for (const members of cluster(observations)) {
+      if (members.length < 2) continue;
+
+      members.sort((a, b) => a.row.created_at_epoch - b.row.created_at_epoch);
+      const ids = members.map(o => o.row.id);
+      const latest = members[members.length - 1].row;
+
+      try {
+        const merged = this.store.createMergedObservation(mergeCluster(members), ids, new Date(latest.created_at_epoch));
+        result.consolidated.push({ id: merged.id, title: merged.title, merged_from: ids });
+        result.merged += ids.length;
+        result.remaining -= ids.length - 1;
+      } catch (error) {
+        // Another pass got there first; the next one picks up what's left
+        logger.warn('CONSOLIDATE', 'Failed to merge observations', { sessionId, ids, error: (error as Error).message });
+      }
+    }
+
+    if (result.consolidated.length > 0) {
+      logger.info('CONSOLIDATE', `Merged ${result.merged} observations into ${result.consolidated.length}`, { sessionId });
+    }
+    return result;
+  }
+
+  /**
+   * An observation with the rows it consolidates, recursively
+   */
+  getProvenance(id: number): ObservationProvenance | null {
+    const observation = this.store.getObservation(id);
+    if (!observation) return null;
+
+    const sources = this.store.getMergedObservations(id);
+    return {
+      observation,
+      merged_from: sources
+        .map(source => this.getProvenance(source.id))
+        .filter((p): p is ObservationProvenance => p !== null),
+    };
+  }
+}
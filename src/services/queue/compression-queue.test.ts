@@ -0,0 +1,245 @@
+import { test, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { CompressionQueue, dedupeReads } from './compression-queue.js';
+import { DatabaseStore } from '../database/store.js';
+import { getSettingsPath } from '../../shared/config.js';
+import type { CompressorService } from '../ai/compressor.js';
+import type { CompressionResult, PendingCompressionRow } from '../../shared/types.js';
+
+let dataDir: string;
+let store: DatabaseStore;
+let databases = 0;
+
+/**
+ * Compressor double answering every call with a stored observation titled by its tool
+ */
+function fakeCompressor(overrides: Partial<CompressorService> = {}): CompressorService & { calls: string[][] } {
+  const calls: string[][] = [];
+  const result = (tool_name: string): CompressionResult => ({
+    type: 'discovery',
+    title: `Used ${tool_name}`,
+    facts: [],
+    narrative: '',
+    concepts: [],
+    files_modified: [],
+    should_store: true,
+  });
+
+  return {
+    calls,
+    isEnabled: () => true,
+    getDisabledReason: () => null,
+    isOverBudget: () => false,
+    compressToolCall: async (tool_name: string) => {
+      calls.push([tool_name]);
+      return result(tool_name);
+    },
+    compressToolCalls: async (jobs: { tool_name: string }[]) => {
+      calls.push(jobs.map(job => job.tool_name));
+      return jobs.map(job => result(job.tool_name));
+    },
+    ...overrides,
+  } as unknown as CompressorService & { calls: string[][] };
+}
+
+function enqueueRead(queue: CompressionQueue, filePath: string, output: string): number {
+  return queue.enqueue({
+    session_id: 's1',
+    project: '/repo',
+    tool_name: 'Read',
+    tool_input: { file_path: filePath },
+    tool_output: output,
+    prompt_number: 1,
+  });
+}
+
+function writeSettings(maxAttempts: number = 5): void {
+  writeFileSync(
+    getSettingsPath(),
+    JSON.stringify({ COMPRESSION_BATCH_WINDOW_MS: '0', QUEUE_MAX_ATTEMPTS: String(maxAttempts) })
+  );
+}
+
+/**
+ * Run the queue until nothing is due or in flight
+ */
+async function drain(queue: CompressionQueue): Promise<void> {
+  queue.start();
+  for (let i = 0; i < 100; i++) {
+    const status = queue.getStatus();
+    if (status.active === 0 && status.due === 0 && status.processing === 0) break;
+    await sleep(20);
+  }
+  await queue.stop();
+}
+
+before(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-queue-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+});
+
+// Every test gets its own queue table
+beforeEach(async () => {
+  writeSettings();
+  store = new DatabaseStore(join(dataDir, `queue-${++databases}.db`));
+  await store.initialize();
+  store.getOrCreateSession('s1', '/repo');
+});
+
+afterEach(() => {
+  store.close();
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+// ============================================================================
+// dedupeReads
+// ============================================================================
+
+test('dedupeReads keeps the read with the most output and files the others under it', () => {
+  const job = (id: number, tool_input: object, tool_output: string): PendingCompressionRow =>
+    ({ id, tool_name: 'Read', tool_input: JSON.stringify(tool_input), tool_output }) as PendingCompressionRow;
+
+  const { unique, duplicates } = dedupeReads([
+    job(1, { file_path: 'a.ts', offset: 0 }, 'short'),
+    job(2, { file_path: 'b.ts' }, 'other file'),
+    job(3, { file_path: 'a.ts', offset: 100 }, 'the longest window'),
+    job(4, { file_path: 'a.ts' }, 'mid'),
+  ]);
+
+  assert.deepEqual(unique.map(j => j.id), [3, 2]);
+  assert.deepEqual([...duplicates].map(([id, jobs]) => [id, jobs.map(j => j.id)]), [[3, [1, 4]]]);
+});
+
+// ============================================================================
+// Processing
+// ============================================================================
+
+test('repeated reads are completed together with the read that covers them', async () => {
+  const compressor = fakeCompressor();
+  const queue = new CompressionQueue(store, compressor);
+  enqueueRead(queue, 'a.ts', 'short');
+  enqueueRead(queue, 'a.ts', 'much longer output');
+
+  await drain(queue);
+
+  assert.deepEqual(compressor.calls, [['Read']]);
+  assert.equal(store.getCompressionQueueCounts().counts.pending, 0);
+  assert.equal(queue.getStatus().deduplicated, 1);
+  assert.equal(store.getSessionObservations('s1').length, 1);
+});
+
+test('repeated reads fail with the read that covers them when storing fails', async () => {
+  // Dead-letter on the first failure so both jobs can be inspected
+  writeSettings(1);
+  const queue = new CompressionQueue(store, fakeCompressor());
+  const ids = [enqueueRead(queue, 'b.ts', 'short'), enqueueRead(queue, 'b.ts', 'much longer output')];
+
+  const createObservation = store.createObservation;
+  store.createObservation = () => {
+    throw new Error('disk full');
+  };
+  try {
+    await drain(queue);
+  } finally {
+    store.createObservation = createObservation;
+  }
+
+  const dead = store.getDeadCompressions();
+  assert.deepEqual(dead.map(job => job.id).sort((a, b) => a - b), ids);
+  assert.ok(dead.every(job => job.last_error === 'disk full'));
+  assert.equal(queue.getStatus().deduplicated, 0);
+});
+
+test('a failing job is retried with backoff, then dead-lettered and retried on request', async () => {
+  writeSettings(2);
+  const queue = new CompressionQueue(
+    store,
+    fakeCompressor({
+      compressToolCall: async () => {
+        throw new Error('overloaded');
+      },
+    })
+  );
+  const id = enqueueRead(queue, 'a.ts', 'output');
+
+  await drain(queue);
+  let status = queue.getStatus();
+  assert.deepEqual([status.pending, status.due, status.dead], [1, 0, 0], 'waits for its backoff');
+  assert.equal(status.failed_attempts, 1);
+
+  // Make the retry due now instead of in 5 seconds
+  store.releaseCompression(id, Date.now());
+  await drain(queue);
+  status = queue.getStatus();
+  assert.deepEqual([status.pending, status.dead], [0, 1]);
+  assert.equal(status.recent_dead[0].id, id);
+  assert.equal(status.recent_dead[0].attempts, 2);
+  assert.equal(status.recent_dead[0].last_error, 'overloaded');
+
+  assert.equal(queue.retryDead([id]), 1);
+  status = queue.getStatus();
+  assert.deepEqual([status.pending, status.due, status.dead], [1, 1, 0]);
+});
+
+test('jobs left processing by a stopped worker are compressed after a restart', async () => {
+  const compressor = fakeCompressor();
+  store.enqueueCompression({ session_id: 's1', project: '/repo', tool_name: 'Bash', tool_input: 'ls' });
+  assert.equal(store.claimCompressionBatches(1, 1, 0).length, 1);
+
+  const queue = new CompressionQueue(store, compressor);
+  assert.equal(queue.getStatus().processing, 1);
+  await drain(queue);
+
+  assert.deepEqual(compressor.calls, [['Bash']]);
+  assert.equal(queue.getStatus().processed, 1);
+  assert.deepEqual(store.getSessionObservations('s1').map(o => o.title), ['Used Bash']);
+});
+
+test('jobs wait without using attempts while AI is unavailable', async () => {
+  let enabled = false;
+  const compressor = fakeCompressor({
+    isEnabled: () => enabled,
+    getDisabledReason: () => (enabled ? null : 'rate_limited'),
+    // AI becomes unavailable while the request is in flight
+    compressToolCall: async () => {
+      enabled = false;
+      return null;
+    },
+  });
+  const queue = new CompressionQueue(store, compressor);
+  enqueueRead(queue, 'a.ts', 'output');
+
+  queue.start();
+  await sleep(50);
+  await queue.stop();
+  let status = queue.getStatus();
+  assert.equal(status.paused_reason, 'rate_limited');
+  assert.deepEqual([status.due, status.requests], [1, 0]);
+
+  enabled = true;
+  queue.start();
+  await sleep(50);
+  await queue.stop();
+  status = queue.getStatus();
+  assert.equal(status.requests, 1);
+  assert.deepEqual([status.due, status.failed_attempts, status.dead], [1, 0, 0], 'released untouched');
+});
+
+test('jobs of a project over its token budget are parked', async () => {
+  const compressor = fakeCompressor({ isOverBudget: () => true });
+  const queue = new CompressionQueue(store, compressor);
+  enqueueRead(queue, 'a.ts', 'output');
+
+  await drain(queue);
+
+  const status = queue.getStatus();
+  assert.deepEqual(compressor.calls, []);
+  assert.deepEqual([status.pending, status.due, status.failed_attempts], [1, 0, 0]);
+});
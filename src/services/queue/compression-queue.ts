@@ -0,0 +1,340 @@
+/**
+ * Durable compression queue for PostToolUse observations
+ *
+ * The hook only enqueues into `pending_compressions`; this loop claims due
+ * jobs up to the concurrency limit, retries failures with exponential
+ * backoff and dead-letters jobs that keep failing. Jobs survive worker
+ * restarts: anything left in 'processing' is returned to the queue on start.
+ *
+ * Jobs of the same session and prompt_number are compressed together in one
+ * request (COMPRESSION_BATCH_SIZE / COMPRESSION_BATCH_WINDOW_MS), after
+ * folding repeated reads of the same target into one call.
+ */
+
+import type { DatabaseStore } from '../database/store.js';
+import type { CompressorService } from '../ai/compressor.js';
+import { getSettingInt } from '../../shared/config.js';
+import { logger } from '../../utils/logger.js';
+import type {
+  CompressionResult,
+  PendingCompressionRow,
+  PendingCompressionInput,
+  CompressionQueueStatus,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const POLL_INTERVAL_MS = 2000;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+// How long jobs of a project over its token budget wait before the budget is checked again
+const BUDGET_RECHECK_MS = 10 * 60 * 1000;
+
+// Payload preview length in queue status (full payloads stay in the table)
+const PREVIEW_CHARS = 200;
+
+// Read-only tools whose repeated calls on the same target are near-identical
+const READ_TARGET_FIELDS: Record<string, string[]> = {
+  Read: ['file_path'],  // offset/limit windows of one file count as one read
+  Glob: ['pattern', 'path'],
+  Grep: ['pattern', 'path', 'glob'],
+  WebFetch: ['url'],
+};
+
+// ============================================================================
+// Read Deduplication
+// ============================================================================
+
+function readTargetKey(job: PendingCompressionRow): string | null {
+  const fields = READ_TARGET_FIELDS[job.tool_name];
+  if (!fields || !job.tool_input) return null;
+
+  try {
+    const input = JSON.parse(job.tool_input) as Record<string, unknown>;
+    return `${job.tool_name}:${fields.map(f => String(input[f] ?? '')).join('\u0000')}`;
+  } catch {
+    return `${job.tool_name}:${job.tool_input.trim()}`;
+  }
+}
+
+/**
+ * Split a batch into the calls to compress and the repeated reads they cover
+ * (keyed by the id of the kept call). Of several reads of one target, the one
+ * with the most output is kept.
+ */
+export function dedupeReads(batch: PendingCompressionRow[]): {
+  unique: PendingCompressionRow[];
+  duplicates: Map<number, PendingCompressionRow[]>;
+} {
+  const kept = new Map<string, PendingCompressionRow>();
+  const unique: PendingCompressionRow[] = [];
+  const duplicates = new Map<number, PendingCompressionRow[]>();
+
+  for (const job of batch) {
+    const key = readTargetKey(job);
+    if (!key) {
+      unique.push(job);
+      continue;
+    }
+
+    const existing = kept.get(key);
+    if (!existing) {
+      kept.set(key, job);
+      unique.push(job);
+    } else if ((job.tool_output?.length ?? 0) > (existing.tool_output?.length ?? 0)) {
+      kept.set(key, job);
+      unique[unique.indexOf(existing)] = job;
+      duplicates.set(job.id, [...(duplicates.get(existing.id) ?? []), existing]);
+      duplicates.delete(existing.id);
+    } else {
+      duplicates.set(existing.id, [...(duplicates.get(existing.id) ?? []), job]);
+    }
+  }
+
+  return { unique, duplicates };
+}
+
+// ============================================================================
+// Queue
+// ============================================================================
+
+export class CompressionQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private active = new Set<Promise<void>>();
+  private concurrency: number;
+  private maxAttempts: number;
+  private batchSize: number;
+  private batchWindowMs: number;
+  private processed = 0;
+  private deduplicated = 0;
+  private requests = 0;
+  private failedAttempts = 0;
+
+  constructor(
+    private store: DatabaseStore,
+    private compressor: CompressorService
+  ) {
+    this.concurrency = Math.max(1, getSettingInt('QUEUE_CONCURRENCY') || 1);
+    this.maxAttempts = Math.max(1, getSettingInt('QUEUE_MAX_ATTEMPTS') || 1);
+    this.batchSize = Math.max(1, getSettingInt('COMPRESSION_BATCH_SIZE') || 1);
+    this.batchWindowMs = this.batchSize > 1 ? Math.max(0, getSettingInt('COMPRESSION_BATCH_WINDOW_MS') || 0) : 0;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const recovered = this.store.recoverStaleCompressions();
+    if (recovered > 0) {
+      logger.info('QUEUE', `Re-queued ${recovered} interrupted compression jobs`);
+    }
+
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.tick();
+  }
+
+  /**
+   * Stop claiming jobs and wait for the ones in flight
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled([...this.active]);
+  }
+
+  enqueue(input: PendingCompressionInput): number {
+    const id = this.store.enqueueCompression(input);
+    this.tick();
+    return id;
+  }
+
+  retryDead(ids?: number[]): number {
+    const count = this.store.retryDeadCompressions(ids);
+    if (count > 0) this.tick();
+    return count;
+  }
+
+  getStatus(): CompressionQueueStatus {
+    const { counts, due, oldest_pending_epoch } = this.store.getCompressionQueueCounts();
+    const preview = (text: string | null) =>
+      text && text.length > PREVIEW_CHARS ? `${text.slice(0, PREVIEW_CHARS)}...` : text;
+
+    return {
+      running: this.timer !== null,
+      paused_reason: this.compressor.isEnabled() ? null : this.compressor.getDisabledReason(),
+      concurrency: this.concurrency,
+      max_attempts: this.maxAttempts,
+      batch_size: this.batchSize,
+      batch_window_ms: this.batchWindowMs,
+      active: this.active.size,
+      pending: counts.pending,
+      due,
+      processing: counts.processing,
+      dead: counts.dead,
+      oldest_pending_at: oldest_pending_epoch ? new Date(oldest_pending_epoch).toISOString() : null,
+      processed: this.processed,
+      deduplicated: this.deduplicated,
+      requests: this.requests,
+      failed_attempts: this.failedAttempts,
+      recent_dead: this.store.getDeadCompressions(10).map(job => ({
+        ...job,
+        tool_input: preview(job.tool_input),
+        tool_output: preview(job.tool_output),
+      })),
+    };
+  }
+
+  // ============================================================================
+  // Processing
+  // ============================================================================
+
+  private tick(): void {
+    // Jobs wait (without using up attempts) while AI is unavailable
+    if (!this.timer || !this.compressor.isEnabled()) return;
+
+    const slots = this.concurrency - this.active.size;
+    if (slots <= 0) return;
+
+    let batches: PendingCompressionRow[][];
+    try {
+      batches = this.store.claimCompressionBatches(slots, this.batchSize, this.batchWindowMs);
+    } catch (error) {
+      logger.error('QUEUE', 'Failed to claim compression jobs', {}, error as Error);
+      return;
+    }
+
+    for (const batch of batches) {
+      const run = this.process(batch).finally(() => {
+        this.active.delete(run);
+        this.tick();
+      });
+      this.active.add(run);
+    }
+  }
+
+  private async process(batch: PendingCompressionRow[]): Promise<void> {
+    // Project out of tokens: park the batch (without using up attempts) until the budget is rechecked
+    if (this.compressor.isOverBudget(batch[0].project)) {
+      const recheckAt = Date.now() + BUDGET_RECHECK_MS;
+      for (const job of batch) {
+        this.store.releaseCompression(job.id, recheckAt);
+      }
+      return;
+    }
+
+    // Repeated reads share the outcome of the call that covers them
+    const { unique, duplicates } = dedupeReads(batch);
+    const covered = (job: PendingCompressionRow) => [job, ...(duplicates.get(job.id) ?? [])];
+
+    let results: (CompressionResult | null)[] | null;
+    try {
+      this.requests++;
+      results = await this.compress(unique);
+    } catch (error) {
+      this.failedAttempts++;
+      const message = (error as Error).message || String(error);
+      for (const job of unique.flatMap(covered)) {
+        this.recordFailure(job, message);
+      }
+      return;
+    }
+
+    // AI became unavailable mid-flight: put the jobs back untouched
+    if (!results) {
+      for (const job of unique.flatMap(covered)) {
+        this.store.releaseCompression(job.id);
+      }
+      return;
+    }
+
+    unique.forEach((job, i) => {
+      const jobs = covered(job);
+      try {
+        this.storeResult(job, results![i]);
+      } catch (error) {
+        for (const failed of jobs) {
+          this.recordFailure(failed, (error as Error).message || String(error));
+        }
+        return;
+      }
+
+      for (const done of jobs) {
+        this.store.completeCompression(done.id);
+      }
+      this.processed++;
+      this.deduplicated += jobs.length - 1;
+    });
+  }
+
+  /**
+   * One result per job, or null when AI is unavailable
+   */
+  private async compress(jobs: PendingCompressionRow[]): Promise<(CompressionResult | null)[] | null> {
+    if (jobs.length === 1) {
+      const [job] = jobs;
+      const result = await this.compressor.compressToolCall(
+        job.tool_name,
+        job.tool_input ?? undefined,
+        job.tool_output ?? undefined,
+        job.project
+      );
+      return result || this.compressor.isEnabled() ? [result] : null;
+    }
+
+    return this.compressor.compressToolCalls(
+      jobs.map(job => ({
+        tool_name: job.tool_name,
+        tool_input: job.tool_input ?? undefined,
+        tool_output: job.tool_output ?? undefined,
+      })),
+      jobs[0].project
+    );
+  }
+
+  private storeResult(job: PendingCompressionRow, result: CompressionResult | null): void {
+    if (!result?.should_store) return;
+
+    this.store.createObservation({
+      session_id: job.session_id,
+      project: job.project,
+      type: result.type,
+      title: result.title,
+      subtitle: result.subtitle,
+      facts: result.facts,
+      narrative: result.narrative,
+      concepts: result.concepts,
+      files_read: result.files_read,
+      files_modified: result.files_modified,
+      tool_name: job.tool_name,
+      discovery_tokens: result.discovery_tokens,
+      template_version: result.template_version,
+      knowledge_type: result.knowledge_type,
+      prompt_number: job.prompt_number ?? undefined,
+      should_sink: !!result.knowledge_type,
+    });
+  }
+
+  private recordFailure(job: PendingCompressionRow, message: string): void {
+    const attempts = job.attempts + 1;
+
+    if (attempts >= this.maxAttempts) {
+      this.store.failCompression(job.id, message, null);
+      logger.warn('QUEUE', `Compression job ${job.id} dead-lettered after ${attempts} attempts`, {
+        tool: job.tool_name,
+        error: message,
+      });
+      return;
+    }
+
+    const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1));
+    this.store.failCompression(job.id, message, Date.now() + delay);
+    logger.debug('QUEUE', `Compression job ${job.id} failed, retrying in ${delay}ms`, {
+      attempt: attempts,
+      error: message,
+    });
+  }
+}
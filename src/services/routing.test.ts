@@ -0,0 +1,70 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { RoutingService } from './routing.js';
+
+let dataDir: string;
+let routing: RoutingService;
+
+before(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-routing-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+  process.env.CLAUDE_PLUGIN_ROOT = fileURLToPath(new URL('../../plugins/ai-agent-entrance', import.meta.url));
+  routing = new RoutingService();
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('isKnownTaskType accepts built-in and configured task types in either spelling', () => {
+  for (const taskType of ['bug-fix', 'bugfix', 'new_project', 'Feature', 'unknown']) {
+    assert.equal(routing.isKnownTaskType(taskType), true, taskType);
+  }
+  assert.equal(routing.isKnownTaskType('bugfx'), false);
+  assert.equal(routing.isKnownTaskType('constructor'), false);
+});
+
+test('isKnownTaskType includes task types added by the project config', () => {
+  const project = join(dataDir, 'project');
+  mkdirSync(join(project, '.git'), { recursive: true });
+  writeFileSync(join(project, '.ai-agent-entrance.yaml'), 'keywords:\n  data_migration: [迁移]\n');
+
+  assert.equal(routing.isKnownTaskType('data-migration', project), true);
+  assert.equal(routing.isKnownTaskType('data-migration'), false);
+});
+
+test('analyze applies the project file over the global routing', async () => {
+  const project = join(dataDir, 'overrides');
+  mkdirSync(join(project, '.git'), { recursive: true });
+  writeFileSync(
+    join(project, '.ai-agent-entrance.yaml'),
+    [
+      'product_line: exchange/core',
+      'keywords:',
+      '  bug_fix: { keywords: [回滚], weight: 3 }',
+      'workflows:',
+      '  force: { bug_fix: openspec }',
+      '  forbid: [superpowers]',
+    ].join('\n')
+  );
+
+  const result = await routing.analyze('把昨天的发布回滚', ['superpowers'], { cwd: project, strategy: 'keywords' });
+  assert.equal(result.task_type, 'bug-fix');
+  assert.equal(result.recommended_workflow, 'openspec');
+  assert.equal(result.product_line, 'exchange/core');
+  assert.equal(result.project_config, join(project, '.ai-agent-entrance.yaml'));
+
+  // A forbidden workflow is replaced even when Superpowers is installed
+  const feature = await routing.analyze('开发新功能', ['superpowers'], { cwd: project, strategy: 'keywords' });
+  assert.equal(feature.task_type, 'feature');
+  assert.notEqual(feature.recommended_workflow, 'superpowers');
+
+  // Other projects are unaffected
+  const global = await routing.analyze('把昨天的发布回滚', [], { strategy: 'keywords' });
+  assert.equal(global.project_config, undefined);
+  assert.notEqual(global.recommended_workflow, 'openspec');
+});
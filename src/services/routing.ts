@@ -3,83 +3,54 @@
  * Detects task type from user input and recommends appropriate workflow
  */
 
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-import { parse as parseYaml } from 'yaml';
-import { getPluginRoot } from '../shared/config.js';
-import type { TaskType, WorkflowType, RoutingResult, KeywordMatch } from '../shared/types.js';
+import { loadKeywordConfig, matchProductLine, mergeKeywordConfig, normalizeTaskType } from './routing/keyword-config.js';
+import type { KeywordConfig, ProductLineMatch } from './routing/keyword-config.js';
+import { loadRouteConfig, RouteEvaluator } from './routing/route-rules.js';
+import { blendWithHistory } from './routing/history-model.js';
+import { ToolDetector } from './routing/tool-detector.js';
+import type { ToolStatusReport } from './routing/tool-detector.js';
+import { KeywordStrategy, RuleStrategy, LlmStrategy, WORKFLOW_MAPPING, classifyByKeywords } from './routing/strategies.js';
+import type { RoutingStrategy } from './routing/strategies.js';
+import { getCompressor } from './ai/compressor.js';
+import { loadProjectConfig } from '../shared/project-config.js';
+import type { ProjectConfig } from '../shared/project-config.js';
+import type {
+  TaskType,
+  WorkflowType,
+  RoutingResult,
+  RoutingMode,
+  RoutingOutcome,
+  RoutingHistoryVerdict,
+  RoutingStrategyName,
+  KeywordMatch,
+  TaskTypeCandidate,
+  SessionPromptRow,
+  TaskSwitch,
+} from '../shared/types.js';
 
-// ============================================================================
-// Keyword Definitions (inline defaults)
-// ============================================================================
-
-interface KeywordConfig {
-  task_types: Record<string, { keywords: string[]; weight: number }>;
-  product_lines: Record<string, { keywords: string[]; aliases: string[] }>;
-  knowledge_triggers: {
-    pitfall: string[];
-    adr: string[];
-    glossary: string[];
-  };
+/**
+ * Per-call routing context supplied by the caller (the service itself is DB-free)
+ */
+export interface RoutingContext {
+  strategy?: RoutingStrategyName;  // defaults to 'rules'
+  mode?: RoutingMode;
+  outcomes?: RoutingOutcome[];  // feedback history of the current project
+  cwd?: string;  // project directory; its .ai-agent-entrance.yaml is applied
 }
 
-const DEFAULT_KEYWORDS: KeywordConfig = {
-  task_types: {
-    'new-project': {
-      keywords: ['新项目', '从零开始', '完整流程', 'new project', 'from scratch', 'greenfield'],
-      weight: 3,
-    },
-    optimization: {
-      keywords: ['优化', '重构', '改造', '迁移', 'optimize', 'refactor', 'migrate', 'legacy'],
-      weight: 2,
-    },
-    'bug-fix': {
-      keywords: ['bug', '修复', '问题', '错误', 'fix', 'error', 'issue', 'broken'],
-      weight: 2,
-    },
-    feature: {
-      keywords: ['功能', '特性', '添加', '实现', 'feature', 'add', 'implement', 'create'],
-      weight: 1,
-    },
-    research: {
-      keywords: ['调研', '分析', '评估', '了解', 'research', 'analyze', 'evaluate', 'understand'],
-      weight: 1,
-    },
-  },
-  product_lines: {
-    exchange: {
-      keywords: ['交易所', '撮合', '订单', '行情'],
-      aliases: ['exchange', 'trading', 'matching'],
-    },
-    custody: {
-      keywords: ['托管', '钱包', '签名', '密钥'],
-      aliases: ['custody', 'wallet', 'signing'],
-    },
-    infra: {
-      keywords: ['基础设施', '部署', 'devops', 'kubernetes'],
-      aliases: ['infrastructure', 'platform'],
-    },
-  },
-  knowledge_triggers: {
-    pitfall: ['踩坑', '坑', '注意', '小心', '原来是', '居然是', '没想到'],
-    adr: ['决定用', '选择', '方案', '架构', '设计', '权衡'],
-    glossary: ['是什么', '什么是', '定义', '术语', '概念'],
-  },
-};
+/**
+ * Keyword config and strategies with a project's overrides merged in
+ */
+interface ProjectRouting {
+  project: ProjectConfig | null;
+  keywords: KeywordConfig;
+  strategies: Record<RoutingStrategyName, RoutingStrategy>;
+}
 
-// ============================================================================
-// Workflow Mapping
-// ============================================================================
+export const ROUTING_STRATEGIES: RoutingStrategyName[] = ['keywords', 'rules', 'llm'];
 
-const WORKFLOW_MAPPING: Record<TaskType, WorkflowType> = {
-  'new-project': 'bmad',
-  optimization: 'openspec',
-  refactor: 'superpowers',
-  'bug-fix': 'plan',
-  feature: 'superpowers',
-  research: 'plan',
-  unknown: 'plan',
-};
+// Earlier prompts of the current task whose evidence is combined with a new prompt
+const SESSION_EVIDENCE_PROMPTS = 4;
 
 const WORKFLOW_INSTALL_COMMANDS: Record<WorkflowType, string | null> = {
   superpowers: 'claude plugin install superpowers',
@@ -96,147 +67,324 @@ const WORKFLOW_INSTALL_COMMANDS: Record<WorkflowType, string | null> = {
 
 export class RoutingService {
   private keywords: KeywordConfig;
+  private routes: RouteEvaluator | null;
+  private toolDetector: ToolDetector;
+  private strategies: Record<RoutingStrategyName, RoutingStrategy>;
+  private projects = new Map<string, ProjectRouting>();
 
   constructor() {
-    this.keywords = this.loadKeywords();
+    this.keywords = loadKeywordConfig();
+
+    const routeConfig = loadRouteConfig();
+    this.routes = routeConfig ? new RouteEvaluator(routeConfig) : null;
+    this.toolDetector = new ToolDetector(() => this.routes?.getConfig().tools ?? null);
+
+    this.strategies = this.buildStrategies(this.keywords);
   }
 
-  private loadKeywords(): KeywordConfig {
-    try {
-      const configPath = join(getPluginRoot(), 'config', 'biz-keywords.yaml');
-      if (existsSync(configPath)) {
-        const content = readFileSync(configPath, 'utf-8');
-        const loaded = parseYaml(content) as Record<string, unknown>;
+  private buildStrategies(keywords: KeywordConfig): Record<RoutingStrategyName, RoutingStrategy> {
+    const keywordStrategy = new KeywordStrategy(keywords);
+    return {
+      keywords: keywordStrategy,
+      rules: new RuleStrategy(keywords, this.routes),
+      llm: new LlmStrategy(getCompressor(), keywordStrategy, this.routes),
+    };
+  }
 
-        // Validate structure - must have task_types
-        if (loaded.task_types && typeof loaded.task_types === 'object') {
-          return loaded as KeywordConfig;
-        }
+  /**
+   * Keywords and strategies for a project directory, rebuilt when its file changes
+   */
+  private forProject(cwd?: string): ProjectRouting {
+    const project = loadProjectConfig(cwd);
+    if (!project) {
+      return { project: null, keywords: this.keywords, strategies: this.strategies };
+    }
 
-        // The YAML has a different structure, use defaults
-        console.error('[routing] biz-keywords.yaml has unexpected structure, using defaults');
-      }
-    } catch (err) {
-      console.error('[routing] Failed to load biz-keywords.yaml:', err);
+    // loadProjectConfig returns the same object until the file's mtime changes
+    const cached = this.projects.get(project.path);
+    if (cached && cached.project === project) {
+      return cached;
     }
-    return DEFAULT_KEYWORDS;
+
+    const keywords = mergeKeywordConfig(this.keywords, {
+      task_types: project.keywords,
+      product_lines: project.product_lines,
+      knowledge_triggers: project.knowledge_triggers,
+    });
+    const resolved = { project, keywords, strategies: this.buildStrategies(keywords) };
+    this.projects.set(project.path, resolved);
+    return resolved;
   }
 
   /**
    * Analyze user input and determine routing
    */
-  analyze(input: string, installedTools: string[] = []): RoutingResult {
-    const normalizedInput = input.toLowerCase();
+  async analyze(input: string, installedTools: string[] = [], context: RoutingContext = {}): Promise<RoutingResult> {
+    const { project, keywords, strategies } = this.forProject(context.cwd);
+    const strategy = strategies[context.strategy || 'rules'] || strategies.rules;
+    const decision = await strategy.decide(input);
 
-    // Detect keywords
-    const matches = this.detectKeywords(normalizedInput);
-
-    // Determine task type
-    const taskType = this.determineTaskType(matches);
+    const taskType = decision.task_type;
+    const route = decision.route;
+    let workflow = decision.workflow;
+    let fallback = decision.fallback;
+    const tips = [...decision.tips];
 
     // Get product line (optional)
-    const productLine = this.detectProductLine(normalizedInput);
-
-    // Get recommended workflow
-    let workflow = WORKFLOW_MAPPING[taskType];
-
-    // Check if superpowers is installed and should take over
-    if (installedTools.includes('superpowers') && taskType !== 'research') {
+    const productLine = this.resolveProductLine(keywords, project, input);
+
+    // Check if superpowers is installed and should take over (unless the project forbids it)
+    if (
+      installedTools.includes('superpowers') &&
+      this.superpowersApplies(taskType) &&
+      !project?.workflows.forbid.includes('superpowers')
+    ) {
       workflow = 'superpowers';
+      const message = this.routes?.getConfig().superpowers_priority?.message;
+      if (message) tips.unshift(message);
     }
 
+    // Let this project's feedback history override the static recommendation
+    let history: RoutingHistoryVerdict | undefined;
+    if (context.mode === 'adaptive' && context.outcomes && context.outcomes.length > 0) {
+      history = blendWithHistory(workflow, taskType, context.outcomes);
+      if (history.adjusted) {
+        fallback = workflow;
+        workflow = history.workflow;
+      }
+    }
+
+    // The project file has the final say
+    const override = this.applyProjectWorkflows(project, taskType, workflow, fallback);
+    workflow = override.workflow;
+    fallback = override.fallback;
+
     // Determine which tools are missing
     const missingTools = this.getMissingTools(workflow, installedTools);
 
     // Generate reason
-    const reason = this.generateReason(taskType, workflow, matches);
+    let headline = decision.headline;
+    if (history?.adjusted) {
+      headline = this.generateHistoryReason(history);
+    } else if (workflow === 'superpowers' && decision.workflow !== 'superpowers' && !override.note) {
+      headline = `${headline}；已安装 Superpowers，改用 Superpowers`;
+    }
+    if (override.note) {
+      headline = `${headline}；${override.note}`;
+    }
+    const matches = decision.evidence.filter(m => !m.negated);
+    const reason = this.explain(
+      headline,
+      decision.candidates,
+      decision.evidence,
+      decision.confidence,
+      decision.clarification
+    );
 
     return {
-      keywords: matches.map(m => m.keyword),
+      keywords: [...new Set(matches.map(m => m.keyword))],
       task_type: taskType,
-      product_line: productLine,
+      confidence: decision.confidence,
+      candidates: decision.candidates,
+      evidence: decision.evidence,
+      needs_clarification: decision.clarification !== undefined,
+      clarification_reason: decision.clarification,
+      product_line: productLine?.product_line,
+      product_line_confidence: productLine?.confidence,
+      knowledge_path: productLine?.knowledge_path,
       recommended_workflow: workflow,
+      fallback_workflow: fallback,
+      history,
+      matched_route: route?.rule.name,
+      strategy: decision.strategy,
+      strategy_fallback_from: decision.fallback_from,
+      project_config: project?.path,
       reason,
+      tips,
       installed_tools: installedTools,
       missing_tools: missingTools,
     };
   }
 
-  private detectKeywords(input: string): KeywordMatch[] {
-    const matches: KeywordMatch[] = [];
+  /**
+   * Run every strategy on the same input, for tuning
+   */
+  async compare(
+    input: string,
+    installedTools: string[] = [],
+    context: RoutingContext = {}
+  ): Promise<RoutingResult[]> {
+    const results: RoutingResult[] = [];
+    for (const strategy of ROUTING_STRATEGIES) {
+      results.push(await this.analyze(input, installedTools, { ...context, strategy }));
+    }
+    return results;
+  }
 
-    if (!this.keywords?.task_types) {
-      console.error('[routing] task_types not found in keywords config');
-      return matches;
+  /**
+   * Route one prompt of a multi-prompt session.
+   *
+   * Follow-ups like "继续" or "再试一次" carry little evidence of their own, so
+   * the prompt is analyzed together with the earlier prompts of the current
+   * task. A prompt that confidently names a different task type on its own
+   * starts a new task: earlier evidence is dropped and a task switch (with a
+   * re-route suggestion) is reported.
+   */
+  async analyzeTurn(
+    turn: { prompt: string; prompt_number?: number; earlier: SessionPromptRow[] },
+    installedTools: string[] = [],
+    context: RoutingContext = {}
+  ): Promise<RoutingResult> {
+    const { prompt } = turn;
+    const promptNumber = turn.prompt_number ?? (turn.earlier[turn.earlier.length - 1]?.prompt_number ?? 0) + 1;
+
+    // Only prompts before this one count (a retried hook may resend a recorded prompt_number)
+    const earlier = turn.earlier.filter(p => p.prompt_number < promptNumber);
+    const previous = earlier[earlier.length - 1];
+
+    // Prompts since the last task switch
+    const start = earlier.map(p => p.task_switch === 1).lastIndexOf(true);
+    const task = earlier.slice(Math.max(0, start));
+
+    const own = classifyByKeywords(this.forProject(context.cwd).keywords, prompt);
+    const startsNewTask = !!previous
+      && own.task_type !== 'unknown'
+      && own.clarification === undefined
+      && own.task_type !== previous.task_type;
+
+    // The new prompt goes first so its evidence spans keep their offsets
+    const carried = startsNewTask ? [] : task.slice(-SESSION_EVIDENCE_PROMPTS).reverse();
+    const input = [prompt, ...carried.map(p => p.prompt)].join('\n');
+    const result = await this.analyze(input, installedTools, context);
+
+    let taskSwitch: TaskSwitch | undefined;
+    if (previous && result.task_type !== previous.task_type) {
+      taskSwitch = {
+        from_task_type: previous.task_type as TaskType,
+        to_task_type: result.task_type,
+        from_workflow: previous.recommended_workflow as WorkflowType | null,
+        to_workflow: result.recommended_workflow,
+        suggestion: this.generateSwitchSuggestion(
+          previous.task_type,
+          result.task_type,
+          previous.recommended_workflow as WorkflowType | null,
+          result.recommended_workflow
+        ),
+      };
     }
 
-    for (const [category, config] of Object.entries(this.keywords.task_types)) {
-      if (!config?.keywords || !Array.isArray(config.keywords)) {
-        console.error(`[routing] Invalid config for category ${category}:`, config);
-        continue;
-      }
+    return {
+      ...result,
+      session: { prompt_number: promptNumber, prompts_considered: carried.length + 1, task_switch: taskSwitch },
+    };
+  }
 
-      for (const keyword of config.keywords) {
-        if (input.includes(keyword.toLowerCase())) {
-          matches.push({
-            keyword,
-            category,
-            weight: config.weight || 1,
-          });
-        }
-      }
+  private generateSwitchSuggestion(
+    from: string,
+    to: TaskType,
+    fromWorkflow: WorkflowType | null,
+    toWorkflow: WorkflowType
+  ): string {
+    const target = this.displayName(toWorkflow);
+    if (!fromWorkflow || fromWorkflow === toWorkflow) {
+      return `任务从 ${from} 切换为 ${to}，继续使用 ${target}`;
     }
+    return `任务从 ${from} 切换为 ${to}，建议从 ${this.displayName(fromWorkflow)} 改用 ${target}`;
+  }
 
-    return matches;
+  /**
+   * Keyword-only task type, for callers that need a quick synchronous answer
+   */
+  detectTaskType(input: string, cwd?: string): TaskType {
+    return classifyByKeywords(this.forProject(cwd).keywords, input).task_type;
   }
 
-  private determineTaskType(matches: KeywordMatch[]): TaskType {
-    if (matches.length === 0) {
-      return 'unknown';
+  private superpowersApplies(taskType: TaskType): boolean {
+    if (this.routes) {
+      return this.routes.superpowersApplies(taskType);
     }
+    return taskType !== 'research';
+  }
 
-    // Score by weight
-    const scores: Record<string, number> = {};
-    for (const match of matches) {
-      scores[match.category] = (scores[match.category] || 0) + match.weight;
-    }
+  /**
+   * Detect the most specific product line (e.g. exchange/core) mentioned in the input,
+   * else the product line pinned by the project file
+   */
+  detectProductLine(input: string, cwd?: string): ProductLineMatch | undefined {
+    const { project, keywords } = this.forProject(cwd);
+    return this.resolveProductLine(keywords, project, input);
+  }
 
-    // Get highest scoring type
-    let maxScore = 0;
-    let maxType: TaskType = 'unknown';
-    for (const [type, score] of Object.entries(scores)) {
-      if (score > maxScore) {
-        maxScore = score;
-        maxType = type as TaskType;
-      }
+  private resolveProductLine(
+    keywords: KeywordConfig,
+    project: ProjectConfig | null,
+    input: string
+  ): ProductLineMatch | undefined {
+    const match = matchProductLine(keywords, input);
+    if (match || !project?.product_line) {
+      return match;
     }
 
-    return maxType;
+    const node = keywords.product_lines.find(n => n.id === project.product_line);
+    return {
+      product_line: project.product_line,
+      confidence: 1,
+      knowledge_path: node?.knowledge_path || `${project.product_line}/`,
+      keywords: [],
+    };
   }
 
-  private detectProductLine(input: string): string | undefined {
-    if (!this.keywords?.product_lines) {
-      return undefined;
+  /**
+   * Apply `workflows.force` / `workflows.forbid` from the project file.
+   * A forbidden workflow is replaced by the fallback, then plan, then any allowed tool.
+   */
+  private applyProjectWorkflows(
+    project: ProjectConfig | null,
+    taskType: TaskType,
+    workflow: WorkflowType,
+    fallback: WorkflowType | null
+  ): { workflow: WorkflowType; fallback: WorkflowType | null; note?: string } {
+    if (!project) {
+      return { workflow, fallback };
     }
 
-    for (const [line, config] of Object.entries(this.keywords.product_lines)) {
-      if (!config) continue;
-
-      const keywords = config.keywords || [];
-      const aliases = config.aliases || [];
-      const allKeywords = [...keywords, ...aliases];
+    const { force, force_by_task, forbid } = project.workflows;
+    const allowed = (w: WorkflowType | null): w is WorkflowType => !!w && !forbid.includes(w);
+    const forced = (Object.entries(force_by_task || {}).find(([t]) => normalizeTaskType(t) === taskType)?.[1]
+      ?? force) as WorkflowType | undefined;
+
+    if (forced && forced !== workflow) {
+      return {
+        workflow: forced,
+        fallback: allowed(workflow) ? workflow : null,
+        note: `项目配置指定使用 ${this.displayName(forced)}`,
+      };
+    }
 
-      for (const keyword of allKeywords) {
-        if (input.includes(keyword.toLowerCase())) {
-          return line;
-        }
+    if (!allowed(workflow)) {
+      const tools = this.routes ? Object.keys(this.routes.getConfig().tools) : Object.keys(WORKFLOW_INSTALL_COMMANDS);
+      const replacement = [fallback, 'plan', ...tools].find(
+        (w): w is WorkflowType => allowed(w as WorkflowType | null) && w !== workflow
+      );
+      if (replacement) {
+        return {
+          workflow: replacement,
+          fallback: null,
+          note: `项目配置禁用 ${this.displayName(workflow)}，改用 ${this.displayName(replacement)}`,
+        };
       }
     }
-    return undefined;
+
+    return { workflow, fallback: allowed(fallback) ? fallback : null };
+  }
+
+  private displayName(workflow: WorkflowType): string {
+    return this.routes?.getTool(workflow)?.display_name || workflow;
   }
 
   private getMissingTools(workflow: WorkflowType, installed: string[]): string[] {
-    const installCmd = WORKFLOW_INSTALL_COMMANDS[workflow];
+    const tool = this.routes?.getTool(workflow);
+    const installCmd = tool ? tool.install_cmd : WORKFLOW_INSTALL_COMMANDS[workflow];
     if (!installCmd) return [];
 
     // Extract tool name from install command
@@ -246,34 +394,58 @@ export class RoutingService {
     return [installCmd];
   }
 
-  private generateReason(
-    taskType: TaskType,
-    workflow: WorkflowType,
-    matches: KeywordMatch[]
+  private generateHistoryReason(history: RoutingHistoryVerdict): string {
+    const toolName = this.routes?.getTool(history.workflow)?.display_name || history.workflow;
+    const staticName = this.routes?.getTool(history.static_workflow)?.display_name || history.static_workflow;
+
+    return `根据本项目 ${history.samples} 次路由反馈，${toolName} 效果优于默认推荐的 ${staticName}，推荐使用 ${toolName}`;
+  }
+
+  /**
+   * Append per-candidate scores, matched spans and ignored negations to the headline
+   */
+  private explain(
+    headline: string,
+    candidates: TaskTypeCandidate[],
+    evidence: KeywordMatch[],
+    confidence: number,
+    clarification?: 'tie' | 'low_confidence'
   ): string {
-    const keywordList = matches.map(m => m.keyword).join(', ');
-
-    const reasons: Record<TaskType, string> = {
-      'new-project': `检测到新项目关键字 (${keywordList})，推荐使用 BMAD 完整流程`,
-      optimization: `检测到优化/重构关键字 (${keywordList})，推荐使用 OpenSpec 变更隔离模式`,
-      refactor: `检测到重构关键字 (${keywordList})，推荐使用 Superpowers SDD+TDD 流程`,
-      'bug-fix': `检测到 bug 修复关键字 (${keywordList})，推荐使用 Plan 模式快速定位`,
-      feature: `检测到功能开发关键字 (${keywordList})，推荐使用 Superpowers SDD+TDD`,
-      research: `检测到调研关键字 (${keywordList})，推荐使用 Plan 模式分析`,
-      unknown: '未检测到明确的任务类型，使用默认 Plan 模式',
-    };
+    if (candidates.length === 0) {
+      return headline;
+    }
+
+    const parts = [headline];
+    const scored = candidates
+      .map(c => {
+        const spans = c.evidence.map(m => `"${m.text}"@${m.start}`).join(', ');
+        return spans ? `${c.task_type} ${c.score} [${spans}]` : `${c.task_type} ${c.score}`;
+      })
+      .join('; ');
+    parts.push(`候选: ${scored}`);
+
+    const negated = evidence.filter(m => m.negated);
+    if (negated.length > 0) {
+      parts.push(`已忽略否定表达: ${negated.map(m => `"${m.text}"`).join(', ')}`);
+    }
+
+    if (clarification === 'tie') {
+      parts.push(`${candidates[0].task_type} 与 ${candidates[1].task_type} 得分相同，建议向用户确认`);
+    } else if (clarification === 'low_confidence') {
+      parts.push(`置信度 ${confidence} 偏低，建议向用户确认`);
+    }
 
-    return reasons[taskType];
+    return parts.join('。');
   }
 
   /**
-   * Detect knowledge sinking triggers
+   * Detect knowledge sinking triggers, with the project's keyword config as `analyze` uses it
    */
-  detectKnowledgeTriggers(input: string): { type: string; keyword: string }[] {
+  detectKnowledgeTriggers(input: string, cwd?: string): { type: string; keyword: string }[] {
     const normalizedInput = input.toLowerCase();
     const triggers: { type: string; keyword: string }[] = [];
 
-    for (const [type, keywords] of Object.entries(this.keywords.knowledge_triggers)) {
+    for (const [type, keywords] of Object.entries(this.forProject(cwd).keywords.knowledge_triggers)) {
       for (const keyword of keywords) {
         if (normalizedInput.includes(keyword.toLowerCase())) {
           triggers.push({ type, keyword });
@@ -285,31 +457,72 @@ export class RoutingService {
   }
 
   /**
-   * Get installed tools by checking common locations
+   * Detect the workflow a tool call belongs to: a Skill/SlashCommand call such as
+   * `superpowers:brainstorming` or `/openspec:proposal`, or ExitPlanMode for plan mode.
    */
-  static async getInstalledTools(): Promise<string[]> {
-    const tools: string[] = [];
-    const { execSync } = await import('child_process');
-
-    // Check for common plugins
-    const pluginsToCheck = ['superpowers', 'compound-engineering', 'openspec', 'speckit', 'bmad'];
-
-    for (const plugin of pluginsToCheck) {
-      try {
-        // Try to list installed plugins
-        const result = execSync('claude plugin list 2>/dev/null || echo ""', {
-          encoding: 'utf-8',
-          timeout: 5000,
-        });
-        if (result.includes(plugin)) {
-          tools.push(plugin);
-        }
-      } catch {
-        // Plugin check failed, skip
-      }
-    }
+  detectWorkflowUsage(toolName: string, toolInput: unknown): WorkflowType | null {
+    if (toolName === 'ExitPlanMode') return 'plan';
+    if (toolName !== 'Skill' && toolName !== 'SlashCommand') return null;
+
+    const text = JSON.stringify(toolInput ?? '').toLowerCase();
+    const workflows = this.routes
+      ? Object.keys(this.routes.getConfig().tools)
+      : Object.keys(WORKFLOW_INSTALL_COMMANDS);
+
+    const used = workflows.find(name => name !== 'plan' && text.includes(name));
+    return (used as WorkflowType | undefined) ?? null;
+  }
+
+  /**
+   * Whether `name` is a built-in workflow or a tool defined in workflow-routes.yaml
+   */
+  isKnownWorkflow(name: string): name is WorkflowType {
+    const tools = this.routes?.getConfig().tools ?? {};
+    return Object.hasOwn(WORKFLOW_INSTALL_COMMANDS, name) || Object.hasOwn(tools, name);
+  }
+
+  /**
+   * Whether `taskType` is a built-in task type or one defined in biz-keywords.yaml
+   * (or the project's .ai-agent-entrance.yaml), in either id spelling
+   */
+  isKnownTaskType(taskType: string, cwd?: string): boolean {
+    const normalized = normalizeTaskType(taskType);
+    return (
+      Object.hasOwn(WORKFLOW_MAPPING, normalized) ||
+      Object.keys(this.forProject(cwd).keywords.task_types).some(id => normalizeTaskType(id) === normalized)
+    );
+  }
+
+  // ============================================================================
+  // Installed Tools
+  // ============================================================================
 
-    return tools;
+  /**
+   * Installed workflow tools for a project directory (cached per project)
+   */
+  async getInstalledTools(cwd: string): Promise<string[]> {
+    return this.toolDetector.getInstalledTools(cwd);
+  }
+
+  async getToolStatus(cwd: string, refresh: boolean = false): Promise<ToolStatusReport> {
+    return this.toolDetector.detect(cwd, refresh);
+  }
+
+  invalidateTools(cwd?: string): void {
+    this.toolDetector.invalidate(cwd);
+  }
+
+  /**
+   * Whether a shell command installs or removes a workflow tool, so cached status is stale
+   */
+  isToolInstallCommand(command: string): boolean {
+    if (/\bclaude\s+plugin\s+(install|uninstall|remove)\b/.test(command)) {
+      return true;
+    }
+    const installCmds = this.routes
+      ? Object.values(this.routes.getConfig().tools).map(t => t.install_cmd)
+      : Object.values(WORKFLOW_INSTALL_COMMANDS);
+    return installCmds.some(cmd => !!cmd && command.includes(cmd));
   }
 }
 
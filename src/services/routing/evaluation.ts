@@ -0,0 +1,324 @@
+/**
+ * Routing evaluation against a labelled prompt corpus
+ *
+ * Corpus format (JSONL, one case per line; unlabelled fields are skipped):
+ *   {"prompt": "优化撮合引擎延迟", "task_type": "optimization", "product_line": "exchange/core", "workflow": "openspec"}
+ */
+
+import { normalizeTaskType } from './keyword-config.js';
+import type { RoutingService, RoutingContext } from '../routing.js';
+import type { RoutingResult, SessionRow, SessionPromptRow } from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvalCase {
+  line: number;
+  prompt: string;
+  task_type?: string;
+  product_line?: string;
+  workflow?: string;
+}
+
+export interface CorpusEntry {
+  prompt: string;
+  task_type: string | null;
+  product_line: string | null;
+  workflow: string | null;
+  session_id?: string;
+  project?: string;
+  recommended_workflow?: string | null;
+}
+
+export interface DimensionScore {
+  correct: number;
+  total: number;      // cases labelled for this dimension
+  accuracy: number;   // 0-1, 0 when nothing is labelled
+}
+
+export interface KeywordContribution {
+  keyword: string;
+  category: string;
+  hits: number;        // labelled cases where the keyword matched (not negated)
+  supporting: number;  // ...and its category is the expected task type
+  misleading: number;  // ...and its category is not the expected task type
+  precision: number;   // supporting / hits
+}
+
+export interface EvalFailure {
+  line: number;
+  prompt: string;
+  expected: Partial<Record<'task_type' | 'product_line' | 'workflow', string>>;
+  actual: Partial<Record<'task_type' | 'product_line' | 'workflow', string>>;
+}
+
+export interface EvalReport {
+  cases: number;
+  unlabelled: number;
+  task_type: DimensionScore;
+  product_line: DimensionScore;
+  workflow: DimensionScore;
+  confusion: Record<string, Record<string, number>>;  // expected task_type → predicted → count
+  keywords: KeywordContribution[];
+  failures: EvalFailure[];
+}
+
+// ============================================================================
+// Corpus I/O
+// ============================================================================
+
+function optionalLabel(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a JSONL corpus. Errors carry the 1-based line number.
+ */
+export function parseCorpus(text: string): { cases: EvalCase[]; errors: string[] } {
+  const cases: EvalCase[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+
+    let entry: Record<string, unknown>;
+    try {
+      entry = JSON.parse(raw);
+    } catch {
+      errors.push(`line ${line}: invalid JSON`);
+      return;
+    }
+
+    if (typeof entry.prompt !== 'string' || !entry.prompt.trim()) {
+      errors.push(`line ${line}: prompt is required`);
+      return;
+    }
+
+    const taskType = optionalLabel(entry.task_type);
+    cases.push({
+      line,
+      prompt: entry.prompt,
+      task_type: taskType ? normalizeTaskType(taskType) : undefined,
+      product_line: optionalLabel(entry.product_line),
+      workflow: optionalLabel(entry.workflow),
+    });
+  });
+
+  return { cases, errors };
+}
+
+/**
+ * Turn recorded prompts into unlabelled corpus lines (duplicates dropped).
+ * Every prompt of session_prompts is exported; `sessions` adds the first
+ * prompt of sessions recorded before per-prompt history existed.
+ */
+export function sessionsToCorpus(sessions: SessionRow[], prompts: SessionPromptRow[] = []): CorpusEntry[] {
+  const seen = new Set<string>();
+  const entries: CorpusEntry[] = [];
+
+  for (const row of prompts) {
+    const prompt = row.prompt.trim();
+    if (!prompt || seen.has(prompt)) continue;
+    seen.add(prompt);
+
+    entries.push({
+      prompt,
+      task_type: null,
+      product_line: null,
+      workflow: null,
+      session_id: row.session_id,
+      project: row.project,
+      recommended_workflow: row.recommended_workflow,
+    });
+  }
+
+  for (const session of sessions) {
+    const prompt = session.user_prompt?.trim();
+    if (!prompt || seen.has(prompt)) continue;
+    seen.add(prompt);
+
+    entries.push({
+      prompt,
+      task_type: null,
+      product_line: null,
+      workflow: null,
+      session_id: session.session_id,
+      project: session.project,
+      recommended_workflow: session.recommended_workflow,
+    });
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function score(correct: number, total: number): DimensionScore {
+  return { correct, total, accuracy: total > 0 ? parseFloat((correct / total).toFixed(3)) : 0 };
+}
+
+/**
+ * Run RoutingService.analyze over every case and aggregate the results
+ */
+export async function evaluateRouting(
+  routing: RoutingService,
+  cases: EvalCase[],
+  options: { installedTools?: string[]; context?: RoutingContext } = {}
+): Promise<EvalReport> {
+  const tally = {
+    task_type: { correct: 0, total: 0 },
+    product_line: { correct: 0, total: 0 },
+    workflow: { correct: 0, total: 0 },
+  };
+  const confusion: Record<string, Record<string, number>> = {};
+  const keywords = new Map<string, KeywordContribution>();
+  const failures: EvalFailure[] = [];
+  let unlabelled = 0;
+
+  for (const c of cases) {
+    if (!c.task_type && !c.product_line && !c.workflow) {
+      unlabelled++;
+      continue;
+    }
+
+    const result: RoutingResult = await routing.analyze(c.prompt, options.installedTools || [], options.context);
+    const actual = {
+      task_type: result.task_type,
+      product_line: result.product_line || 'none',
+      workflow: result.recommended_workflow,
+    };
+
+    const failure: EvalFailure = { line: c.line, prompt: c.prompt, expected: {}, actual: {} };
+    for (const dimension of ['task_type', 'product_line', 'workflow'] as const) {
+      const expected = c[dimension];
+      if (!expected) continue;
+
+      tally[dimension].total++;
+      if (expected === actual[dimension]) {
+        tally[dimension].correct++;
+      } else {
+        failure.expected[dimension] = expected;
+        failure.actual[dimension] = actual[dimension];
+      }
+    }
+    if (Object.keys(failure.expected).length > 0) {
+      failures.push(failure);
+    }
+
+    if (!c.task_type) continue;
+
+    const row = (confusion[c.task_type] ||= {});
+    row[actual.task_type] = (row[actual.task_type] || 0) + 1;
+
+    // Each keyword counts once per case
+    const matched = new Map(result.evidence.filter(m => !m.negated).map(m => [`${m.category}\u0000${m.keyword}`, m]));
+    for (const m of matched.values()) {
+      const key = `${m.category}\u0000${m.keyword}`;
+      const entry = keywords.get(key) || {
+        keyword: m.keyword,
+        category: m.category,
+        hits: 0,
+        supporting: 0,
+        misleading: 0,
+        precision: 0,
+      };
+      entry.hits++;
+      if (normalizeTaskType(m.category) === c.task_type) {
+        entry.supporting++;
+      } else {
+        entry.misleading++;
+      }
+      keywords.set(key, entry);
+    }
+  }
+
+  const contributions = [...keywords.values()]
+    .map(k => ({ ...k, precision: parseFloat((k.supporting / k.hits).toFixed(3)) }))
+    .sort((a, b) => b.misleading - a.misleading || b.hits - a.hits);
+
+  return {
+    cases: cases.length,
+    unlabelled,
+    task_type: score(tally.task_type.correct, tally.task_type.total),
+    product_line: score(tally.product_line.correct, tally.product_line.total),
+    workflow: score(tally.workflow.correct, tally.workflow.total),
+    confusion,
+    keywords: contributions,
+    failures,
+  };
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+// CJK characters take two terminal columns
+function padDisplay(text: string, width: number): string {
+  const columns = [...text].reduce((n, ch) => n + (/[\u1100-\uffdc]/.test(ch) ? 2 : 1), 0);
+  return text + ' '.repeat(Math.max(0, width - columns));
+}
+
+function percent(s: DimensionScore): string {
+  return s.total > 0 ? `${(s.accuracy * 100).toFixed(1)}% (${s.correct}/${s.total})` : 'n/a (unlabelled)';
+}
+
+/**
+ * Plain-text report for the terminal
+ */
+export function formatEvalReport(report: EvalReport, maxFailures: number = 20): string {
+  const lines: string[] = [];
+
+  lines.push(`Cases: ${report.cases} (${report.unlabelled} unlabelled, skipped)`);
+  lines.push('');
+  lines.push('Accuracy');
+  lines.push(`  task_type     ${percent(report.task_type)}`);
+  lines.push(`  product_line  ${percent(report.product_line)}`);
+  lines.push(`  workflow      ${percent(report.workflow)}`);
+
+  const expectedTypes = Object.keys(report.confusion).sort();
+  if (expectedTypes.length > 0) {
+    const predictedTypes = [...new Set(expectedTypes.flatMap(t => Object.keys(report.confusion[t])))].sort();
+    const width = Math.max(12, ...expectedTypes.map(t => t.length), ...predictedTypes.map(t => t.length)) + 2;
+
+    lines.push('');
+    lines.push('Confusion matrix (rows: expected task_type, columns: predicted)');
+    lines.push(''.padEnd(width) + predictedTypes.map(t => t.padStart(width)).join(''));
+    for (const expected of expectedTypes) {
+      const cells = predictedTypes.map(p => String(report.confusion[expected][p] || 0).padStart(width));
+      lines.push(expected.padEnd(width) + cells.join(''));
+    }
+  }
+
+  if (report.keywords.length > 0) {
+    lines.push('');
+    lines.push('Keyword contribution (most misleading first)');
+    lines.push('  keyword                  category        hits  supporting  misleading  precision');
+    for (const k of report.keywords) {
+      lines.push(
+        `  ${padDisplay(k.keyword, 24)} ${k.category.padEnd(15)} ${String(k.hits).padStart(4)}  ` +
+        `${String(k.supporting).padStart(10)}  ${String(k.misleading).padStart(10)}  ${k.precision.toFixed(2).padStart(9)}`
+      );
+    }
+  }
+
+  if (report.failures.length > 0) {
+    lines.push('');
+    lines.push(`Failures (${report.failures.length}${report.failures.length > maxFailures ? `, first ${maxFailures}` : ''})`);
+    for (const f of report.failures.slice(0, maxFailures)) {
+      const diffs = Object.keys(f.expected)
+        .map(d => {
+          const dimension = d as keyof EvalFailure['expected'];
+          return `${dimension}: expected ${f.expected[dimension]}, got ${f.actual[dimension]}`;
+        })
+        .join('; ');
+      lines.push(`  line ${f.line}: ${f.prompt.slice(0, 60)}`);
+      lines.push(`    ${diffs}`);
+    }
+  }
+
+  return lines.join('\n');
+}
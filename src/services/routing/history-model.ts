@@ -0,0 +1,59 @@
+/**
+ * Per-project routing history: blends the static recommendation with
+ * weighted success/failure counts recorded through routing feedback.
+ */
+
+import type { RoutingHistoryVerdict, RoutingOutcome, TaskType, WorkflowType } from '../../shared/types.js';
+
+// Feedback samples needed before history carries as much weight as the static rules
+const PRIOR_STRENGTH = 5;
+
+// Weight of feedback inferred by the Stop hook (explicit user feedback weighs 1)
+export const IMPLICIT_FEEDBACK_WEIGHT = 0.5;
+
+/**
+ * Score every workflow seen for `taskType` and pick the best one.
+ *
+ *   alpha    = n / (n + PRIOR_STRENGTH)             n = weighted samples for the task type
+ *   learned  = (successes + 1) / (successes + failures + 2)   0 when never used
+ *   score    = (1 - alpha) * [workflow is static pick] + alpha * learned
+ *
+ * With no feedback alpha is 0 and the static recommendation always wins.
+ */
+export function blendWithHistory(
+  staticWorkflow: WorkflowType,
+  taskType: TaskType,
+  outcomes: RoutingOutcome[]
+): RoutingHistoryVerdict {
+  const relevant = outcomes.filter(o => o.task_type === taskType);
+  const samples = relevant.reduce((sum, o) => sum + o.successes + o.failures, 0);
+  const alpha = samples / (samples + PRIOR_STRENGTH);
+
+  const byWorkflow = new Map<string, RoutingOutcome>();
+  for (const o of relevant) {
+    byWorkflow.set(o.workflow, o);
+  }
+
+  const scores: Record<string, number> = {};
+  for (const workflow of new Set([staticWorkflow, ...byWorkflow.keys()])) {
+    const o = byWorkflow.get(workflow);
+    const learned = o ? (o.successes + 1) / (o.successes + o.failures + 2) : 0;
+    const prior = workflow === staticWorkflow ? 1 : 0;
+    scores[workflow] = parseFloat(((1 - alpha) * prior + alpha * learned).toFixed(3));
+  }
+
+  // Static pick wins ties
+  let best = staticWorkflow as string;
+  for (const [workflow, score] of Object.entries(scores)) {
+    if (score > scores[best]) best = workflow;
+  }
+
+  return {
+    mode: 'adaptive',
+    static_workflow: staticWorkflow,
+    workflow: best as WorkflowType,
+    adjusted: best !== staticWorkflow,
+    samples: parseFloat(samples.toFixed(2)),
+    scores,
+  };
+}
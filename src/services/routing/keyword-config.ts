@@ -0,0 +1,391 @@
+/**
+ * Keyword configuration loader for config/biz-keywords.yaml
+ *
+ * Accepts both the flat layout (`product_lines.exchange.keywords`) and the
+ * nested product-line hierarchy shipped with the plugin
+ * (`product_lines.exchange.core.keywords` + `knowledge_path`).
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getPluginRoot } from '../../shared/config.js';
+import type { TaskType } from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TaskTypeKeywords {
+  keywords: string[];
+  weight: number;
+  suggest_tool?: string;
+  fallback?: string;
+}
+
+export interface ProductLineNode {
+  id: string;              // e.g. "exchange/core"
+  path: string[];          // e.g. ["exchange", "core"]
+  keywords: string[];      // keywords and aliases of this node only
+  knowledge_path: string;  // e.g. "exchange/core/"
+}
+
+export interface MatchingOptions {
+  case_sensitive: boolean;
+  multi_keyword_boost: number;
+  min_confidence: number;
+}
+
+export interface KeywordConfig {
+  task_types: Record<string, TaskTypeKeywords>;
+  product_lines: ProductLineNode[];
+  knowledge_triggers: Record<string, string[]>;
+  matching: MatchingOptions;
+}
+
+export interface ProductLineMatch {
+  product_line: string;
+  confidence: number;
+  knowledge_path: string;
+  keywords: string[];
+}
+
+// ============================================================================
+// Inline Defaults
+// ============================================================================
+
+const DEFAULT_KEYWORDS = {
+  task_types: {
+    'new-project': {
+      keywords: ['新项目', '从零开始', '完整流程', 'new project', 'from scratch', 'greenfield'],
+      weight: 3,
+    },
+    optimization: {
+      keywords: ['优化', '重构', '改造', '迁移', 'optimize', 'refactor', 'migrate', 'legacy'],
+      weight: 2,
+    },
+    'bug-fix': {
+      keywords: ['bug', '修复', '问题', '错误', 'fix', 'error', 'issue', 'broken'],
+      weight: 2,
+    },
+    feature: {
+      keywords: ['功能', '特性', '添加', '实现', 'feature', 'add', 'implement', 'create'],
+      weight: 1,
+    },
+    research: {
+      keywords: ['调研', '分析', '评估', '了解', 'research', 'analyze', 'evaluate', 'understand'],
+      weight: 1,
+    },
+  },
+  product_lines: {
+    exchange: {
+      keywords: ['交易所', '撮合', '订单', '行情'],
+      aliases: ['exchange', 'trading', 'matching'],
+    },
+    custody: {
+      keywords: ['托管', '钱包', '签名', '密钥'],
+      aliases: ['custody', 'wallet', 'signing'],
+    },
+    infra: {
+      keywords: ['基础设施', '部署', 'devops', 'kubernetes'],
+      aliases: ['infrastructure', 'platform'],
+    },
+  },
+  knowledge_triggers: {
+    pitfall: ['踩坑', '坑', '注意', '小心', '原来是', '居然是', '没想到'],
+    adr: ['决定用', '选择', '方案', '架构', '设计', '权衡'],
+    glossary: ['是什么', '什么是', '定义', '术语', '概念'],
+  },
+};
+
+const DEFAULT_MATCHING: MatchingOptions = {
+  case_sensitive: false,
+  multi_keyword_boost: 1.5,
+  min_confidence: 0.6,
+};
+
+// Keys inside a product-line node that describe the node itself rather than a child
+const NODE_FIELDS = new Set(['keywords', 'aliases', 'knowledge_path']);
+
+// ============================================================================
+// Task Type Normalization
+// ============================================================================
+
+/**
+ * biz-keywords.yaml and workflow-routes.yaml use snake_case ids
+ * (new_project, bugfix); map them onto the canonical TaskType values.
+ */
+const TASK_TYPE_ALIASES: Record<string, TaskType> = {
+  new_project: 'new-project',
+  new_feature: 'feature',
+  bugfix: 'bug-fix',
+  bug_fix: 'bug-fix',
+};
+
+export function normalizeTaskType(id: string): TaskType {
+  const key = id.trim().toLowerCase();
+  return (TASK_TYPE_ALIASES[key] || key.replace(/_/g, '-')) as TaskType;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function normalizeTaskTypes(raw: unknown): Record<string, TaskTypeKeywords> {
+  const result: Record<string, TaskTypeKeywords> = {};
+  if (!isMapping(raw)) return result;
+
+  for (const [id, def] of Object.entries(raw)) {
+    if (!isMapping(def)) continue;
+    result[id] = {
+      keywords: toStringArray(def.keywords),
+      weight: typeof def.weight === 'number' ? def.weight : 1,
+      suggest_tool: typeof def.suggest_tool === 'string' ? def.suggest_tool : undefined,
+      fallback: typeof def.fallback === 'string' ? def.fallback : undefined,
+    };
+  }
+  return result;
+}
+
+function collectProductLines(raw: unknown, path: string[], out: ProductLineNode[]): void {
+  if (!isMapping(raw)) return;
+
+  for (const [key, def] of Object.entries(raw)) {
+    if (!isMapping(def)) continue;
+
+    const nodePath = [...path, key];
+    const keywords = [...toStringArray(def.keywords), ...toStringArray(def.aliases)];
+    const id = nodePath.join('/');
+
+    if (keywords.length > 0 || typeof def.knowledge_path === 'string') {
+      out.push({
+        id,
+        path: nodePath,
+        keywords,
+        knowledge_path: typeof def.knowledge_path === 'string' ? def.knowledge_path : `${id}/`,
+      });
+    }
+
+    const children: Record<string, unknown> = {};
+    for (const [childKey, child] of Object.entries(def)) {
+      if (!NODE_FIELDS.has(childKey)) children[childKey] = child;
+    }
+    collectProductLines(children, nodePath, out);
+  }
+}
+
+function normalizeTriggers(raw: unknown): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  if (!isMapping(raw)) return result;
+
+  for (const [type, def] of Object.entries(raw)) {
+    // knowledge_triggers: { pitfall: [...] } or sink_triggers: { pitfall: { keywords: [...] } }
+    const keywords = Array.isArray(def) ? toStringArray(def) : isMapping(def) ? toStringArray(def.keywords) : [];
+    if (keywords.length > 0) {
+      result[type.replace(/_/g, '-')] = keywords;
+    }
+  }
+  return result;
+}
+
+function normalizeMatching(raw: unknown): MatchingOptions {
+  if (!isMapping(raw)) return { ...DEFAULT_MATCHING };
+  return {
+    case_sensitive: typeof raw.case_sensitive === 'boolean' ? raw.case_sensitive : DEFAULT_MATCHING.case_sensitive,
+    multi_keyword_boost:
+      typeof raw.multi_keyword_boost === 'number' ? raw.multi_keyword_boost : DEFAULT_MATCHING.multi_keyword_boost,
+    min_confidence: typeof raw.min_confidence === 'number' ? raw.min_confidence : DEFAULT_MATCHING.min_confidence,
+  };
+}
+
+/**
+ * Normalize a parsed biz-keywords.yaml document (flat or nested) into KeywordConfig
+ */
+export function normalizeKeywordConfig(raw: Record<string, unknown>): KeywordConfig {
+  const productLines: ProductLineNode[] = [];
+  collectProductLines(raw.product_lines, [], productLines);
+
+  return {
+    task_types: normalizeTaskTypes(raw.task_types),
+    product_lines: productLines,
+    knowledge_triggers: normalizeTriggers(raw.knowledge_triggers ?? raw.sink_triggers),
+    matching: normalizeMatching(raw.matching),
+  };
+}
+
+/**
+ * Layer extra task-type keywords, product lines and knowledge triggers (e.g.
+ * from a project's .ai-agent-entrance.yaml) over `base`. Keywords are appended
+ * to the matching task type or trigger; a given weight replaces the base weight.
+ */
+export function mergeKeywordConfig(
+  base: KeywordConfig,
+  extra: {
+    task_types?: Record<string, { keywords: string[]; weight?: number }>;
+    product_lines?: Record<string, unknown>;
+    knowledge_triggers?: Record<string, string[]>;
+  }
+): KeywordConfig {
+  const taskTypes: Record<string, TaskTypeKeywords> = { ...base.task_types };
+  for (const [id, def] of Object.entries(extra.task_types || {})) {
+    // Match across id spellings (bug_fix / bugfix / bug-fix)
+    const key = Object.keys(taskTypes).find(k => normalizeTaskType(k) === normalizeTaskType(id)) ?? id;
+    const current = taskTypes[key];
+    taskTypes[key] = {
+      ...current,
+      keywords: [...new Set([...(current?.keywords || []), ...def.keywords])],
+      weight: def.weight ?? current?.weight ?? 1,
+    };
+  }
+
+  const productLines = base.product_lines.map(node => ({ ...node }));
+  const added: ProductLineNode[] = [];
+  collectProductLines(extra.product_lines, [], added);
+  for (const node of added) {
+    const existing = productLines.find(n => n.id === node.id);
+    if (existing) {
+      existing.keywords = [...new Set([...existing.keywords, ...node.keywords])];
+    } else {
+      productLines.push(node);
+    }
+  }
+
+  const triggers: Record<string, string[]> = { ...base.knowledge_triggers };
+  for (const [type, keywords] of Object.entries(normalizeTriggers(extra.knowledge_triggers))) {
+    triggers[type] = [...new Set([...(triggers[type] || []), ...keywords])];
+  }
+
+  return { ...base, task_types: taskTypes, product_lines: productLines, knowledge_triggers: triggers };
+}
+
+export function getDefaultKeywordConfig(): KeywordConfig {
+  return normalizeKeywordConfig(DEFAULT_KEYWORDS);
+}
+
+/**
+ * Load config/biz-keywords.yaml, falling back to inline defaults
+ */
+export function loadKeywordConfig(configPath?: string): KeywordConfig {
+  const path = configPath || join(getPluginRoot(), 'config', 'biz-keywords.yaml');
+
+  try {
+    if (existsSync(path)) {
+      const loaded = parseYaml(readFileSync(path, 'utf-8'));
+      if (isMapping(loaded)) {
+        const config = normalizeKeywordConfig(loaded);
+        if (Object.keys(config.task_types).length > 0) {
+          return config;
+        }
+      }
+
+      console.error('[routing] biz-keywords.yaml has no task_types, using defaults');
+    }
+  } catch (err) {
+    console.error('[routing] Failed to load biz-keywords.yaml:', err);
+  }
+  return getDefaultKeywordConfig();
+}
+
+// ============================================================================
+// Keyword Search
+// ============================================================================
+
+const WORD_CHAR = /[A-Za-z0-9_]/;
+
+/**
+ * Index of the first occurrence of `needle` in `haystack` at or after `from`,
+ * or -1. An ASCII word character at either end of the needle must sit on a
+ * word boundary, so `tps` does not match inside `https` nor `bug` inside
+ * `debug`; CJK text has no word boundaries and matches as a substring.
+ */
+export function indexOfKeyword(haystack: string, needle: string, from: number = 0): number {
+  if (!needle) return -1;
+  const boundedStart = WORD_CHAR.test(needle[0]);
+  const boundedEnd = WORD_CHAR.test(needle[needle.length - 1]);
+
+  let index = haystack.indexOf(needle, from);
+  while (index !== -1) {
+    const end = index + needle.length;
+    if (
+      (!boundedStart || index === 0 || !WORD_CHAR.test(haystack[index - 1])) &&
+      (!boundedEnd || end === haystack.length || !WORD_CHAR.test(haystack[end]))
+    ) {
+      return index;
+    }
+    index = haystack.indexOf(needle, index + 1);
+  }
+  return -1;
+}
+
+// ============================================================================
+// Product Line Matching
+// ============================================================================
+
+/**
+ * Find the most specific product line mentioned in `input`.
+ *
+ * A node scores one point per matched keyword, plus the points of its
+ * ancestors, so `exchange/core` outranks `exchange` when both match. Ties go
+ * to the deeper node. Confidence weighs the winner's keywords against all
+ * product-line keywords found in the input.
+ */
+export function matchProductLine(config: KeywordConfig, input: string): ProductLineMatch | undefined {
+  const { case_sensitive, multi_keyword_boost, min_confidence } = config.matching;
+  const haystack = case_sensitive ? input : input.toLowerCase();
+
+  const own = new Map<string, string[]>();
+  for (const node of config.product_lines) {
+    const hits = node.keywords.filter(k => indexOfKeyword(haystack, case_sensitive ? k : k.toLowerCase()) !== -1);
+    if (hits.length > 0) own.set(node.id, hits);
+  }
+  if (own.size === 0) return undefined;
+
+  let best: { node: ProductLineNode; keywords: string[] } | null = null;
+  let total = 0;
+
+  for (const node of config.product_lines) {
+    if (!own.has(node.id)) continue;
+
+    const keywords: string[] = [];
+    for (let depth = 1; depth <= node.path.length; depth++) {
+      keywords.push(...(own.get(node.path.slice(0, depth).join('/')) || []));
+    }
+    total += own.get(node.id)!.length;
+
+    if (
+      !best ||
+      keywords.length > best.keywords.length ||
+      (keywords.length === best.keywords.length && node.path.length > best.node.path.length)
+    ) {
+      best = { node, keywords };
+    }
+  }
+
+  const n = best!.keywords.length;
+
+  return {
+    product_line: best!.node.id,
+    confidence: evidenceConfidence(n / total, n, config.matching),
+    knowledge_path: best!.node.knowledge_path,
+    keywords: best!.keywords,
+  };
+}
+
+/**
+ * Confidence for a winner backed by `keywordCount` keywords holding `share`
+ * (0-1) of all evidence: one keyword is worth min_confidence, each extra
+ * keyword multiplies it by multi_keyword_boost, capped at 1.
+ */
+export function evidenceConfidence(share: number, keywordCount: number, matching: MatchingOptions): number {
+  if (keywordCount === 0) return 0;
+  const strength = Math.min(1, matching.min_confidence * Math.pow(matching.multi_keyword_boost, keywordCount - 1));
+  return parseFloat((strength * Math.min(1, share)).toFixed(2));
+}
@@ -0,0 +1,113 @@
+/**
+ * Keyword matching with span evidence, negation handling and normalized scoring
+ */
+
+import { normalizeTaskType, indexOfKeyword } from './keyword-config.js';
+import type { KeywordConfig } from './keyword-config.js';
+import type { KeywordMatch, TaskType, TaskTypeCandidate } from '../../shared/types.js';
+
+// ============================================================================
+// Negation
+// ============================================================================
+
+// Clause boundaries: a negation never reaches across these
+const CLAUSE_BOUNDARY = /[,.;:!?，。；：！？、\n]/;
+
+// "don't refactor", "do not touch", "without any migration"
+const EN_NEGATION = /\b(?:don'?t|do not|doesn'?t|does not|not|no|never|without|avoid|skip)\b(?:\s+[\w-]+){0,2}\s*$/i;
+
+// "不要重构", "别改造", "无需迁移", "不需要大规模重构"
+const ZH_NEGATION = /(?:不要|不用|不需要|不必|不想|不再|无需|别|勿|避免|没有)[一-龥]{0,4}\s*$/;
+
+/**
+ * Whether the keyword starting at `start` is negated within its clause
+ */
+export function isNegatedAt(input: string, start: number): boolean {
+  let clauseStart = start;
+  while (clauseStart > 0 && !CLAUSE_BOUNDARY.test(input[clauseStart - 1])) {
+    clauseStart--;
+  }
+
+  const prefix = input.slice(Math.max(clauseStart, start - 24), start);
+  return EN_NEGATION.test(prefix) || ZH_NEGATION.test(prefix);
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Find every occurrence of every task-type keyword in `input`, ASCII keywords
+ * as whole words only. Returned spans index into the original input; spans
+ * fully covered by a longer keyword of the same category are dropped.
+ */
+export function findKeywordMatches(config: KeywordConfig, input: string): KeywordMatch[] {
+  const caseSensitive = config.matching.case_sensitive;
+  const haystack = caseSensitive ? input : input.toLowerCase();
+  const matches: KeywordMatch[] = [];
+
+  for (const [category, def] of Object.entries(config.task_types)) {
+    const found: KeywordMatch[] = [];
+
+    for (const keyword of def.keywords) {
+      const needle = caseSensitive ? keyword : keyword.toLowerCase();
+      if (!needle) continue;
+
+      let index = indexOfKeyword(haystack, needle);
+      while (index !== -1) {
+        found.push({
+          keyword,
+          category,
+          weight: def.weight || 1,
+          start: index,
+          end: index + needle.length,
+          text: input.slice(index, index + needle.length),
+          negated: isNegatedAt(haystack, index),
+        });
+        index = indexOfKeyword(haystack, needle, index + needle.length);
+      }
+    }
+
+    for (const m of found) {
+      const covered = found.some(
+        o => o !== m && o.start <= m.start && o.end >= m.end && o.end - o.start > m.end - m.start
+      );
+      if (!covered) matches.push(m);
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Rank task types by the summed weight of their non-negated keywords.
+ * Scores are normalized so that all candidates sum to 1.
+ */
+export function rankTaskTypes(matches: KeywordMatch[]): TaskTypeCandidate[] {
+  const byType = new Map<TaskType, { raw: number; evidence: KeywordMatch[] }>();
+
+  for (const match of matches) {
+    if (match.negated) continue;
+    const taskType = normalizeTaskType(match.category);
+    const entry = byType.get(taskType) || { raw: 0, evidence: [] };
+    entry.raw += match.weight;
+    entry.evidence.push(match);
+    byType.set(taskType, entry);
+  }
+
+  const total = [...byType.values()].reduce((sum, e) => sum + e.raw, 0);
+
+  // Stable sort keeps first-mentioned order for equal scores
+  return [...byType.entries()]
+    .map(([task_type, e]) => ({
+      task_type,
+      score: total > 0 ? parseFloat((e.raw / total).toFixed(2)) : 0,
+      raw_score: e.raw,
+      evidence: e.evidence,
+    }))
+    .sort((a, b) => b.raw_score - a.raw_score);
+}
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { loadRouteConfig, validateRouteConfig, RouteEvaluator } from './route-rules.js';
+import { getDefaultKeywordConfig } from './keyword-config.js';
+import { findKeywordMatches } from './keyword-matcher.js';
+import { classifyByKeywords } from './strategies.js';
+import type { RouteConfig } from './route-rules.js';
+
+const SHIPPED_CONFIG = fileURLToPath(
+  new URL('../../../plugins/ai-agent-entrance/config/workflow-routes.yaml', import.meta.url)
+);
+
+function validConfig(): RouteConfig {
+  const { config, errors } = validateRouteConfig({
+    tools: {
+      openspec: { display_name: 'OpenSpec', install_cmd: 'claude plugin install openspec' },
+      speckit: { install_cmd: null },
+      plan: { install_cmd: null },
+    },
+    routes: [
+      {
+        name: 'Legacy',
+        match: { task_types: ['optimization'], keywords: ['重构'] },
+        recommend: { primary: 'openspec', fallback: 'plan' },
+        tips: ['Write the proposal first'],
+      },
+      {
+        name: 'Spec',
+        match: { keywords: ['spec', '需求明确'] },
+        recommend: { primary: 'speckit', fallback: null },
+      },
+      {
+        name: 'Quick fix',
+        match: { task_types: ['bugfix'], keywords: ['bug'] },
+        recommend: { primary: 'plan' },
+      },
+    ],
+    superpowers_priority: { applies_to: ['new_project', 'bugfix'], message: 'Superpowers first' },
+  });
+  assert.deepEqual(errors, []);
+  return config!;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+test('validateRouteConfig fills defaults', () => {
+  const config = validConfig();
+  assert.equal(config.tools.speckit.display_name, 'speckit');
+  assert.equal(config.routes[1].recommend.fallback, null);
+  assert.deepEqual(config.routes[1].match.task_types, []);
+  assert.deepEqual(config.routes[2].tips, []);
+  assert.equal(config.superpowers_priority!.enabled, true);
+});
+
+test('validateRouteConfig reports every error with its path', () => {
+  const { config, errors } = validateRouteConfig({
+    tools: { plan: { priority: 'high' } },
+    routes: [
+      { name: 'A', match: { keywords: ['x'] }, recommend: { primary: 'foo' } },
+      { name: '', match: {}, recommend: { primary: 'plan', fallback: 3 }, tips: 'tip' },
+      'rule',
+    ],
+    superpowers_priority: { enabled: 'yes' },
+  });
+
+  assert.equal(config, null);
+  assert.deepEqual(errors, [
+    'tools.plan.priority: expected a number',
+    'routes[0].recommend.primary: unknown tool "foo" (not defined under tools)',
+    'routes[1].name: required non-empty string',
+    'routes[1].match: at least one task_type or keyword is required',
+    'routes[1].recommend.fallback: expected a tool name or null',
+    'routes[1].tips: expected an array of strings',
+    'routes[2]: expected a mapping',
+    'superpowers_priority.enabled: expected a boolean',
+  ]);
+});
+
+test('validateRouteConfig rejects a document without tools or routes', () => {
+  assert.deepEqual(validateRouteConfig([]).errors, ['<root>: expected a mapping']);
+  assert.deepEqual(validateRouteConfig({}).errors, [
+    'tools: expected a mapping of tool name to definition',
+    'routes: expected a list of rules',
+  ]);
+});
+
+test('the shipped workflow-routes.yaml is valid', () => {
+  const config = loadRouteConfig(SHIPPED_CONFIG);
+  assert.ok(config);
+  assert.ok(config.routes.length > 0);
+});
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+test('evaluate returns the first rule matching the task type', () => {
+  const evaluator = new RouteEvaluator(validConfig());
+
+  const match = evaluator.evaluate('optimization', 'speed up the spec parser');
+  assert.equal(match!.rule.name, 'Legacy');
+  assert.equal(match!.matched_task_type, true);
+  assert.deepEqual(match!.matched_keywords, []);
+
+  // Snake-case ids in the file match the canonical task types
+  assert.equal(evaluator.evaluate('bug-fix', 'crash on start')!.rule.name, 'Quick fix');
+});
+
+test('evaluate matches keywords when the task type does not', () => {
+  const evaluator = new RouteEvaluator(validConfig());
+
+  const match = evaluator.evaluate('feature', 'follow the spec for 需求明确的接口');
+  assert.equal(match!.rule.name, 'Spec');
+  assert.equal(match!.matched_task_type, false);
+  assert.deepEqual(match!.matched_keywords, ['spec', '需求明确']);
+
+  assert.equal(evaluator.evaluate('feature', '先重构再加功能')!.rule.name, 'Legacy');
+  assert.equal(evaluator.evaluate('feature', 'add an export button'), null);
+});
+
+test('evaluate matches ASCII keywords as whole words only', () => {
+  const evaluator = new RouteEvaluator(validConfig());
+
+  assert.equal(evaluator.evaluate('feature', 'inspect the debug output'), null);
+  assert.equal(evaluator.evaluate('feature', 'write a spec.')!.rule.name, 'Spec');
+  assert.equal(evaluator.evaluate('research', 'found a bug')!.rule.name, 'Quick fix');
+});
+
+test('task-type keywords match ASCII words only as whole words', () => {
+  const keywords = getDefaultKeywordConfig();
+
+  // "fix" inside "prefix", "bug" inside "debug", "add" inside "address"
+  assert.equal(classifyByKeywords(keywords, 'add an index to the prefix table').task_type, 'feature');
+  assert.deepEqual(findKeywordMatches(keywords, 'please debug the address parser'), []);
+
+  const spans = findKeywordMatches(keywords, 'fix the bug, then add tests; 修复后再添加');
+  assert.deepEqual(spans.map(m => m.text), ['fix', 'bug', 'add', '修复', '添加']);
+  assert.equal(classifyByKeywords(keywords, 'fix the login bug').task_type, 'bug-fix');
+});
+
+test('evaluate skips negated keywords', () => {
+  const evaluator = new RouteEvaluator(validConfig());
+
+  assert.equal(evaluator.evaluate('feature', "don't refactor, no spec needed"), null);
+  assert.equal(evaluator.evaluate('feature', '不要重构，只加功能'), null);
+  // The negation does not reach across the clause boundary
+  assert.equal(evaluator.evaluate('feature', '不要重构，按 spec 实现')!.rule.name, 'Spec');
+});
+
+test('superpowersApplies follows superpowers_priority', () => {
+  const evaluator = new RouteEvaluator(validConfig());
+  assert.equal(evaluator.superpowersApplies('new-project'), true);
+  assert.equal(evaluator.superpowersApplies('bug-fix'), true);
+  assert.equal(evaluator.superpowersApplies('research'), false);
+
+  const disabled = validConfig();
+  disabled.superpowers_priority!.enabled = false;
+  assert.equal(new RouteEvaluator(disabled).superpowersApplies('new-project'), false);
+});
@@ -0,0 +1,314 @@
+/**
+ * Declarative route rules loaded from config/workflow-routes.yaml
+ *
+ * Rules are evaluated in file order; the first rule whose task_types or
+ * keywords match the analyzed prompt decides the recommended workflow.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getPluginRoot } from '../../shared/config.js';
+import { normalizeTaskType, indexOfKeyword } from './keyword-config.js';
+import { isNegatedAt } from './keyword-matcher.js';
+import type { TaskType, WorkflowType } from '../../shared/types.js';
+
+// ============================================================================
+// Config Types
+// ============================================================================
+
+export interface ToolDefinition {
+  display_name: string;
+  description: string;
+  install_cmd: string | null;
+  check_cmd: string | null;
+  priority: number;
+  features: string[];
+}
+
+export interface RouteRule {
+  name: string;
+  match: {
+    task_types: string[];
+    keywords: string[];
+  };
+  recommend: {
+    primary: WorkflowType;
+    fallback: WorkflowType | null;
+  };
+  tips: string[];
+}
+
+export interface SuperpowersPriority {
+  enabled: boolean;
+  applies_to: string[];
+  message: string;
+}
+
+export interface RouteConfig {
+  tools: Record<string, ToolDefinition>;
+  routes: RouteRule[];
+  superpowers_priority: SuperpowersPriority | null;
+}
+
+export interface RouteMatch {
+  rule: RouteRule;
+  matched_task_type: boolean;
+  matched_keywords: string[];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validateTools(raw: unknown, errors: string[]): Record<string, ToolDefinition> {
+  const tools: Record<string, ToolDefinition> = {};
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('tools: expected a mapping of tool name to definition');
+    return tools;
+  }
+
+  for (const [name, def] of Object.entries(raw as Record<string, unknown>)) {
+    const path = `tools.${name}`;
+    if (!def || typeof def !== 'object' || Array.isArray(def)) {
+      errors.push(`${path}: expected a mapping`);
+      continue;
+    }
+
+    const d = def as Record<string, unknown>;
+    if (d.install_cmd !== null && d.install_cmd !== undefined && typeof d.install_cmd !== 'string') {
+      errors.push(`${path}.install_cmd: expected a string or null`);
+    }
+    if (d.check_cmd !== null && d.check_cmd !== undefined && typeof d.check_cmd !== 'string') {
+      errors.push(`${path}.check_cmd: expected a string or null`);
+    }
+    if (d.priority !== undefined && typeof d.priority !== 'number') {
+      errors.push(`${path}.priority: expected a number`);
+    }
+    if (d.features !== undefined && !isStringArray(d.features)) {
+      errors.push(`${path}.features: expected an array of strings`);
+    }
+
+    tools[name] = {
+      display_name: typeof d.display_name === 'string' ? d.display_name : name,
+      description: typeof d.description === 'string' ? d.description : '',
+      install_cmd: typeof d.install_cmd === 'string' ? d.install_cmd : null,
+      check_cmd: typeof d.check_cmd === 'string' ? d.check_cmd : null,
+      priority: typeof d.priority === 'number' ? d.priority : 0,
+      features: isStringArray(d.features) ? d.features : [],
+    };
+  }
+
+  return tools;
+}
+
+function validateRoute(
+  raw: unknown,
+  index: number,
+  tools: Record<string, ToolDefinition>,
+  errors: string[]
+): RouteRule | null {
+  const path = `routes[${index}]`;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`${path}: expected a mapping`);
+    return null;
+  }
+
+  const r = raw as Record<string, unknown>;
+  const before = errors.length;
+
+  if (typeof r.name !== 'string' || !r.name.trim()) {
+    errors.push(`${path}.name: required non-empty string`);
+  }
+
+  const match = r.match as Record<string, unknown> | undefined;
+  if (!match || typeof match !== 'object' || Array.isArray(match)) {
+    errors.push(`${path}.match: expected a mapping with task_types and/or keywords`);
+  } else {
+    if (match.task_types !== undefined && !isStringArray(match.task_types)) {
+      errors.push(`${path}.match.task_types: expected an array of strings`);
+    }
+    if (match.keywords !== undefined && !isStringArray(match.keywords)) {
+      errors.push(`${path}.match.keywords: expected an array of strings`);
+    }
+    const taskTypes = isStringArray(match.task_types) ? match.task_types : [];
+    const keywords = isStringArray(match.keywords) ? match.keywords : [];
+    if (taskTypes.length === 0 && keywords.length === 0) {
+      errors.push(`${path}.match: at least one task_type or keyword is required`);
+    }
+  }
+
+  const recommend = r.recommend as Record<string, unknown> | undefined;
+  if (!recommend || typeof recommend !== 'object' || Array.isArray(recommend)) {
+    errors.push(`${path}.recommend: expected a mapping with primary and fallback`);
+  } else {
+    if (typeof recommend.primary !== 'string') {
+      errors.push(`${path}.recommend.primary: required tool name`);
+    } else if (!tools[recommend.primary]) {
+      errors.push(`${path}.recommend.primary: unknown tool "${recommend.primary}" (not defined under tools)`);
+    }
+    if (recommend.fallback !== null && recommend.fallback !== undefined) {
+      if (typeof recommend.fallback !== 'string') {
+        errors.push(`${path}.recommend.fallback: expected a tool name or null`);
+      } else if (!tools[recommend.fallback]) {
+        errors.push(`${path}.recommend.fallback: unknown tool "${recommend.fallback}" (not defined under tools)`);
+      }
+    }
+  }
+
+  if (r.tips !== undefined && !isStringArray(r.tips)) {
+    errors.push(`${path}.tips: expected an array of strings`);
+  }
+
+  if (errors.length > before) {
+    return null;
+  }
+
+  return {
+    name: r.name as string,
+    match: {
+      task_types: (match!.task_types as string[] | undefined) || [],
+      keywords: (match!.keywords as string[] | undefined) || [],
+    },
+    recommend: {
+      primary: recommend!.primary as WorkflowType,
+      fallback: (recommend!.fallback as WorkflowType | null | undefined) ?? null,
+    },
+    tips: (r.tips as string[] | undefined) || [],
+  };
+}
+
+function validateSuperpowersPriority(raw: unknown, errors: string[]): SuperpowersPriority | null {
+  if (raw === undefined || raw === null) {
+    return null;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push('superpowers_priority: expected a mapping');
+    return null;
+  }
+
+  const s = raw as Record<string, unknown>;
+  if (s.enabled !== undefined && typeof s.enabled !== 'boolean') {
+    errors.push('superpowers_priority.enabled: expected a boolean');
+  }
+  if (s.applies_to !== undefined && !isStringArray(s.applies_to)) {
+    errors.push('superpowers_priority.applies_to: expected an array of strings');
+  }
+  if (s.message !== undefined && typeof s.message !== 'string') {
+    errors.push('superpowers_priority.message: expected a string');
+  }
+
+  return {
+    enabled: s.enabled !== false,
+    applies_to: isStringArray(s.applies_to) ? s.applies_to : [],
+    message: typeof s.message === 'string' ? s.message : '',
+  };
+}
+
+/**
+ * Validate a parsed workflow-routes.yaml document.
+ * Errors carry the YAML path of the offending node, e.g.
+ * `routes[2].recommend.primary: unknown tool "foo"`.
+ */
+export function validateRouteConfig(raw: unknown): { config: RouteConfig | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config: null, errors: ['<root>: expected a mapping'] };
+  }
+
+  const doc = raw as Record<string, unknown>;
+  const tools = validateTools(doc.tools, errors);
+
+  const routes: RouteRule[] = [];
+  if (!Array.isArray(doc.routes)) {
+    errors.push('routes: expected a list of rules');
+  } else {
+    doc.routes.forEach((r, i) => {
+      const rule = validateRoute(r, i, tools, errors);
+      if (rule) routes.push(rule);
+    });
+  }
+
+  const superpowers = validateSuperpowersPriority(doc.superpowers_priority, errors);
+
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  return { config: { tools, routes, superpowers_priority: superpowers }, errors };
+}
+
+/**
+ * Load and validate config/workflow-routes.yaml.
+ * Returns null (and logs every validation error) when the file is missing or malformed.
+ */
+export function loadRouteConfig(configPath?: string): RouteConfig | null {
+  const path = configPath || join(getPluginRoot(), 'config', 'workflow-routes.yaml');
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const { config, errors } = validateRouteConfig(parseYaml(readFileSync(path, 'utf-8')));
+    if (!config) {
+      console.error(`[routing] Rejected ${path}:`);
+      for (const error of errors) {
+        console.error(`[routing]   ${error}`);
+      }
+    }
+    return config;
+  } catch (err) {
+    console.error(`[routing] Failed to parse ${path}:`, err);
+    return null;
+  }
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+export class RouteEvaluator {
+  constructor(private config: RouteConfig) {}
+
+  getConfig(): RouteConfig {
+    return this.config;
+  }
+
+  getTool(name: string): ToolDefinition | undefined {
+    return this.config.tools[name];
+  }
+
+  /**
+   * Evaluate rules in order and return the first match.
+   * `input` must already be lower-cased.
+   */
+  evaluate(taskType: TaskType, input: string): RouteMatch | null {
+    for (const rule of this.config.routes) {
+      const matchedTaskType = rule.match.task_types.some(t => normalizeTaskType(t) === taskType);
+      const matchedKeywords = rule.match.keywords.filter(k => {
+        const index = indexOfKeyword(input, k.toLowerCase());
+        return index !== -1 && !isNegatedAt(input, index);
+      });
+
+      if (matchedTaskType || matchedKeywords.length > 0) {
+        return { rule, matched_task_type: matchedTaskType, matched_keywords: matchedKeywords };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether Superpowers should take over the given task type
+   */
+  superpowersApplies(taskType: TaskType): boolean {
+    const priority = this.config.superpowers_priority;
+    if (!priority || !priority.enabled) return false;
+    return priority.applies_to.some(t => normalizeTaskType(t) === taskType);
+  }
+}
@@ -0,0 +1,137 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDefaultKeywordConfig } from './keyword-config.js';
+import { validateRouteConfig, RouteEvaluator } from './route-rules.js';
+import { KeywordStrategy, RuleStrategy, LlmStrategy } from './strategies.js';
+import type { CompressorService } from '../ai/compressor.js';
+import type { RoutingClassification } from '../../shared/types.js';
+
+const keywords = getDefaultKeywordConfig();
+
+function evaluator(): RouteEvaluator {
+  const { config, errors } = validateRouteConfig({
+    tools: { openspec: { display_name: 'OpenSpec' }, plan: {} },
+    routes: [
+      {
+        name: 'Hotfix',
+        match: { keywords: ['hotfix'] },
+        recommend: { primary: 'openspec', fallback: 'plan' },
+        tips: ['Keep the change small'],
+      },
+    ],
+  });
+  assert.deepEqual(errors, []);
+  return new RouteEvaluator(config!);
+}
+
+/**
+ * Compressor double whose routing verdict is fixed (null when AI is unavailable)
+ */
+function classifier(verdict: RoutingClassification | null, enabled: boolean = true) {
+  const requests: { task_types: string[]; workflows: { name: string }[] }[] = [];
+  const compressor = {
+    isEnabled: () => enabled,
+    classifyRouting: async (_input: string, options: (typeof requests)[number]) => {
+      requests.push(options);
+      return verdict;
+    },
+  } as unknown as CompressorService;
+  return { compressor, requests };
+}
+
+// ============================================================================
+// Keyword and rule strategies
+// ============================================================================
+
+test('the keyword strategy maps the ranked task type onto its built-in workflow', async () => {
+  const decision = await new KeywordStrategy(keywords).decide('fix the login bug');
+
+  assert.equal(decision.strategy, 'keywords');
+  assert.equal(decision.task_type, 'bug-fix');
+  assert.equal(decision.workflow, 'plan');
+  assert.equal(decision.fallback, null);
+  assert.equal(decision.route, null);
+  assert.ok(decision.evidence.some(m => m.keyword === 'bug'));
+});
+
+test('the keyword strategy asks for clarification without evidence', async () => {
+  const decision = await new KeywordStrategy(keywords).decide('hello there');
+
+  assert.equal(decision.task_type, 'unknown');
+  assert.equal(decision.confidence, 0);
+  assert.equal(decision.workflow, 'plan');
+  assert.deepEqual(decision.candidates, []);
+});
+
+test('the rule strategy prefers a matching route and keeps its tips', async () => {
+  const strategy = new RuleStrategy(keywords, evaluator());
+
+  const routed = await strategy.decide('ship a hotfix for the bug');
+  assert.equal(routed.strategy, 'rules');
+  assert.equal(routed.task_type, 'bug-fix');
+  assert.equal(routed.workflow, 'openspec');
+  assert.equal(routed.fallback, 'plan');
+  assert.equal(routed.route!.rule.name, 'Hotfix');
+  assert.deepEqual(routed.tips, ['Keep the change small']);
+  assert.match(routed.headline, /Hotfix.*OpenSpec/);
+
+  // Without a matching rule (or without workflow-routes.yaml) it agrees with the keyword strategy
+  const unrouted = await strategy.decide('fix the login bug');
+  assert.equal(unrouted.route, null);
+  assert.equal(unrouted.workflow, 'plan');
+  assert.equal((await new RuleStrategy(keywords, null).decide('ship a hotfix for the bug')).workflow, 'plan');
+});
+
+// ============================================================================
+// LLM strategy
+// ============================================================================
+
+test('the llm strategy uses the verdict within the offered vocabulary', async () => {
+  const { compressor, requests } = classifier({
+    task_type: 'new_project',
+    workflow: 'openspec',
+    confidence: 1.7,
+    reason: 'greenfield service',
+  });
+  const decision = await new LlmStrategy(compressor, new KeywordStrategy(keywords), evaluator()).decide('fix the bug');
+
+  assert.equal(decision.strategy, 'llm');
+  assert.equal(decision.fallback_from, undefined);
+  assert.equal(decision.task_type, 'new-project');
+  assert.equal(decision.workflow, 'openspec');
+  assert.equal(decision.confidence, 1);
+  assert.match(decision.headline, /greenfield service.*OpenSpec/);
+  // Keyword evidence is still reported next to the verdict
+  assert.ok(decision.evidence.some(m => m.keyword === 'bug'));
+
+  // The model is offered the configured tools and the built-in task types
+  assert.deepEqual(requests[0].workflows.map(w => w.name), ['openspec', 'plan']);
+  assert.ok(requests[0].task_types.includes('bug-fix'));
+});
+
+test('the llm strategy flags a low-confidence verdict', async () => {
+  const { compressor } = classifier({ task_type: 'research', workflow: 'plan', confidence: 0.3, reason: 'vague' });
+  const decision = await new LlmStrategy(compressor, new KeywordStrategy(keywords), null).decide('look into it');
+
+  assert.equal(decision.task_type, 'research');
+  assert.equal(decision.fallback, null);
+  assert.equal(decision.clarification, 'low_confidence');
+});
+
+test('the llm strategy falls back to keywords when AI is unavailable or answers off-vocabulary', async () => {
+  const verdict = { task_type: 'feature', workflow: 'superpowers', confidence: 0.9, reason: 'new endpoint' };
+  const cases = [
+    classifier(verdict, false),
+    classifier(null),
+    classifier({ ...verdict, task_type: 'chore' }),
+    classifier({ ...verdict, workflow: 'jira' }),
+  ];
+
+  for (const { compressor } of cases) {
+    const decision = await new LlmStrategy(compressor, new KeywordStrategy(keywords), null).decide('fix the login bug');
+    assert.equal(decision.strategy, 'keywords');
+    assert.equal(decision.fallback_from, 'llm');
+    assert.equal(decision.task_type, 'bug-fix');
+  }
+  assert.equal(cases[0].requests.length, 0, 'no request while AI is disabled');
+});
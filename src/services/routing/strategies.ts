@@ -0,0 +1,261 @@
+/**
+ * Routing strategies behind RoutingService.analyze
+ *
+ * - keywords: weighted keyword ranking + built-in task type → workflow mapping
+ * - rules:    keyword ranking + workflow-routes.yaml rules (default)
+ * - llm:      model classification via CompressorService, falls back to keywords
+ */
+
+import { evidenceConfidence, normalizeTaskType } from './keyword-config.js';
+import type { KeywordConfig } from './keyword-config.js';
+import { findKeywordMatches, rankTaskTypes } from './keyword-matcher.js';
+import type { RouteEvaluator, RouteMatch } from './route-rules.js';
+import type { CompressorService } from '../ai/compressor.js';
+import type {
+  TaskType,
+  WorkflowType,
+  KeywordMatch,
+  TaskTypeCandidate,
+  RoutingStrategyName,
+} from '../../shared/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What a strategy decides on its own, before installed tools and history are applied
+ */
+export interface RoutingDecision {
+  strategy: RoutingStrategyName;
+  fallback_from?: RoutingStrategyName;  // set when the requested strategy was unavailable
+  task_type: TaskType;
+  confidence: number;
+  candidates: TaskTypeCandidate[];
+  evidence: KeywordMatch[];
+  clarification?: 'tie' | 'low_confidence';
+  workflow: WorkflowType;
+  fallback: WorkflowType | null;
+  route: RouteMatch | null;
+  tips: string[];
+  headline: string;
+}
+
+export interface RoutingStrategy {
+  readonly name: RoutingStrategyName;
+  decide(input: string): Promise<RoutingDecision>;
+}
+
+// ============================================================================
+// Workflow Mapping (used when workflow-routes.yaml is missing or no rule matches)
+// ============================================================================
+
+export const WORKFLOW_MAPPING: Record<TaskType, WorkflowType> = {
+  'new-project': 'bmad',
+  optimization: 'openspec',
+  refactor: 'superpowers',
+  'bug-fix': 'plan',
+  feature: 'superpowers',
+  research: 'plan',
+  tdd: 'superpowers',
+  unknown: 'plan',
+};
+
+// ============================================================================
+// Keyword Classification
+// ============================================================================
+
+interface KeywordClassification {
+  task_type: TaskType;
+  confidence: number;
+  candidates: TaskTypeCandidate[];
+  evidence: KeywordMatch[];
+  matches: KeywordMatch[];
+  clarification?: 'tie' | 'low_confidence';
+}
+
+/**
+ * Rank task types from keyword spans (negated ones are kept as evidence but not scored)
+ */
+export function classifyByKeywords(config: KeywordConfig, input: string): KeywordClassification {
+  const evidence = findKeywordMatches(config, input);
+  const candidates = rankTaskTypes(evidence);
+
+  return {
+    task_type: candidates[0]?.task_type ?? 'unknown',
+    evidence,
+    matches: evidence.filter(m => !m.negated),
+    candidates,
+    ...assessConfidence(config, candidates),
+  };
+}
+
+/**
+ * Confidence in the top candidate, and whether the agent should ask instead of guessing:
+ * a tie between the top two candidates, or confidence below matching.min_confidence.
+ */
+function assessConfidence(
+  config: KeywordConfig,
+  candidates: TaskTypeCandidate[]
+): { confidence: number; clarification?: 'tie' | 'low_confidence' } {
+  const [top, second] = candidates;
+  if (!top) {
+    return { confidence: 0 };
+  }
+
+  const keywordCount = new Set(top.evidence.map(m => m.keyword)).size;
+  const confidence = evidenceConfidence(top.score, keywordCount, config.matching);
+
+  if (second && second.raw_score === top.raw_score) {
+    return { confidence, clarification: 'tie' };
+  }
+  if (confidence < config.matching.min_confidence) {
+    return { confidence, clarification: 'low_confidence' };
+  }
+  return { confidence };
+}
+
+function generateReason(taskType: TaskType, matches: KeywordMatch[]): string {
+  const keywordList = [...new Set(matches.map(m => m.keyword))].join(', ');
+
+  const reasons: Record<TaskType, string> = {
+    'new-project': `检测到新项目关键字 (${keywordList})，推荐使用 BMAD 完整流程`,
+    optimization: `检测到优化/重构关键字 (${keywordList})，推荐使用 OpenSpec 变更隔离模式`,
+    refactor: `检测到重构关键字 (${keywordList})，推荐使用 Superpowers SDD+TDD 流程`,
+    'bug-fix': `检测到 bug 修复关键字 (${keywordList})，推荐使用 Plan 模式快速定位`,
+    feature: `检测到功能开发关键字 (${keywordList})，推荐使用 Superpowers SDD+TDD`,
+    research: `检测到调研关键字 (${keywordList})，推荐使用 Plan 模式分析`,
+    tdd: `检测到 TDD 关键字 (${keywordList})，推荐使用 Superpowers SDD+TDD 流程`,
+    unknown: '未检测到明确的任务类型，使用默认 Plan 模式',
+  };
+
+  return reasons[taskType] || reasons.unknown;
+}
+
+// ============================================================================
+// Strategies
+// ============================================================================
+
+export class KeywordStrategy implements RoutingStrategy {
+  readonly name = 'keywords' as const;
+
+  constructor(private keywords: KeywordConfig) {}
+
+  async decide(input: string): Promise<RoutingDecision> {
+    return this.decideSync(input);
+  }
+
+  decideSync(input: string): RoutingDecision {
+    const { matches, ...classification } = classifyByKeywords(this.keywords, input);
+    const workflow = WORKFLOW_MAPPING[classification.task_type];
+
+    return {
+      strategy: this.name,
+      ...classification,
+      workflow,
+      fallback: workflow === 'plan' ? null : 'plan',
+      route: null,
+      tips: [],
+      headline: generateReason(classification.task_type, matches),
+    };
+  }
+}
+
+export class RuleStrategy implements RoutingStrategy {
+  readonly name = 'rules' as const;
+
+  constructor(
+    private keywords: KeywordConfig,
+    private routes: RouteEvaluator | null
+  ) {}
+
+  async decide(input: string): Promise<RoutingDecision> {
+    const { matches, ...classification } = classifyByKeywords(this.keywords, input);
+
+    // Evaluate workflow-routes.yaml rules in order
+    const route = this.routes?.evaluate(classification.task_type, input.toLowerCase()) ?? null;
+    if (!route) {
+      const workflow = WORKFLOW_MAPPING[classification.task_type];
+      return {
+        strategy: this.name,
+        ...classification,
+        workflow,
+        fallback: workflow === 'plan' ? null : 'plan',
+        route: null,
+        tips: [],
+        headline: generateReason(classification.task_type, matches),
+      };
+    }
+
+    const workflow = route.rule.recommend.primary;
+    const keywords = route.matched_keywords.length > 0
+      ? route.matched_keywords
+      : [...new Set(matches.map(m => m.keyword))];
+    const toolName = this.routes?.getTool(workflow)?.display_name || workflow;
+    const detail = keywords.length > 0 ? ` (${keywords.join(', ')})` : '';
+
+    return {
+      strategy: this.name,
+      ...classification,
+      workflow,
+      fallback: route.rule.recommend.fallback,
+      route,
+      tips: [...route.rule.tips],
+      headline: `命中路由规则「${route.rule.name}」${detail}，推荐使用 ${toolName}`,
+    };
+  }
+}
+
+export class LlmStrategy implements RoutingStrategy {
+  readonly name = 'llm' as const;
+
+  constructor(
+    private compressor: CompressorService,
+    private keywordStrategy: KeywordStrategy,
+    private routes: RouteEvaluator | null
+  ) {}
+
+  async decide(input: string): Promise<RoutingDecision> {
+    const keywordDecision = this.keywordStrategy.decideSync(input);
+    const fallback = (): RoutingDecision => ({ ...keywordDecision, fallback_from: this.name });
+
+    if (!this.compressor.isEnabled()) {
+      return fallback();
+    }
+
+    const workflows = this.routes
+      ? Object.entries(this.routes.getConfig().tools).map(([name, t]) => ({ name, description: t.description }))
+      : [...new Set(Object.values(WORKFLOW_MAPPING))].map(name => ({ name, description: '' }));
+    const taskTypes = Object.keys(WORKFLOW_MAPPING);
+
+    const verdict = await this.compressor.classifyRouting(input, { task_types: taskTypes, workflows });
+    if (!verdict) {
+      return fallback();
+    }
+
+    // Reject answers outside the offered vocabulary
+    const taskType = normalizeTaskType(verdict.task_type);
+    if (!taskTypes.includes(taskType) || !workflows.some(w => w.name === verdict.workflow)) {
+      return fallback();
+    }
+
+    const workflow = verdict.workflow as WorkflowType;
+    const confidence = parseFloat(Math.max(0, Math.min(1, verdict.confidence)).toFixed(2));
+    const toolName = this.routes?.getTool(workflow)?.display_name || workflow;
+
+    return {
+      strategy: this.name,
+      task_type: taskType,
+      confidence,
+      candidates: [{ task_type: taskType, score: confidence, raw_score: confidence, evidence: [] }],
+      // Keyword spans are still reported so the verdict can be compared with the matcher
+      evidence: keywordDecision.evidence,
+      clarification: confidence < 0.5 ? 'low_confidence' : undefined,
+      workflow,
+      fallback: workflow === 'plan' ? null : 'plan',
+      route: null,
+      tips: [],
+      headline: `模型判断为 ${taskType}：${verdict.reason}，推荐使用 ${toolName}`,
+    };
+  }
+}
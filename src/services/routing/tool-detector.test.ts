@@ -0,0 +1,56 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ToolDetector } from './tool-detector.js';
+
+let dataDir: string;
+
+const TOOLS = {
+  bmad: { display_name: 'BMAD', check_cmd: 'test -d .bmad' },
+  openspec: { display_name: 'OpenSpec', check_cmd: 'claude plugin list | grep -q openspec || true' },
+  plan: { display_name: 'Plan', check_cmd: null },
+};
+
+before(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-tools-'));
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('file-based checks run in the project directory', async () => {
+  const project = join(dataDir, 'with-bmad');
+  mkdirSync(join(project, '.bmad'), { recursive: true });
+  const detector = new ToolDetector(() => TOOLS);
+
+  const report = await detector.detect(project);
+  assert.deepEqual(report.tools.map(t => [t.name, t.installed, t.error]), [
+    ['bmad', true, undefined],
+    ['openspec', true, undefined],
+    ['plan', false, undefined],
+  ]);
+  assert.equal((await detector.detect(project)).cached, true);
+});
+
+test('file-based checks are reported as unknown without a project directory', async () => {
+  // Detection runs from a directory that would pass the file check
+  const detector = new ToolDetector(() => TOOLS);
+  const cwd = process.cwd();
+  process.chdir(join(dataDir, 'with-bmad'));
+
+  try {
+    const report = await detector.detect('my-project');
+    const bmad = report.tools.find(t => t.name === 'bmad')!;
+    assert.equal(bmad.installed, false);
+    assert.equal(bmad.error, 'project directory not found: my-project');
+
+    // Plugin-list checks do not depend on the project and still run
+    assert.equal(report.tools.find(t => t.name === 'openspec')!.installed, true);
+    assert.deepEqual(await detector.getInstalledTools('my-project'), ['openspec']);
+  } finally {
+    process.chdir(cwd);
+  }
+});
@@ -0,0 +1,190 @@
+/**
+ * Installed workflow tool detection
+ *
+ * Runs each tool's `check_cmd` from workflow-routes.yaml in the project
+ * directory (so file-based checks like `test -d .bmad` see the project), and
+ * caches the results per project. `claude plugin list` is executed at most
+ * once per TTL and its output is shared by every check that pipes it.
+ * When the project directory is unknown only plugin-list checks run; the
+ * others are reported with an error instead of looking at the worker's own
+ * directory.
+ */
+
+import { exec } from 'child_process';
+import { statSync } from 'fs';
+import { tmpdir } from 'os';
+import type { ToolDefinition } from './route-rules.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolStatus {
+  name: string;
+  display_name: string;
+  installed: boolean;
+  check_cmd: string | null;
+  error?: string;  // set when the check could not run (timeout, missing binary)
+}
+
+export interface ToolStatusReport {
+  cwd: string;
+  tools: ToolStatus[];
+  checked_at: string;
+  cached: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+const CHECK_TIMEOUT_MS = 5000;
+
+const PLUGIN_LIST_CMD = 'claude plugin list';
+
+// Check commands reference the cached plugin list through this variable
+const PLUGIN_LIST_ENV = 'AI_ENTRANCE_PLUGIN_LIST';
+
+// Used when workflow-routes.yaml is missing
+const DEFAULT_TOOLS: Record<string, Pick<ToolDefinition, 'display_name' | 'check_cmd'>> = {
+  superpowers: { display_name: 'Superpowers', check_cmd: 'claude plugin list | grep -q superpowers' },
+  'compound-engineering': { display_name: 'Compound Engineering', check_cmd: 'claude plugin list | grep -q compound-engineering' },
+  openspec: { display_name: 'OpenSpec', check_cmd: 'claude plugin list | grep -q openspec' },
+  speckit: { display_name: 'SpecKit', check_cmd: 'claude plugin list | grep -q speckit' },
+  bmad: { display_name: 'BMAD', check_cmd: 'test -d .bmad || test -f bmad.config.js' },
+};
+
+// ============================================================================
+// Shell Helper
+// ============================================================================
+
+function runCheck(
+  command: string,
+  cwd: string | undefined,
+  env: Record<string, string> = {}
+): Promise<{ ok: boolean; stdout: string; error?: string }> {
+  return new Promise(resolve => {
+    exec(
+      command,
+      { cwd, timeout: CHECK_TIMEOUT_MS, encoding: 'utf-8', env: { ...process.env, ...env } },
+      (error, stdout) => {
+        if (!error) {
+          resolve({ ok: true, stdout });
+        } else if (error.killed) {
+          resolve({ ok: false, stdout, error: `timed out after ${CHECK_TIMEOUT_MS}ms` });
+        } else {
+          // Non-zero exit is the normal "not installed" answer
+          resolve({ ok: false, stdout });
+        }
+      }
+    );
+  });
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Detector
+// ============================================================================
+
+export class ToolDetector {
+  private cache = new Map<string, { report: ToolStatusReport; expires: number }>();
+  private inFlight = new Map<string, Promise<ToolStatusReport>>();
+  private pluginList: { output: string; expires: number } | null = null;
+
+  constructor(
+    private getTools: () => Record<string, Pick<ToolDefinition, 'display_name' | 'check_cmd'>> | null,
+    private ttlMs: number = DEFAULT_TTL_MS
+  ) {}
+
+  /**
+   * Tool status for a project directory, served from cache unless `refresh` is set
+   */
+  async detect(cwd: string, refresh: boolean = false): Promise<ToolStatusReport> {
+    const cached = this.cache.get(cwd);
+    if (!refresh && cached && cached.expires > Date.now()) {
+      return { ...cached.report, cached: true };
+    }
+
+    // Concurrent hooks for the same project share one detection run
+    const pending = this.inFlight.get(cwd);
+    if (pending) return pending;
+
+    const run = this.runChecks(cwd, refresh).finally(() => this.inFlight.delete(cwd));
+    this.inFlight.set(cwd, run);
+    return run;
+  }
+
+  async getInstalledTools(cwd: string): Promise<string[]> {
+    const report = await this.detect(cwd);
+    return report.tools.filter(t => t.installed).map(t => t.name);
+  }
+
+  /**
+   * Drop cached results for one project, or everything (including the plugin list)
+   */
+  invalidate(cwd?: string): void {
+    if (cwd) {
+      this.cache.delete(cwd);
+      return;
+    }
+    this.cache.clear();
+    this.pluginList = null;
+  }
+
+  private async runChecks(cwd: string, refreshPluginList: boolean): Promise<ToolStatusReport> {
+    const tools = this.getTools() || DEFAULT_TOOLS;
+    const inProject = isDirectory(cwd);
+
+    const needsPluginList = Object.values(tools).some(t => t.check_cmd?.includes(PLUGIN_LIST_CMD));
+    const pluginList = needsPluginList ? await this.getPluginList(refreshPluginList) : '';
+
+    const statuses = await Promise.all(
+      Object.entries(tools).map(async ([name, tool]): Promise<ToolStatus> => {
+        const base = { name, display_name: tool.display_name, check_cmd: tool.check_cmd };
+        if (!tool.check_cmd) {
+          return { ...base, installed: false };
+        }
+
+        const usesPluginList = tool.check_cmd.includes(PLUGIN_LIST_CMD);
+        if (!inProject && !usesPluginList) {
+          return { ...base, installed: false, error: `project directory not found: ${cwd}` };
+        }
+
+        const command = tool.check_cmd
+          .split(PLUGIN_LIST_CMD)
+          .join(`printf '%s\\n' "$${PLUGIN_LIST_ENV}"`);
+        // Without a project, file tests in a plugin-list check must not see the worker's directory
+        const result = await runCheck(command, inProject ? cwd : tmpdir(), { [PLUGIN_LIST_ENV]: pluginList });
+        return { ...base, installed: result.ok, error: result.error };
+      })
+    );
+
+    const report: ToolStatusReport = {
+      cwd,
+      tools: statuses,
+      checked_at: new Date().toISOString(),
+      cached: false,
+    };
+    this.cache.set(cwd, { report, expires: Date.now() + this.ttlMs });
+    return report;
+  }
+
+  private async getPluginList(refresh: boolean): Promise<string> {
+    if (!refresh && this.pluginList && this.pluginList.expires > Date.now()) {
+      return this.pluginList.output;
+    }
+
+    const result = await runCheck(PLUGIN_LIST_CMD, undefined);
+    const output = result.ok ? result.stdout : '';
+    this.pluginList = { output, expires: Date.now() + this.ttlMs };
+    return output;
+  }
+}
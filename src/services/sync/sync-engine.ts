@@ -118,7 +118,12 @@ export class SyncEngine {
       const assetInput = MarkdownParser.toAssetInput(filePath, content);
       if (!assetInput) continue;
 
-      this.store.upsertKnowledgeAsset(assetInput);
+      // L2 holds reviewed knowledge only
+      this.store.upsertKnowledgeAsset({ ...assetInput, status: 'published' }, {
+        source: 'pull',
+        author: currentSha || undefined,
+        message: `Pulled ${filePath}`,
+      });
       imported++;
     }
 
@@ -7,12 +7,23 @@ import { createServer, Server as HttpServer } from 'http';
 import { join } from 'path';
 import { existsSync, readFileSync } from 'fs';
 import { homedir } from 'os';
-import { getWorkerPort, getWorkerHost, ensureDataDir, getPluginRoot, getL2RepoPath, getDataDir } from '../shared/config.js';
+import { getWorkerPort, getWorkerHost, ensureDataDir, getPluginRoot, getL2RepoPath, getDataDir, getSetting, getSettingBool, getSettingInt, getSkipTools } from '../shared/config.js';
 import { logger } from '../utils/logger.js';
 import { DatabaseStore, getStore } from './database/store.js';
 import { SearchService } from './database/search.js';
-import { getRoutingService, RoutingService } from './routing.js';
+import { getRoutingService, RoutingService, ROUTING_STRATEGIES } from './routing.js';
+import type { RoutingContext } from './routing.js';
+import { normalizeTaskType } from './routing/keyword-config.js';
+import { IMPLICIT_FEEDBACK_WEIGHT } from './routing/history-model.js';
 import { getCompressor, CompressorService } from './ai/compressor.js';
+import { extractToolCall } from './ai/heuristic-extractor.js';
+import { loadTranscript, chunkTranscript } from './ai/transcript.js';
+import { PromptTemplateError } from './ai/prompt-templates.js';
+import { AiUsageTracker } from './ai/usage-tracker.js';
+import { CompressionQueue } from './queue/compression-queue.js';
+import { ObservationConsolidator } from './memory/observation-consolidator.js';
+import { KnowledgePromotionService } from './memory/knowledge-promotion.js';
+import { AssetHistoryService } from './memory/asset-history.js';
 import { ProcessManager } from './infrastructure/process-manager.js';
 import { SyncEngine } from './sync/sync-engine.js';
 import { SensitiveFilter } from './security/sensitive-filter.js';
@@ -26,9 +37,56 @@ import type {
   ApiResponse,
   HealthStatus,
   KnowledgeAssetType,
+  KnowledgeAssetRow,
+  KnowledgeAssetStatus,
+  KnowledgeType,
+  PendingKnowledgeRow,
+  PendingKnowledgeStatus,
+  PendingKnowledgeEdit,
   SyncDirection,
+  RoutingMode,
+  RoutingResult,
+  RoutingStrategyName,
+  SessionRow,
+  ObservationRow,
+  SummaryResult,
+  TaskType,
+  WorkflowType,
 } from '../shared/types.js';
 
+// Knowledge assets attached to the UserPromptSubmit hook message
+const RELATED_ASSETS_LIMIT = 3;
+
+const ASSET_STATUSES: KnowledgeAssetStatus[] = ['draft', 'pending', 'published'];
+
+const ASSET_TYPES: KnowledgeAssetType[] = [
+  'pitfall', 'adr', 'glossary', 'best-practice', 'pattern', 'discovery', 'skill', 'reference',
+];
+
+/**
+ * `?status=draft,pending` → the listed asset statuses (unknown ones ignored)
+ */
+function parseAssetStatuses(value: unknown): KnowledgeAssetStatus[] | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const statuses = value.split(',').map(v => v.trim()).filter((v): v is KnowledgeAssetStatus =>
+    ASSET_STATUSES.includes(v as KnowledgeAssetStatus)
+  );
+  return statuses.length > 0 ? statuses : undefined;
+}
+
+/**
+ * Ids stored as a JSON array (e.g. `session_summaries.sinkable_knowledge`)
+ */
+function parseIdList(value: string | null): number[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is number => Number.isInteger(v)) : [];
+  } catch {
+    return [];
+  }
+}
+
 // ============================================================================
 // Worker Service Class
 // ============================================================================
@@ -40,19 +98,32 @@ export class WorkerService {
   private search: SearchService | null = null;
   private routing: RoutingService;
   private compressor: CompressorService;
+  private compressionQueue: CompressionQueue;
+  private aiUsage: AiUsageTracker;
+  private consolidator: ObservationConsolidator;
+  private promotion: KnowledgePromotionService;
+  private assetHistory: AssetHistoryService;
   private syncEngine: SyncEngine;
   private sensitiveFilter: SensitiveFilter;
   private agentsMdGenerator: AgentsMdGenerator;
   private startTime: number;
   private isShuttingDown: boolean = false;
+  // Background Stop summaries by session; `next` is the latest Stop still to summarize
+  private summaryRuns = new Map<string, { next: StopInput | null }>();
 
   constructor() {
     this.app = express();
     this.store = getStore();
     this.routing = getRoutingService();
     this.compressor = getCompressor();
+    this.aiUsage = new AiUsageTracker(this.store);
+    this.compressor.setUsageTracker(this.aiUsage);
+    this.compressionQueue = new CompressionQueue(this.store, this.compressor);
+    this.consolidator = new ObservationConsolidator(this.store);
     this.syncEngine = new SyncEngine(this.store);
     this.sensitiveFilter = new SensitiveFilter();
+    this.promotion = new KnowledgePromotionService(this.store, this.routing, this.sensitiveFilter);
+    this.assetHistory = new AssetHistoryService(this.store);
     this.agentsMdGenerator = new AgentsMdGenerator(this.store);
     this.startTime = Date.now();
 
@@ -105,9 +176,24 @@ export class WorkerService {
 
     // Routing
     this.app.post('/api/routing/analyze', this.handleRoutingAnalyze.bind(this));
+    this.app.post('/api/routing/compare', this.handleRoutingCompare.bind(this));
+    this.app.post('/api/routing/feedback', this.handleRoutingFeedback.bind(this));
+    this.app.get('/api/routing/history', this.handleRoutingHistory.bind(this));
+
+    // Compression queue
+    this.app.get('/api/queue/status', this.handleQueueStatus.bind(this));
+    this.app.post('/api/queue/retry', this.handleQueueRetry.bind(this));
+    this.app.post('/api/prompts/render', this.handlePromptRender.bind(this));
+
+    // Installed tools
+    this.app.get('/api/tools/status', this.handleToolStatus.bind(this));
+    this.app.post('/api/tools/invalidate', this.handleToolInvalidate.bind(this));
 
     // Data listing
     this.app.get('/api/observations', this.handleListObservations.bind(this));
+    this.app.post('/api/observations/consolidate', this.handleConsolidateObservations.bind(this));
+    this.app.get('/api/observations/provenance', this.handleObservationProvenance.bind(this));
+    this.app.get('/api/sessions/prompts', this.handleListSessionPrompts.bind(this));
     this.app.get('/api/knowledge', this.handleListKnowledge.bind(this));
 
     // Search
@@ -117,6 +203,7 @@ export class WorkerService {
     // Knowledge management
     this.app.post('/api/knowledge/sink', this.handleKnowledgeSink.bind(this));
     this.app.get('/api/knowledge/pending', this.handleKnowledgePending.bind(this));
+    this.app.post('/api/knowledge/review', this.handleKnowledgeReview.bind(this));
 
     // Stats
     this.app.get('/api/stats', this.handleStats.bind(this));
@@ -125,7 +212,15 @@ export class WorkerService {
     this.app.get('/api/knowledge-assets/search', this.handleSearchKnowledgeAssets.bind(this));
     this.app.get('/api/knowledge-assets/get', this.handleGetAsset.bind(this));
     this.app.get('/api/knowledge-assets/list', this.handleListAssets.bind(this));
+    this.app.get('/api/knowledge-assets/history', this.handleAssetHistory.bind(this));
+    this.app.post('/api/knowledge-assets/rollback', this.handleAssetRollback.bind(this));
     this.app.post('/api/knowledge/sink-asset', this.handleSinkAsset.bind(this));
+    this.app.get('/api/knowledge/promotions', this.handleListPromotions.bind(this));
+    this.app.post('/api/knowledge/promotions/draft', this.handleDraftPromotions.bind(this));
+    this.app.post('/api/knowledge/promotions/approve', this.handleApprovePromotion.bind(this));
+    this.app.post('/api/knowledge/promotions/reject', this.handleRejectPromotion.bind(this));
+    this.app.post('/api/knowledge/promotions/edit', this.handleEditPromotion.bind(this));
+    this.app.post('/api/knowledge/promotions/snooze', this.handleSnoozePromotion.bind(this));
 
     // Sync
     this.app.post('/api/sync/trigger', this.handleSyncTrigger.bind(this));
@@ -140,6 +235,9 @@ export class WorkerService {
 
     // Knowledge Stats
     this.app.get('/api/stats/knowledge', this.handleKnowledgeStats.bind(this));
+
+    // AI Usage
+    this.app.get('/api/stats/ai', this.handleAiUsageStats.bind(this));
   }
 
   private setupSignalHandlers(): void {
@@ -169,9 +267,19 @@ export class WorkerService {
     // Initialize database
     await this.store.initialize();
 
+    // Give knowledge migrated from the v1 table meaningful names
+    try {
+      this.promotion.renameLegacyAssets();
+    } catch (error) {
+      logger.warn('WORKER', 'Failed to rename legacy knowledge assets', { error: (error as Error).message });
+    }
+
     // Initialize search service
     this.search = new SearchService();
 
+    // Resume queued compressions (including jobs interrupted by a restart)
+    this.compressionQueue.start();
+
     // Initialize sync engine (non-blocking)
     const l2RepoUrl = this.store.getConfigValue('L2_REPO_URL') || '';
     this.syncEngine.initialize(l2RepoUrl || undefined).catch(err => {
@@ -201,6 +309,9 @@ export class WorkerService {
   async shutdown(): Promise<void> {
     logger.info('WORKER', 'Shutting down...');
 
+    // Let in-flight compressions finish; the rest stay queued for the next start
+    await this.compressionQueue.stop();
+
     // Close search service
     if (this.search) {
       this.search.close();
@@ -227,12 +338,15 @@ export class WorkerService {
   // ============================================================================
 
   private handleHealth(req: Request, res: Response): void {
+    const ai = this.compressor.getStatus();
     const status: HealthStatus = {
-      status: 'healthy',
+      // AI switched off on purpose is not a degradation
+      status: ai.enabled || ai.disabled_reason === 'config_disabled' ? 'healthy' : 'degraded',
       version: process.env.npm_package_version || '2.1.0',
       uptime: Date.now() - this.startTime,
       database: true,
-      ai: true,
+      ai: ai.enabled,
+      ai_status: ai,
     };
     res.json(status);
   }
@@ -282,29 +396,65 @@ export class WorkerService {
       const sessionId = input.session_id || `session-${Date.now()}`;
 
       // Get installed tools
-      const installedTools = await RoutingService.getInstalledTools();
+      const installedTools = await this.routing.getInstalledTools(input.cwd || project);
+
+      // Analyze routing together with the earlier prompts of this session
+      const session = this.store.getOrCreateSession(sessionId, project);
+      const routing = await this.routing.analyzeTurn(
+        { prompt: input.prompt, prompt_number: input.prompt_number, earlier: this.store.getSessionPrompts(sessionId) },
+        installedTools,
+        this.getRoutingContext(project, input.cwd)
+      );
+      const turn = routing.session!;
 
-      // Analyze routing
-      const routing = this.routing.analyze(input.prompt, installedTools);
+      this.store.recordSessionPrompt({
+        session_id: sessionId,
+        project,
+        prompt_number: turn.prompt_number,
+        prompt: input.prompt,
+        task_type: routing.task_type,
+        confidence: routing.confidence,
+        product_line: routing.product_line,
+        keywords: routing.keywords,
+        recommended_workflow: routing.recommended_workflow,
+        task_switch: !!turn.task_switch,
+      });
 
-      // Update session
+      // The first prompt names the session; keywords and workflow follow the current task
       this.store.updateSession(sessionId, {
-        user_prompt: input.prompt,
+        user_prompt: session.user_prompt ? undefined : input.prompt,
         detected_keywords: JSON.stringify(routing.keywords),
         recommended_workflow: routing.recommended_workflow,
       });
 
       // Detect knowledge triggers
-      const triggers = this.routing.detectKnowledgeTriggers(input.prompt);
+      const triggers = this.routing.detectKnowledgeTriggers(input.prompt, input.cwd);
 
       const output: HookOutput = {
         continue: true,
         suppressOutput: true,
       };
 
+      const messages: string[] = [];
+
+      // Mid-session task switch: suggest re-routing
+      if (turn.task_switch) {
+        messages.push(`🔀 ${turn.task_switch.suggestion}`);
+      }
+
+      // Surface known pitfalls/ADRs for this prompt before the agent starts working
+      const related = this.describeRelatedAssets(input.prompt, routing, input.cwd);
+      if (related) {
+        messages.push(related);
+      }
+
       // Add trigger hints if found
       if (triggers.length > 0) {
-        output.message = `检测到可沉淀关键字: ${triggers.map(t => t.keyword).join(', ')}`;
+        messages.push(`检测到可沉淀关键字: ${triggers.map(t => t.keyword).join(', ')}`);
+      }
+
+      if (messages.length > 0) {
+        output.message = messages.join('\n\n');
       }
 
       res.json(output);
@@ -314,42 +464,75 @@ export class WorkerService {
     }
   }
 
+  /**
+   * Top knowledge assets related to the prompt, formatted for the hook message
+   */
+  private describeRelatedAssets(prompt: string, routing: RoutingResult, cwd?: string): string | null {
+    if (!this.search) return null;
+
+    try {
+      const productLine = this.routing.detectProductLine(prompt, cwd);
+      const terms = [...routing.keywords, ...(productLine?.keywords || [])];
+      const assets = this.search.findRelatedAssets(terms, {
+        product_line: routing.product_line,
+        limit: RELATED_ASSETS_LIMIT,
+      });
+      if (assets.length === 0) return null;
+
+      const scope = routing.product_line ? `${routing.product_line} ` : '';
+      const lines = assets.map(a =>
+        `- ${this.getTypeEmoji(a.type)} [${a.type}] ${a.title} (${a.product_line}, get_asset id=${a.id})`
+      );
+      return `📚 ${scope}相关已知经验：\n${lines.join('\n')}`;
+    } catch (error) {
+      logger.warn('HOOK', 'Related asset lookup failed', {}, error as Error);
+      return null;
+    }
+  }
+
   private async handleToolUse(req: Request, res: Response): Promise<void> {
     try {
       const input = req.body as PostToolUseInput;
       const project = input.project || input.cwd || 'unknown';
       const sessionId = input.session_id || `session-${Date.now()}`;
 
-      // Check if should compress
-      if (!this.compressor.shouldCompress(input.tool_name, input.tool_input)) {
+      // Installing or removing a plugin makes cached tool status stale
+      if (input.tool_name === 'Bash') {
+        const command = (input.tool_input as { command?: string } | undefined)?.command;
+        if (typeof command === 'string' && this.routing.isToolInstallCommand(command)) {
+          this.routing.invalidateTools();
+        }
+      }
+
+      // Remember which workflow the session actually runs (Skill/SlashCommand are never compressed)
+      const usedWorkflow = this.routing.detectWorkflowUsage(input.tool_name, input.tool_input);
+      if (usedWorkflow) {
+        this.recordWorkflowUsage(sessionId, usedWorkflow);
+      }
+
+      // Check if should compress (SKIP_TOOLS may be overridden by the project file)
+      if (!this.compressor.shouldCompress(input.tool_name, input.tool_input, getSkipTools(input.cwd))) {
         res.json({ continue: true, suppressOutput: true });
         return;
       }
 
-      // Compress in background (don't block)
-      this.compressor
-        .compressToolCall(input.tool_name, input.tool_input, input.tool_output, project)
-        .then(result => {
-          if (result && result.should_store) {
-            this.store.createObservation({
-              session_id: sessionId,
-              project,
-              type: result.type,
-              title: result.title,
-              subtitle: result.subtitle,
-              facts: result.facts,
-              narrative: result.narrative,
-              concepts: result.concepts,
-              files_modified: result.files_modified,
-              tool_name: input.tool_name,
-              prompt_number: input.prompt_number,
-              should_sink: !!result.knowledge_type,
-            });
-          }
-        })
-        .catch(err => {
-          logger.error('HOOK', 'Background compression failed', {}, err);
-        });
+      // AI won't come back without the user (config, key, credit): record what rules can extract
+      if (this.compressor.needsUserAction()) {
+        this.recordHeuristicObservation(sessionId, project, input);
+        res.json({ continue: true, suppressOutput: true });
+        return;
+      }
+
+      // Queue for background compression (survives worker restarts)
+      this.store.getOrCreateSession(sessionId, project);
+      this.compressionQueue.enqueue({
+        session_id: sessionId,
+        project,
+        tool_name: input.tool_name,
+        tool_input: input.tool_input,
+        tool_output: input.tool_output,
+        prompt_number: input.prompt_number,
+      });
 
       res.json({ continue: true, suppressOutput: true });
     } catch (error) {
@@ -358,40 +541,53 @@ export class WorkerService {
     }
   }
 
+  private recordHeuristicObservation(sessionId: string, project: string, input: PostToolUseInput): void {
+    if (!getSettingBool('HEURISTIC_COMPRESSION_ENABLED')) return;
+
+    const result = extractToolCall(input);
+    if (!result) return;
+
+    this.store.getOrCreateSession(sessionId, project);
+    this.store.createObservation({
+      session_id: sessionId,
+      project,
+      type: result.type,
+      title: result.title,
+      subtitle: result.subtitle,
+      facts: result.facts,
+      narrative: result.narrative,
+      concepts: result.concepts,
+      files_read: result.files_read,
+      files_modified: result.files_modified,
+      tool_name: input.tool_name,
+      prompt_number: input.prompt_number,
+    });
+    logger.debug('HOOK', `Recorded heuristic observation for ${input.tool_name}`, { type: result.type });
+  }
+
   private async handleStop(req: Request, res: Response): Promise<void> {
     try {
       const input = req.body as StopInput;
       const project = input.project || input.cwd || 'unknown';
       const sessionId = input.session_id || `session-${Date.now()}`;
 
-      // Get session and observations
-      const session = this.store.getSession(sessionId);
-      const observations = this.store.getSessionObservations(sessionId);
-
-      // Generate summary
-      const summary = await this.compressor.generateSummary(
-        project,
-        session?.user_prompt || '',
-        observations.map(o => ({
-          type: o.type,
-          title: o.title,
-          narrative: o.narrative || undefined,
-        }))
-      );
+      // Merge repeated observations first so the summary and later context see one of each
+      if (getSettingBool('OBSERVATION_CONSOLIDATION_ENABLED')) {
+        try {
+          this.consolidator.consolidateSession(sessionId);
+        } catch (error) {
+          logger.warn('HOOK', 'Observation consolidation failed', { sessionId, error: (error as Error).message });
+        }
+      }
 
-      if (summary) {
-        // Save summary
-        this.store.createSummary(sessionId, project, {
-          request: summary.request,
-          investigated: summary.investigated,
-          learned: summary.learned,
-          completed: summary.completed,
-          next_steps: summary.next_steps,
-        });
+      const session = this.store.getSession(sessionId);
 
-        // Create sinkable knowledge
-        for (const k of summary.sinkable_knowledge) {
-          this.store.createKnowledge(k);
+      // Queue the session's sinkable observations for review
+      if (getSettingBool('AUTO_SINK_ON_STOP')) {
+        try {
+          this.promotion.draftSinkable(project, sessionId);
+        } catch (error) {
+          logger.warn('HOOK', 'Knowledge promotion failed', { sessionId, error: (error as Error).message });
         }
       }
 
@@ -401,6 +597,14 @@ export class WorkerService {
         completed_at: new Date().toISOString(),
       });
 
+      // Infer routing feedback unless the user already gave some
+      if (session) {
+        this.recordImplicitFeedback(session.session_id);
+      }
+
+      // The summary takes several model calls; the hook does not wait for it
+      this.scheduleSummary(sessionId, project, input);
+
       res.json({ continue: true, suppressOutput: true });
     } catch (error) {
       logger.error('HOOK', 'Stop failed', {}, error as Error);
@@ -408,6 +612,125 @@ export class WorkerService {
     }
   }
 
+  /**
+   * Summarize a session in the background. Stops arriving while its summary
+   * runs are coalesced: only the latest one is summarized next.
+   */
+  private scheduleSummary(sessionId: string, project: string, input: StopInput): void {
+    const queued = this.summaryRuns.get(sessionId);
+    if (queued) {
+      queued.next = input;
+      return;
+    }
+
+    const run: { next: StopInput | null } = { next: input };
+    this.summaryRuns.set(sessionId, run);
+
+    void (async () => {
+      while (run.next) {
+        const next = run.next;
+        run.next = null;
+        try {
+          await this.summarizeSession(sessionId, project, next);
+        } catch (error) {
+          logger.warn('HOOK', 'Session summary failed', { sessionId, error: (error as Error).message });
+        }
+      }
+      this.summaryRuns.delete(sessionId);
+    })();
+  }
+
+  /**
+   * Summarize the session from its transcript (or its observations) and sink
+   * the summary's knowledge as drafts
+   */
+  private async summarizeSession(sessionId: string, project: string, input: StopInput): Promise<void> {
+    const session = this.store.getSession(sessionId);
+    const observations = this.store.getSessionObservations(sessionId);
+    const userPrompt = session?.user_prompt || input.last_user_message || '';
+
+    // Prefer the conversation itself; observations only cover compressed tool calls
+    const transcript = loadTranscript(input.transcript_path);
+    let summary: SummaryResult | null = null;
+    if (transcript && transcript.entries.length > 0) {
+      const { chunks, omitted } = chunkTranscript(
+        transcript.entries,
+        Math.max(1000, getSettingInt('TRANSCRIPT_CHUNK_CHARS') || 60000),
+        Math.max(1, getSettingInt('TRANSCRIPT_MAX_CHUNKS') || 12)
+      );
+      summary = await this.compressor.summarizeTranscript(
+        project,
+        userPrompt,
+        chunks.map(chunk => ({ ...chunk, text: this.sensitiveFilter.sanitize(chunk.text) })),
+        omitted,
+        {
+          get: (chunk, key) => this.store.getTranscriptNotes(sessionId, chunk.start, chunk.end, key),
+          set: (chunk, key, notes) => this.store.saveTranscriptNotes(sessionId, chunk.start, chunk.end, key, notes),
+        }
+      );
+    }
+
+    // Fall back to the stored observations when there is no usable transcript
+    if (!summary) {
+      summary = await this.compressor.generateSummary(
+        project,
+        userPrompt,
+        observations.map(o => ({
+          type: o.type,
+          title: o.title,
+          narrative: o.narrative || undefined,
+        }))
+      );
+    }
+    if (!summary) return;
+
+    // Drafts of the previous summary that nobody touched are replaced by this one's
+    for (const id of parseIdList(this.store.getSummary(sessionId)?.sinkable_knowledge ?? null)) {
+      if (!this.store.getPendingKnowledgeByAsset(id)?.edited_at) {
+        this.store.deleteUnpublishedKnowledgeAsset(id, 'Superseded by a newer session summary');
+      }
+    }
+
+    // Sinkable knowledge is kept as draft assets until reviewed
+    const knowledgeIds = summary.sinkable_knowledge.map(k =>
+      this.promotion.sinkKnowledge({ ...k, project, session_id: sessionId }, 'draft').id
+    );
+
+    const files = transcript
+      ? { read: transcript.files_read, edited: transcript.files_edited }
+      : this.collectObservationFiles(observations);
+
+    this.store.createSummary(sessionId, project, {
+      request: summary.request,
+      investigated: summary.investigated,
+      learned: summary.learned,
+      completed: summary.completed,
+      next_steps: summary.next_steps,
+      files_read: files.read,
+      files_edited: files.edited,
+      sinkable_knowledge: knowledgeIds,
+    });
+  }
+
+  /**
+   * Files read / edited according to a session's observations
+   */
+  private collectObservationFiles(observations: ObservationRow[]): { read: string[]; edited: string[] } {
+    const collect = (column: 'files_read' | 'files_modified'): string[] => {
+      const files = new Set<string>();
+      for (const o of observations) {
+        try {
+          const parsed: unknown = JSON.parse(o[column] || '[]');
+          if (Array.isArray(parsed)) parsed.filter(f => typeof f === 'string').forEach(f => files.add(f));
+        } catch {
+          // Ignore malformed columns
+        }
+      }
+      return [...files];
+    };
+    return { read: collect('files_read'), edited: collect('files_modified') };
+  }
+
   // ============================================================================
   // Context Injection
   // ============================================================================
@@ -415,10 +738,11 @@ export class WorkerService {
   private async handleContextInject(req: Request, res: Response): Promise<void> {
     try {
       const project = (req.query.project as string) || 'unknown';
+      const cwd = (req.query.cwd as string) || project;
       const limit = parseInt((req.query.limit as string) || '20', 10);
 
-      // Get installed tools
-      const installedTools = await RoutingService.getInstalledTools();
+      // Get installed tools (file-based checks need the project directory)
+      const installedTools = await this.routing.getInstalledTools(cwd);
 
       // Get recent observations
       const observations = this.store.getRecentObservations(project, limit);
@@ -486,27 +810,19 @@ For ANY task involving code, architecture, or technical decisions:
       }
 
       // ========== 5. Pending Knowledge Reminder ==========
-      const pendingFile = join(getDataDir(), 'pending-sink.json');
-      if (existsSync(pendingFile)) {
-        try {
-          const pendingData = JSON.parse(readFileSync(pendingFile, 'utf-8'));
-          if (pendingData.items && pendingData.items.length > 0) {
-            const pendingCount = pendingData.items.length;
-            const pendingItems = pendingData.items
-              .slice(0, 5)
-              .map((item: { type: string; summary: string }) => `• ${item.type}: ${item.summary}`)
-              .join('\n');
-            sections.push(`## 待沉淀知识提醒
+      const pendingCount = this.store.countPendingKnowledge({ status: 'pending', project, active: true });
+      if (pendingCount > 0) {
+        const pendingItems = this.store
+          .listPendingKnowledge({ status: 'pending', project, active: true, limit: 5 })
+          .map(draft => `• [#${draft.id}] ${draft.type}: ${draft.title}`)
+          .join('\n');
+        sections.push(`## 待沉淀知识提醒
 
-🔔 **上次会话有 ${pendingCount} 条知识待沉淀：**
+🔔 **有 ${pendingCount} 条知识草稿待审核：**
 
 ${pendingItems}
 
-输入 \`/knowledge\` 立即沉淀，或输入 \`/knowledge skip\` 跳过。`);
-          }
-        } catch {
-          // Invalid JSON or missing items
-        }
+输入 \`/knowledge list\` 审核（批准 / 编辑 / 拒绝），或输入 \`/knowledge skip\` 暂缓提醒。`);
       }
 
       // ========== 6. Installed Tools ==========
@@ -559,20 +875,75 @@ ${pendingItems}
       refactor: '🟡',
       discovery: '🟢',
       pitfall: '⚠️',
+      adr: '🟣',
       change: '⚪',
     };
     return emojis[type] || '⚪';
   }
 
+  // ============================================================================
+  // Compression Queue
+  // ============================================================================
+
+  private handleQueueStatus(req: Request, res: Response): void {
+    try {
+      res.json({ success: true, data: this.compressionQueue.getStatus() });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Re-queue dead-lettered jobs: `{ ids?: number[] }`, all of them when omitted
+   */
+  private handleQueueRetry(req: Request, res: Response): void {
+    try {
+      const { ids } = (req.body || {}) as { ids?: number[] };
+      const requeued = this.compressionQueue.retryDead(Array.isArray(ids) ? ids : undefined);
+      res.json({ success: true, data: { requeued } });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Dry run: render the compression prompt for a tool call without calling the model.
+   * Body: `{ tool_name, tool_input?, tool_output?, project? }`
+   */
+  private handlePromptRender(req: Request, res: Response): void {
+    try {
+      const { tool_name, tool_input, tool_output, project } = (req.body || {}) as {
+        tool_name?: string;
+        tool_input?: string | object;
+        tool_output?: string;
+        project?: string;
+      };
+      if (!tool_name) {
+        res.status(400).json({ success: false, error: 'tool_name required' });
+        return;
+      }
+
+      const rendered = this.compressor.renderCompressionPrompt(
+        { tool_name, tool_input, tool_output },
+        project || 'unknown'
+      );
+      res.json({ success: true, data: rendered });
+    } catch (error) {
+      const status = error instanceof PromptTemplateError ? 422 : 500;
+      res.status(status).json({ success: false, error: (error as Error).message });
+    }
+  }
+
   // ============================================================================
   // Routing
   // ============================================================================
 
   private async handleRoutingAnalyze(req: Request, res: Response): Promise<void> {
     try {
-      const { input } = req.body as { input: string };
-      const installedTools = await RoutingService.getInstalledTools();
-      const result = this.routing.analyze(input, installedTools);
+      const { input, project, cwd } = req.body as { input: string; project?: string; cwd?: string };
+      const installedTools = await this.routing.getInstalledTools(cwd || project || 'unknown');
+      const context = project ? this.getRoutingContext(project, cwd) : { cwd };
+      const result = await this.routing.analyze(input, installedTools, context);
 
       res.json({ success: true, data: result });
     } catch (error) {
@@ -581,10 +952,250 @@ ${pendingItems}
     }
   }
 
+  private async handleRoutingCompare(req: Request, res: Response): Promise<void> {
+    try {
+      const { input, project, cwd } = req.body as { input?: string; project?: string; cwd?: string };
+      if (!input) {
+        res.status(400).json({ success: false, error: 'input required' });
+        return;
+      }
+
+      const installedTools = await this.routing.getInstalledTools(cwd || project || 'unknown');
+      const context = project ? this.getRoutingContext(project, cwd) : { cwd };
+      const results = await this.routing.compare(input, installedTools, context);
+
+      res.json({
+        success: true,
+        data: {
+          configured_strategy: project ? this.getRoutingStrategy(project) : 'rules',
+          agree: new Set(results.map(r => `${r.task_type}/${r.recommended_workflow}`)).size === 1,
+          verdicts: results,
+        },
+      });
+    } catch (error) {
+      logger.error('ROUTING', 'Compare failed', {}, error as Error);
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  private handleRoutingFeedback(req: Request, res: Response): void {
+    try {
+      const { session_id, project, task_type, actual_workflow, success, note } = req.body as {
+        session_id?: string;
+        project?: string;
+        task_type?: unknown;
+        actual_workflow?: unknown;
+        success?: boolean;
+        note?: string;
+      };
+
+      if (
+        actual_workflow !== undefined &&
+        (typeof actual_workflow !== 'string' || !this.routing.isKnownWorkflow(actual_workflow))
+      ) {
+        res.status(400).json({ success: false, error: `Unknown actual_workflow: ${String(actual_workflow)}` });
+        return;
+      }
+
+      const session = session_id ? this.store.getSession(session_id) : null;
+      const targetProject = project || session?.project;
+      const workflow = actual_workflow || (session?.actual_workflow as WorkflowType | null);
+
+      if (!targetProject || !workflow || typeof success !== 'boolean') {
+        res.status(400).json({
+          success: false,
+          error: 'success (boolean) and actual_workflow required; project required when session_id is unknown',
+        });
+        return;
+      }
+
+      if (
+        task_type !== undefined &&
+        (typeof task_type !== 'string' || !this.routing.isKnownTaskType(task_type, targetProject))
+      ) {
+        res.status(400).json({ success: false, error: `Unknown task_type: ${String(task_type)}` });
+        return;
+      }
+
+      // Task type: explicit, else the session's current task
+      const taskType = task_type
+        ? normalizeTaskType(task_type)
+        : session
+          ? this.getSessionTaskType(session)
+          : null;
+      if (!taskType) {
+        res.status(400).json({ success: false, error: 'task_type required when the session has no prompt' });
+        return;
+      }
+
+      const feedback = this.store.recordRoutingFeedback({
+        session_id,
+        project: targetProject,
+        task_type: taskType,
+        recommended_workflow: session?.recommended_workflow || undefined,
+        actual_workflow: workflow,
+        success,
+        keywords: session?.detected_keywords ? JSON.parse(session.detected_keywords) : undefined,
+        note,
+      });
+
+      res.json({ success: true, data: feedback });
+    } catch (error) {
+      logger.error('ROUTING', 'Feedback failed', {}, error as Error);
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  private handleRoutingHistory(req: Request, res: Response): void {
+    try {
+      const project = req.query.project as string;
+      if (!project) {
+        res.status(400).json({ success: false, error: 'project required' });
+        return;
+      }
+
+      const limit = parseInt((req.query.limit as string) || '20', 10);
+      res.json({
+        success: true,
+        data: {
+          mode: this.getRoutingMode(),
+          outcomes: this.store.getRoutingOutcomes(project),
+          recent: this.store.getRecentRoutingFeedback(project, limit),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  private async handleToolStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const cwd = (req.query.cwd as string) || (req.query.project as string);
+      if (!cwd) {
+        res.status(400).json({ success: false, error: 'cwd required' });
+        return;
+      }
+      const refresh = req.query.refresh === 'true';
+      const report = await this.routing.getToolStatus(cwd, refresh);
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      logger.error('ROUTING', 'Tool status failed', {}, error as Error);
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  private handleToolInvalidate(req: Request, res: Response): void {
+    try {
+      const { cwd } = (req.body || {}) as { cwd?: string };
+      this.routing.invalidateTools(cwd);
+      res.json({ success: true, data: { invalidated: cwd || 'all' } });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * ROUTING_MODE from the config table, else settings.json
+   */
+  private getRoutingMode(): RoutingMode {
+    const mode = this.store.getConfigValue('ROUTING_MODE') || getSetting('ROUTING_MODE');
+    return mode === 'static' ? 'static' : 'adaptive';
+  }
+
+  /**
+   * ROUTING_STRATEGY for a project: `ROUTING_STRATEGY:<project>` in the config
+   * table, else the global `ROUTING_STRATEGY`, else settings.json
+   */
+  private getRoutingStrategy(project: string): RoutingStrategyName {
+    const strategy = this.store.getConfigValue(`ROUTING_STRATEGY:${project}`)
+      || this.store.getConfigValue('ROUTING_STRATEGY')
+      || getSetting('ROUTING_STRATEGY');
+    return ROUTING_STRATEGIES.includes(strategy as RoutingStrategyName)
+      ? (strategy as RoutingStrategyName)
+      : 'rules';
+  }
+
+  private getRoutingContext(project: string, cwd?: string): RoutingContext {
+    const strategy = this.getRoutingStrategy(project);
+    const mode = this.getRoutingMode();
+    if (mode === 'static') {
+      return { strategy, mode, cwd };
+    }
+    return { strategy, mode, cwd, outcomes: this.store.getRoutingOutcomes(project) };
+  }
+
+  /**
+   * A dedicated workflow (superpowers, openspec, ...) replaces plan mode, never the other way round
+   */
+  private recordWorkflowUsage(sessionId: string, workflow: WorkflowType): void {
+    const session = this.store.getSession(sessionId);
+    if (!session || session.actual_workflow === workflow) return;
+    if (session.actual_workflow && workflow === 'plan') return;
+
+    this.store.updateSession(sessionId, { actual_workflow: workflow });
+  }
+
+  /**
+   * A session that reached Stop with a detected workflow counts as a
+   * low-weight success for that workflow
+   */
+  private recordImplicitFeedback(sessionId: string): void {
+    const session = this.store.getSession(sessionId);
+    if (!session?.actual_workflow || !session.user_prompt || this.store.hasRoutingFeedback(sessionId)) {
+      return;
+    }
+
+    this.store.recordRoutingFeedback({
+      session_id: sessionId,
+      project: session.project,
+      task_type: this.getSessionTaskType(session) || 'unknown',
+      recommended_workflow: session.recommended_workflow || undefined,
+      actual_workflow: session.actual_workflow as WorkflowType,
+      success: true,
+      source: 'stop_hook',
+      weight: IMPLICIT_FEEDBACK_WEIGHT,
+      keywords: session.detected_keywords ? JSON.parse(session.detected_keywords) : undefined,
+    });
+  }
+
+  /**
+   * Task type of the session's latest prompt; sessions recorded before
+   * session_prompts existed fall back to classifying their only prompt
+   */
+  private getSessionTaskType(session: SessionRow): TaskType | null {
+    const prompts = this.store.getSessionPrompts(session.session_id);
+    const latest = prompts[prompts.length - 1];
+    if (latest) {
+      return latest.task_type as TaskType;
+    }
+    return session.user_prompt ? this.routing.detectTaskType(session.user_prompt) : null;
+  }
+
   // ============================================================================
   // Data Listing
   // ============================================================================
 
+  private handleListSessionPrompts(req: Request, res: Response): void {
+    try {
+      const sessionId = req.query.session_id as string;
+      if (!sessionId) {
+        res.status(400).json({ success: false, error: 'session_id required' });
+        return;
+      }
+
+      const session = this.store.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({ success: false, error: 'Session not found' });
+        return;
+      }
+
+      res.json({ success: true, data: { session, prompts: this.store.getSessionPrompts(sessionId) } });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
   private handleListObservations(req: Request, res: Response): void {
     try {
       const project = req.query.project as string;
@@ -596,11 +1207,55 @@ ${pendingItems}
     }
   }
 
+  /**
+   * Consolidate a session's similar observations: `{ session_id }`
+   */
+  private handleConsolidateObservations(req: Request, res: Response): void {
+    try {
+      const { session_id } = (req.body || {}) as { session_id?: string };
+      if (!session_id) {
+        res.status(400).json({ success: false, error: 'session_id required' });
+        return;
+      }
+      res.json({ success: true, data: this.consolidator.consolidateSession(session_id) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * An observation with the observations merged into it, recursively
+   */
+  private handleObservationProvenance(req: Request, res: Response): void {
+    try {
+      const id = parseInt(req.query.id as string, 10);
+      if (Number.isNaN(id)) {
+        res.status(400).json({ success: false, error: 'id required' });
+        return;
+      }
+
+      const provenance = this.consolidator.getProvenance(id);
+      if (!provenance) {
+        res.status(404).json({ success: false, error: 'Observation not found' });
+        return;
+      }
+      res.json({ success: true, data: provenance });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Knowledge assets of a project, any status unless `status` is given
+   */
   private handleListKnowledge(req: Request, res: Response): void {
     try {
-      const project = req.query.project as string;
-      const pending = this.store.getUnsyncedKnowledge(project || undefined);
-      res.json({ success: true, data: pending });
+      const knowledge = this.store.listKnowledgeAssets({
+        source_project: (req.query.project as string) || undefined,
+        status: parseAssetStatuses(req.query.status),
+        limit: parseInt((req.query.limit as string) || '50', 10),
+      });
+      res.json({ success: true, data: knowledge });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
     }
@@ -649,7 +1304,11 @@ ${pendingItems}
         return;
       }
 
-      const result = this.search.searchKnowledge(query, { project, limit });
+      const result = this.search.searchKnowledgeAssets(query, {
+        source_project: project || undefined,
+        status: parseAssetStatuses(req.query.status),
+        limit,
+      });
       res.json({ success: true, data: result });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
@@ -660,34 +1319,91 @@ ${pendingItems}
   // Knowledge Management
   // ============================================================================
 
-  private async handleKnowledgeSink(req: Request, res: Response): Promise<void> {
+  /**
+   * Submit knowledge for review: `{ type, title, content, tags?, project?, session_id? }`
+   */
+  private handleKnowledgeSink(req: Request, res: Response): void {
     try {
-      const { type, title, content, tags, project } = req.body;
+      const { type, title, content, tags, project, session_id } = (req.body || {}) as {
+        type?: KnowledgeType;
+        title?: string;
+        content?: string;
+        tags?: string[];
+        project?: string;
+        session_id?: string;
+      };
 
-      const knowledge = this.store.createKnowledge({
-        type,
-        title,
-        content,
-        tags,
-        project: project || 'unknown',
-      });
+      if (!type || !title || !content) {
+        res.status(400).json({ success: false, error: 'Missing required fields: type, title, content' });
+        return;
+      }
 
-      res.json({ success: true, data: knowledge });
+      const asset = this.promotion.sinkKnowledge(
+        { type, title, content, tags, project: project || 'unknown', session_id },
+        'pending'
+      );
+      res.json({ success: true, data: asset });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
     }
   }
 
+  /**
+   * Draft and pending knowledge assets, most recently updated first
+   */
   private handleKnowledgePending(req: Request, res: Response): void {
     try {
-      const project = req.query.project as string;
-      const pending = this.store.getUnsyncedKnowledge(project);
+      const pending = this.store.listKnowledgeAssets({
+        source_project: (req.query.project as string) || undefined,
+        status: ['draft', 'pending'],
+        limit: parseInt((req.query.limit as string) || '50', 10),
+      });
       res.json({ success: true, data: pending });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
     }
   }
 
+  /**
+   * Approve (publish) or reject (delete) a draft / pending asset by asset id:
+   * `{ id, action, author?, reason? }`. Reviews its queued draft, so it behaves
+   * like /api/knowledge/promotions/approve and /reject.
+   */
+  private handleKnowledgeReview(req: Request, res: Response): void {
+    try {
+      const { action, author, reason } = (req.body || {}) as { action?: string; author?: string; reason?: string };
+      const id = parseInt(String((req.body || {}).id), 10);
+      if (Number.isNaN(id)) {
+        res.status(400).json({ success: false, error: 'id required' });
+        return;
+      }
+      if (action !== 'approve' && action !== 'reject') {
+        res.status(400).json({ success: false, error: 'action must be approve or reject' });
+        return;
+      }
+
+      const asset = this.store.getKnowledgeAsset(id);
+      if (!asset) {
+        res.status(404).json({ success: false, error: 'Asset not found' });
+        return;
+      }
+      if (asset.status === 'published') {
+        res.status(409).json({ success: false, error: 'Asset already published' });
+        return;
+      }
+      const draft = this.store.getPendingKnowledgeByAsset(id);
+      if (!draft) {
+        res.status(409).json({ success: false, error: 'Asset is not in the review queue' });
+        return;
+      }
+
+      const data = action === 'approve' ? this.approveDraft(draft.id, author) : this.promotion.reject(draft.id, reason);
+      res.json({ success: true, data });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
   // ============================================================================
   // Stats
   // ============================================================================
@@ -729,27 +1445,32 @@ ${pendingItems}
       const type = req.query.type as KnowledgeAssetType | undefined;
       const limit = parseInt((req.query.limit as string) || '20', 10);
 
-      const result = this.search.searchKnowledgeAssets(query, { product_line, type, limit });
+      const status = parseAssetStatuses(req.query.status);
+
+      const result = this.search.searchKnowledgeAssets(query, { product_line, type, status, limit });
       res.json({ success: true, data: result });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
     }
   }
 
+  /**
+   * Asset named by `id`, or by `name` and `product_line` (default "general")
+   */
+  private findAsset(params: { id?: unknown; name?: unknown; product_line?: unknown }): KnowledgeAssetRow | null {
+    const id = params.id !== undefined && params.id !== '' ? Number(params.id) : NaN;
+    const name = typeof params.name === 'string' ? params.name : '';
+    const productLine = typeof params.product_line === 'string' && params.product_line ? params.product_line : 'general';
+
+    if (Number.isInteger(id)) {
+      return this.store.getKnowledgeAsset(id);
+    }
+    return name ? this.store.getKnowledgeAssetByName(name, productLine) : null;
+  }
+
   private handleGetAsset(req: Request, res: Response): void {
     try {
-      const id = req.query.id as string;
-      const name = req.query.name as string;
-      const productLine = req.query.product_line as string;
-
-      let asset = null;
-      if (id) {
-        asset = this.store.getKnowledgeAsset(parseInt(id, 10));
-      } else if (name && productLine) {
-        asset = this.store.getKnowledgeAssetByName(name, productLine);
-      } else if (name) {
-        asset = this.store.getKnowledgeAssetByName(name, 'general');
-      }
+      const asset = this.findAsset(req.query);
 
       if (!asset) {
         res.status(404).json({ success: false, error: 'Asset not found' });
@@ -775,7 +1496,9 @@ ${pendingItems}
       const limit = parseInt((req.query.limit as string) || '50', 10);
       const offset = parseInt((req.query.offset as string) || '0', 10);
 
-      const result = this.search.listAssets({ type, product_line, promoted, limit, offset });
+      const status = parseAssetStatuses(req.query.status);
+
+      const result = this.search.listAssets({ type, product_line, promoted, status, limit, offset });
       res.json({ success: true, data: result });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
@@ -784,13 +1507,18 @@ ${pendingItems}
 
   private async handleSinkAsset(req: Request, res: Response): Promise<void> {
     try {
-      const { type, name, product_line, title, content, tags, source_project } = req.body;
+      const { type, name, title, content, tags, source_project, author } = req.body;
 
-      if (!type || !name || !product_line || !title || !content) {
-        res.status(400).json({ success: false, error: 'Missing required fields: type, name, product_line, title, content' });
+      if (!type || !name || !title || !content) {
+        res.status(400).json({ success: false, error: 'Missing required fields: type, name, title, content' });
         return;
       }
 
+      // Default product line to the one detected from the asset itself
+      const product_line: string = req.body.product_line
+        || this.routing.detectProductLine([title, content, ...(tags || [])].join('\n'))?.product_line
+        || 'general';
+
       // Filter sensitive content before sinking
       const safeContent = this.sensitiveFilter.sanitize(content);
 
@@ -802,7 +1530,8 @@ ${pendingItems}
         content: safeContent,
         tags,
         source_project,
-      });
+        status: 'published',
+      }, { source: 'sink', author });
 
       // Update AGENTS-INDEX.md after sinking asset
       try {
@@ -816,6 +1545,245 @@ ${pendingItems}
       res.status(500).json({ success: false, error: (error as Error).message });
     }
   }
+  // ============================================================================
+  // Knowledge Promotion (review queue)
+  // ============================================================================
+
+  private handleListPromotions(req: Request, res: Response): void {
+    try {
+      const status = ((req.query.status as string) || 'pending') as PendingKnowledgeStatus;
+      if (!['pending', 'approved', 'rejected'].includes(status)) {
+        res.status(400).json({ success: false, error: 'status must be pending, approved or rejected' });
+        return;
+      }
+
+      // Snoozed drafts are hidden from the pending list unless asked for
+      const drafts = this.store.listPendingKnowledge({
+        status,
+        project: (req.query.project as string) || undefined,
+        active: status === 'pending' && req.query.include_snoozed !== 'true',
+        limit: parseInt((req.query.limit as string) || '50', 10),
+      });
+      res.json({ success: true, data: drafts });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Draft the sinkable observations of a project: `{ project, session_id? }`
+   */
+  private handleDraftPromotions(req: Request, res: Response): void {
+    try {
+      const { project, session_id } = (req.body || {}) as { project?: string; session_id?: string };
+      if (!project) {
+        res.status(400).json({ success: false, error: 'project required' });
+        return;
+      }
+      res.json({ success: true, data: this.promotion.draftSinkable(project, session_id) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * The draft `{ id }` when it exists and is still pending, else the error response is sent
+   */
+  private findPendingDraft(req: Request, res: Response): number | null {
+    const id = parseInt(String((req.body || {}).id), 10);
+    if (Number.isNaN(id)) {
+      res.status(400).json({ success: false, error: 'id required' });
+      return null;
+    }
+
+    const draft = this.store.getPendingKnowledge(id);
+    if (!draft) {
+      res.status(404).json({ success: false, error: 'Draft not found' });
+      return null;
+    }
+    if (draft.status !== 'pending') {
+      res.status(409).json({ success: false, error: `Draft already ${draft.status}` });
+      return null;
+    }
+    return id;
+  }
+
+  private handleApprovePromotion(req: Request, res: Response): void {
+    try {
+      const id = this.findPendingDraft(req, res);
+      if (id === null) return;
+
+      res.json({ success: true, data: this.approveDraft(id, (req.body || {}).author) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Approve a pending draft and refresh AGENTS-INDEX.md with the published asset
+   */
+  private approveDraft(id: number, author?: string): { draft: PendingKnowledgeRow; asset: KnowledgeAssetRow } {
+    const result = this.promotion.approve(id, author);
+
+    try {
+      this.agentsMdGenerator.writeAgentsMd();
+    } catch (error) {
+      logger.warn('SINK', 'Failed to update AGENTS-INDEX.md after approval', {}, error as Error);
+    }
+    return result;
+  }
+
+  /**
+   * Reject `{ id, reason? }`, or every active draft of `{ project, reason? }`
+   */
+  private handleRejectPromotion(req: Request, res: Response): void {
+    try {
+      const { project, reason } = (req.body || {}) as { project?: string; reason?: string };
+
+      if (req.body?.id === undefined && project) {
+        const rejected = this.promotion.listActive(project).map(draft => this.promotion.reject(draft.id, reason));
+        res.json({ success: true, data: { rejected: rejected.length } });
+        return;
+      }
+
+      const id = this.findPendingDraft(req, res);
+      if (id === null) return;
+
+      res.json({ success: true, data: this.promotion.reject(id, reason) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Edit a pending draft: `{ id, type?, name?, product_line?, title?, content?, tags? }`
+   */
+  private handleEditPromotion(req: Request, res: Response): void {
+    try {
+      const { type, name, product_line, title, content, tags } = (req.body || {}) as PendingKnowledgeEdit;
+
+      const errors: string[] = [];
+      if (type !== undefined && !ASSET_TYPES.includes(type)) {
+        errors.push(`type must be one of ${ASSET_TYPES.join(', ')}`);
+      }
+      if (name !== undefined && (typeof name !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name))) {
+        errors.push('name must be a lowercase slug (e.g. redis-pool-timeout)');
+      }
+      for (const [key, value] of Object.entries({ product_line, title, content })) {
+        if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+          errors.push(`${key} must be a non-empty string`);
+        }
+      }
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some(t => typeof t !== 'string'))) {
+        errors.push('tags must be an array of strings');
+      }
+      if ([type, name, product_line, title, content, tags].every(v => v === undefined)) {
+        errors.push('nothing to edit');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ success: false, error: errors.join('; ') });
+        return;
+      }
+
+      const id = this.findPendingDraft(req, res);
+      if (id === null) return;
+
+      // Drafts of unpublished assets rename the asset itself
+      const draft = this.store.getPendingKnowledge(id)!;
+      if (draft.asset_id !== null && (name !== undefined || product_line !== undefined)) {
+        const other = this.store.getKnowledgeAssetByName(name ?? draft.name, product_line ?? draft.product_line);
+        if (other && other.id !== draft.asset_id) {
+          res.status(409).json({ success: false, error: `Asset ${other.product_line}/${other.name} already exists` });
+          return;
+        }
+      }
+
+      res.json({ success: true, data: this.promotion.edit(id, { type, name, product_line, title, content, tags }) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Hide `{ id, hours? }`, or every active draft of `{ project, hours? }`, from reminders
+   */
+  private handleSnoozePromotion(req: Request, res: Response): void {
+    try {
+      const { project, hours } = (req.body || {}) as { project?: string; hours?: number };
+      if (hours !== undefined && !(typeof hours === 'number' && hours > 0)) {
+        res.status(400).json({ success: false, error: 'hours must be a positive number' });
+        return;
+      }
+
+      if (req.body?.id === undefined && project) {
+        const snoozed = this.promotion.listActive(project).map(draft => this.promotion.snooze(draft.id, hours));
+        res.json({ success: true, data: { snoozed: snoozed.length, until: snoozed[0]?.snoozed_until ?? null } });
+        return;
+      }
+
+      const id = this.findPendingDraft(req, res);
+      if (id === null) return;
+
+      res.json({ success: true, data: this.promotion.snooze(id, hours) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  // ============================================================================
+  // Knowledge Asset History
+  // ============================================================================
+
+  private handleAssetHistory(req: Request, res: Response): void {
+    try {
+      const asset = this.findAsset(req.query);
+      if (!asset) {
+        res.status(404).json({ success: false, error: 'Asset not found' });
+        return;
+      }
+
+      const limit = parseInt((req.query.limit as string) || '20', 10);
+      res.json({ success: true, data: this.assetHistory.getHistory(asset.id, limit) });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Restore `{ id | name, product_line?, revision, author? }` and mark the asset for re-push
+   */
+  private handleAssetRollback(req: Request, res: Response): void {
+    try {
+      const { revision, author } = (req.body || {}) as { revision?: number; author?: string };
+      if (!Number.isInteger(revision) || revision! < 1) {
+        res.status(400).json({ success: false, error: 'revision must be a positive integer' });
+        return;
+      }
+
+      const asset = this.findAsset(req.body || {});
+      if (!asset) {
+        res.status(404).json({ success: false, error: 'Asset not found' });
+        return;
+      }
+      if (!this.store.getAssetRevision(asset.id, revision!)) {
+        res.status(404).json({ success: false, error: `Revision ${revision} not found` });
+        return;
+      }
+
+      const restored = this.assetHistory.rollback(asset.id, revision!, author);
+
+      try {
+        this.agentsMdGenerator.writeAgentsMd();
+      } catch (error) {
+        logger.warn('SINK', 'Failed to update AGENTS-INDEX.md after rollback', {}, error as Error);
+      }
+
+      res.json({ success: true, data: restored });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+
 
   // ============================================================================
   // Sync
@@ -936,6 +1904,17 @@ ${pendingItems}
       res.status(500).json({ success: false, error: (error as Error).message });
     }
   }
+
+  private handleAiUsageStats(req: Request, res: Response): void {
+    try {
+      const project = req.query.project as string | undefined;
+      const days = parseInt((req.query.days as string) || '30', 10);
+      const report = this.aiUsage.getReport({ project, days: Number.isNaN(days) ? 30 : days });
+      res.json({ success: true, data: report });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
 }
 
 // ============================================================================
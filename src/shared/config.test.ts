@@ -0,0 +1,57 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULTS, getSettingsPath, getSkipTools } from './config.js';
+
+let dataDir: string;
+
+function writeSettings(settings: Record<string, string>): void {
+  writeFileSync(getSettingsPath(), JSON.stringify(settings));
+}
+
+function createProject(name: string, yaml: string): string {
+  const dir = join(dataDir, name);
+  mkdirSync(join(dir, '.git'), { recursive: true });
+  writeFileSync(join(dir, '.ai-agent-entrance.yaml'), yaml);
+  return dir;
+}
+
+before(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'aae-config-'));
+  process.env.AI_ENTRANCE_DATA_DIR = dataDir;
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('a settings file holding an earlier default skip list gets the current one', () => {
+  writeSettings({ SKIP_TOOLS: 'ListMcpResourcesTool,SlashCommand,Skill,TodoWrite,AskUserQuestion,TaskList,TaskGet' });
+
+  const skipped = getSkipTools();
+  assert.deepEqual(skipped, DEFAULTS.SKIP_TOOLS.split(','));
+  for (const tool of ['TodoRead', 'TaskCreate', 'TaskUpdate']) {
+    assert.ok(skipped.includes(tool), tool);
+  }
+});
+
+test('a customized skip list is kept, and an empty one skips nothing', () => {
+  writeSettings({ SKIP_TOOLS: 'TodoWrite, Skill' });
+  assert.deepEqual(getSkipTools(), ['TodoWrite', 'Skill']);
+
+  writeSettings({ SKIP_TOOLS: '' });
+  assert.deepEqual(getSkipTools(), []);
+
+  writeSettings({});
+  assert.deepEqual(getSkipTools(), DEFAULTS.SKIP_TOOLS.split(','));
+});
+
+test('a project skip_tools list replaces the global one, even when empty', () => {
+  writeSettings({});
+
+  assert.deepEqual(getSkipTools(createProject('listed', 'skip_tools: [Read]\n')), ['Read']);
+  assert.deepEqual(getSkipTools(createProject('empty', 'skip_tools: []\n')), []);
+  assert.deepEqual(getSkipTools(createProject('unset', 'product_line: exchange\n')), DEFAULTS.SKIP_TOOLS.split(','));
+});
@@ -5,6 +5,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { loadProjectConfig } from './project-config.js';
 
 // ============================================================================
 // Default Configuration
@@ -17,8 +18,20 @@ export const DEFAULTS = {
 
   // AI settings
   AI_MODEL: 'claude-sonnet-4-5',
-  AI_PROVIDER: 'anthropic',
+  AI_MODEL_COMPRESSION: 'claude-haiku-4-5',  // per-task models, fall back to AI_MODEL
+  AI_MODEL_SUMMARY: '',
+  AI_MODEL_ROUTING: 'claude-haiku-4-5',
+  AI_PROVIDER: 'anthropic',  // anthropic | openai (OpenAI-compatible endpoint) | ollama
+  AI_BASE_URL: '',           // endpoint for openai/ollama; provider default when empty
   AI_COMPRESSION_ENABLED: 'true',  // 设为 'false' 可禁用 AI 压缩功能
+  HEURISTIC_COMPRESSION_ENABLED: 'true',  // AI 不可用时用规则提取 observation
+  OBSERVATION_CONSOLIDATION_ENABLED: 'true',  // Stop 时合并会话中相似的 observation
+  AI_OUTPUT_REPAIR_ENABLED: 'true',  // 模型输出校验失败时带上错误重问一次
+  AI_DAILY_TOKEN_BUDGET: '0',    // 每个项目每天的 token 上限，0 为不限
+  AI_MONTHLY_TOKEN_BUDGET: '0',  // 每个项目每月的 token 上限，0 为不限
+  TRANSCRIPT_CHUNK_CHARS: '60000',  // 会话摘要时每段 transcript 的字符上限
+  TRANSCRIPT_MAX_CHUNKS: '12',  // 超出时保留第一段和最近的段
+  AI_OUTPUT_LANGUAGE: 'en',  // observation 和摘要的输出语言（en | zh），项目可覆盖
 
   // Database settings
   DATA_DIR: join(homedir(), '.ai-agent-entrance'),
@@ -31,12 +44,22 @@ export const DEFAULTS = {
   CONTEXT_OBSERVATIONS: '20',
   CONTEXT_SHOW_ROUTING: 'true',
 
+  // Routing: 'static' uses keyword/rule weights only, 'adaptive' blends in per-project feedback
+  ROUTING_MODE: 'adaptive',
+  ROUTING_STRATEGY: 'rules',  // keywords | rules | llm（llm 在 AI 不可用时回退到 keywords）
+
+  // Compression queue (PostToolUse observations)
+  QUEUE_CONCURRENCY: '2',
+  QUEUE_MAX_ATTEMPTS: '5',  // failed attempts before a job is dead-lettered
+  COMPRESSION_BATCH_SIZE: '8',          // tool calls per request; '1' disables batching
+  COMPRESSION_BATCH_WINDOW_MS: '3000',  // how long a partial batch waits for more calls
+
   // Knowledge sinking
   GLOBAL_KNOWLEDGE_REPO: join(homedir(), 'compound-knowledge'),
   AUTO_SINK_ON_STOP: 'true',
 
   // Skip tools (don't capture observations for these)
-  SKIP_TOOLS: 'ListMcpResourcesTool,SlashCommand,Skill,TodoWrite,AskUserQuestion,TaskList,TaskGet',
+  SKIP_TOOLS: 'ListMcpResourcesTool,SlashCommand,Skill,TodoWrite,TodoRead,AskUserQuestion,TaskList,TaskGet,TaskCreate,TaskUpdate',
 
   // L2 Sync settings
   L2_REPO_URL: '',
@@ -46,6 +69,11 @@ export const DEFAULTS = {
 
 export type ConfigKey = keyof typeof DEFAULTS;
 
+// Earlier SKIP_TOOLS defaults; settings files still holding one get the current default
+const LEGACY_SKIP_TOOLS = [
+  'ListMcpResourcesTool,SlashCommand,Skill,TodoWrite,AskUserQuestion,TaskList,TaskGet',
+];
+
 // ============================================================================
 // Paths
 // ============================================================================
@@ -96,16 +124,56 @@ export interface Settings {
   WORKER_PORT: string;
   WORKER_HOST: string;
   AI_MODEL: string;
+  AI_MODEL_COMPRESSION: string;
+  AI_MODEL_SUMMARY: string;
+  AI_MODEL_ROUTING: string;
   AI_PROVIDER: string;
+  AI_BASE_URL: string;
   AI_COMPRESSION_ENABLED: string;
+  HEURISTIC_COMPRESSION_ENABLED: string;
+  OBSERVATION_CONSOLIDATION_ENABLED: string;
+  AI_OUTPUT_REPAIR_ENABLED: string;
+  AI_DAILY_TOKEN_BUDGET: string;
+  AI_MONTHLY_TOKEN_BUDGET: string;
+  TRANSCRIPT_CHUNK_CHARS: string;
+  TRANSCRIPT_MAX_CHUNKS: string;
+  AI_OUTPUT_LANGUAGE: string;
   LOG_LEVEL: string;
   CONTEXT_OBSERVATIONS: string;
   CONTEXT_SHOW_ROUTING: string;
+  ROUTING_MODE: string;
+  ROUTING_STRATEGY: string;
+  QUEUE_CONCURRENCY: string;
+  QUEUE_MAX_ATTEMPTS: string;
+  COMPRESSION_BATCH_SIZE: string;
+  COMPRESSION_BATCH_WINDOW_MS: string;
   AUTO_SINK_ON_STOP: string;
   SKIP_TOOLS: string;
 }
 
-export function loadSettings(): Settings {
+/**
+ * Global settings, with `.ai-agent-entrance.yaml` overrides applied when `cwd` is a project
+ */
+export function loadSettings(cwd?: string): Settings {
+  const settings = loadGlobalSettings();
+
+  const project = loadProjectConfig(cwd);
+  if (project?.skip_tools) {
+    settings.SKIP_TOOLS = project.skip_tools.join(',');
+  }
+  if (project?.ai_budget?.daily_tokens !== undefined) {
+    settings.AI_DAILY_TOKEN_BUDGET = String(project.ai_budget.daily_tokens);
+  }
+  if (project?.ai_budget?.monthly_tokens !== undefined) {
+    settings.AI_MONTHLY_TOKEN_BUDGET = String(project.ai_budget.monthly_tokens);
+  }
+  if (project?.prompts?.language) {
+    settings.AI_OUTPUT_LANGUAGE = project.prompts.language;
+  }
+  return settings;
+}
+
+function loadGlobalSettings(): Settings {
   const settingsPath = getSettingsPath();
 
   try {
@@ -116,11 +184,29 @@ export function loadSettings(): Settings {
         WORKER_PORT: DEFAULTS.WORKER_PORT,
         WORKER_HOST: DEFAULTS.WORKER_HOST,
         AI_MODEL: DEFAULTS.AI_MODEL,
+        AI_MODEL_COMPRESSION: DEFAULTS.AI_MODEL_COMPRESSION,
+        AI_MODEL_SUMMARY: DEFAULTS.AI_MODEL_SUMMARY,
+        AI_MODEL_ROUTING: DEFAULTS.AI_MODEL_ROUTING,
         AI_PROVIDER: DEFAULTS.AI_PROVIDER,
+        AI_BASE_URL: DEFAULTS.AI_BASE_URL,
         AI_COMPRESSION_ENABLED: DEFAULTS.AI_COMPRESSION_ENABLED,
+        HEURISTIC_COMPRESSION_ENABLED: DEFAULTS.HEURISTIC_COMPRESSION_ENABLED,
+        OBSERVATION_CONSOLIDATION_ENABLED: DEFAULTS.OBSERVATION_CONSOLIDATION_ENABLED,
+        AI_OUTPUT_REPAIR_ENABLED: DEFAULTS.AI_OUTPUT_REPAIR_ENABLED,
+        AI_DAILY_TOKEN_BUDGET: DEFAULTS.AI_DAILY_TOKEN_BUDGET,
+        AI_MONTHLY_TOKEN_BUDGET: DEFAULTS.AI_MONTHLY_TOKEN_BUDGET,
+        TRANSCRIPT_CHUNK_CHARS: DEFAULTS.TRANSCRIPT_CHUNK_CHARS,
+        TRANSCRIPT_MAX_CHUNKS: DEFAULTS.TRANSCRIPT_MAX_CHUNKS,
+        AI_OUTPUT_LANGUAGE: DEFAULTS.AI_OUTPUT_LANGUAGE,
         LOG_LEVEL: DEFAULTS.LOG_LEVEL,
         CONTEXT_OBSERVATIONS: DEFAULTS.CONTEXT_OBSERVATIONS,
         CONTEXT_SHOW_ROUTING: DEFAULTS.CONTEXT_SHOW_ROUTING,
+        ROUTING_MODE: DEFAULTS.ROUTING_MODE,
+        ROUTING_STRATEGY: DEFAULTS.ROUTING_STRATEGY,
+        QUEUE_CONCURRENCY: DEFAULTS.QUEUE_CONCURRENCY,
+        QUEUE_MAX_ATTEMPTS: DEFAULTS.QUEUE_MAX_ATTEMPTS,
+        COMPRESSION_BATCH_SIZE: DEFAULTS.COMPRESSION_BATCH_SIZE,
+        COMPRESSION_BATCH_WINDOW_MS: DEFAULTS.COMPRESSION_BATCH_WINDOW_MS,
         AUTO_SINK_ON_STOP: DEFAULTS.AUTO_SINK_ON_STOP,
         SKIP_TOOLS: DEFAULTS.SKIP_TOOLS,
       };
@@ -136,24 +222,63 @@ export function loadSettings(): Settings {
       WORKER_PORT: loaded.WORKER_PORT || DEFAULTS.WORKER_PORT,
       WORKER_HOST: loaded.WORKER_HOST || DEFAULTS.WORKER_HOST,
       AI_MODEL: loaded.AI_MODEL || DEFAULTS.AI_MODEL,
+      AI_MODEL_COMPRESSION: loaded.AI_MODEL_COMPRESSION || DEFAULTS.AI_MODEL_COMPRESSION,
+      AI_MODEL_SUMMARY: loaded.AI_MODEL_SUMMARY || DEFAULTS.AI_MODEL_SUMMARY,
+      AI_MODEL_ROUTING: loaded.AI_MODEL_ROUTING || DEFAULTS.AI_MODEL_ROUTING,
       AI_PROVIDER: loaded.AI_PROVIDER || DEFAULTS.AI_PROVIDER,
+      AI_BASE_URL: loaded.AI_BASE_URL || DEFAULTS.AI_BASE_URL,
       AI_COMPRESSION_ENABLED: loaded.AI_COMPRESSION_ENABLED ?? DEFAULTS.AI_COMPRESSION_ENABLED,
+      HEURISTIC_COMPRESSION_ENABLED: loaded.HEURISTIC_COMPRESSION_ENABLED ?? DEFAULTS.HEURISTIC_COMPRESSION_ENABLED,
+      OBSERVATION_CONSOLIDATION_ENABLED: loaded.OBSERVATION_CONSOLIDATION_ENABLED ?? DEFAULTS.OBSERVATION_CONSOLIDATION_ENABLED,
+      AI_OUTPUT_REPAIR_ENABLED: loaded.AI_OUTPUT_REPAIR_ENABLED ?? DEFAULTS.AI_OUTPUT_REPAIR_ENABLED,
+      AI_DAILY_TOKEN_BUDGET: loaded.AI_DAILY_TOKEN_BUDGET || DEFAULTS.AI_DAILY_TOKEN_BUDGET,
+      AI_MONTHLY_TOKEN_BUDGET: loaded.AI_MONTHLY_TOKEN_BUDGET || DEFAULTS.AI_MONTHLY_TOKEN_BUDGET,
+      TRANSCRIPT_CHUNK_CHARS: loaded.TRANSCRIPT_CHUNK_CHARS || DEFAULTS.TRANSCRIPT_CHUNK_CHARS,
+      TRANSCRIPT_MAX_CHUNKS: loaded.TRANSCRIPT_MAX_CHUNKS || DEFAULTS.TRANSCRIPT_MAX_CHUNKS,
+      AI_OUTPUT_LANGUAGE: loaded.AI_OUTPUT_LANGUAGE || DEFAULTS.AI_OUTPUT_LANGUAGE,
       LOG_LEVEL: loaded.LOG_LEVEL || DEFAULTS.LOG_LEVEL,
       CONTEXT_OBSERVATIONS: loaded.CONTEXT_OBSERVATIONS || DEFAULTS.CONTEXT_OBSERVATIONS,
       CONTEXT_SHOW_ROUTING: loaded.CONTEXT_SHOW_ROUTING || DEFAULTS.CONTEXT_SHOW_ROUTING,
+      ROUTING_MODE: loaded.ROUTING_MODE || DEFAULTS.ROUTING_MODE,
+      ROUTING_STRATEGY: loaded.ROUTING_STRATEGY || DEFAULTS.ROUTING_STRATEGY,
+      QUEUE_CONCURRENCY: loaded.QUEUE_CONCURRENCY || DEFAULTS.QUEUE_CONCURRENCY,
+      QUEUE_MAX_ATTEMPTS: loaded.QUEUE_MAX_ATTEMPTS || DEFAULTS.QUEUE_MAX_ATTEMPTS,
+      COMPRESSION_BATCH_SIZE: loaded.COMPRESSION_BATCH_SIZE || DEFAULTS.COMPRESSION_BATCH_SIZE,
+      COMPRESSION_BATCH_WINDOW_MS: loaded.COMPRESSION_BATCH_WINDOW_MS ?? DEFAULTS.COMPRESSION_BATCH_WINDOW_MS,
       AUTO_SINK_ON_STOP: loaded.AUTO_SINK_ON_STOP || DEFAULTS.AUTO_SINK_ON_STOP,
-      SKIP_TOOLS: loaded.SKIP_TOOLS || DEFAULTS.SKIP_TOOLS,
+      // An empty SKIP_TOOLS compresses every tool
+      SKIP_TOOLS: LEGACY_SKIP_TOOLS.includes(loaded.SKIP_TOOLS)
+        ? DEFAULTS.SKIP_TOOLS
+        : loaded.SKIP_TOOLS ?? DEFAULTS.SKIP_TOOLS,
     };
   } catch {
     return {
       WORKER_PORT: DEFAULTS.WORKER_PORT,
       WORKER_HOST: DEFAULTS.WORKER_HOST,
       AI_MODEL: DEFAULTS.AI_MODEL,
+      AI_MODEL_COMPRESSION: DEFAULTS.AI_MODEL_COMPRESSION,
+      AI_MODEL_SUMMARY: DEFAULTS.AI_MODEL_SUMMARY,
+      AI_MODEL_ROUTING: DEFAULTS.AI_MODEL_ROUTING,
       AI_PROVIDER: DEFAULTS.AI_PROVIDER,
+      AI_BASE_URL: DEFAULTS.AI_BASE_URL,
       AI_COMPRESSION_ENABLED: DEFAULTS.AI_COMPRESSION_ENABLED,
+      HEURISTIC_COMPRESSION_ENABLED: DEFAULTS.HEURISTIC_COMPRESSION_ENABLED,
+      OBSERVATION_CONSOLIDATION_ENABLED: DEFAULTS.OBSERVATION_CONSOLIDATION_ENABLED,
+      AI_OUTPUT_REPAIR_ENABLED: DEFAULTS.AI_OUTPUT_REPAIR_ENABLED,
+      AI_DAILY_TOKEN_BUDGET: DEFAULTS.AI_DAILY_TOKEN_BUDGET,
+      AI_MONTHLY_TOKEN_BUDGET: DEFAULTS.AI_MONTHLY_TOKEN_BUDGET,
+      TRANSCRIPT_CHUNK_CHARS: DEFAULTS.TRANSCRIPT_CHUNK_CHARS,
+      TRANSCRIPT_MAX_CHUNKS: DEFAULTS.TRANSCRIPT_MAX_CHUNKS,
+      AI_OUTPUT_LANGUAGE: DEFAULTS.AI_OUTPUT_LANGUAGE,
       LOG_LEVEL: DEFAULTS.LOG_LEVEL,
       CONTEXT_OBSERVATIONS: DEFAULTS.CONTEXT_OBSERVATIONS,
       CONTEXT_SHOW_ROUTING: DEFAULTS.CONTEXT_SHOW_ROUTING,
+      ROUTING_MODE: DEFAULTS.ROUTING_MODE,
+      ROUTING_STRATEGY: DEFAULTS.ROUTING_STRATEGY,
+      QUEUE_CONCURRENCY: DEFAULTS.QUEUE_CONCURRENCY,
+      QUEUE_MAX_ATTEMPTS: DEFAULTS.QUEUE_MAX_ATTEMPTS,
+      COMPRESSION_BATCH_SIZE: DEFAULTS.COMPRESSION_BATCH_SIZE,
+      COMPRESSION_BATCH_WINDOW_MS: DEFAULTS.COMPRESSION_BATCH_WINDOW_MS,
       AUTO_SINK_ON_STOP: DEFAULTS.AUTO_SINK_ON_STOP,
       SKIP_TOOLS: DEFAULTS.SKIP_TOOLS,
     };
@@ -161,19 +286,19 @@ export function loadSettings(): Settings {
 }
 
 export function saveSettings(settings: Partial<Settings>): void {
-  const current = loadSettings();
+  const current = loadGlobalSettings();
   const updated = { ...current, ...settings };
   ensureDataDir();
   writeFileSync(getSettingsPath(), JSON.stringify(updated, null, 2));
 }
 
-export function getSetting(key: ConfigKey): string {
-  const settings = loadSettings();
+export function getSetting(key: ConfigKey, cwd?: string): string {
+  const settings = loadSettings(cwd);
   return (settings as Record<string, string>)[key] || DEFAULTS[key];
 }
 
-export function getSettingInt(key: ConfigKey): number {
-  return parseInt(getSetting(key), 10);
+export function getSettingInt(key: ConfigKey, cwd?: string): number {
+  return parseInt(getSetting(key, cwd), 10);
 }
 
 export function getSettingBool(key: ConfigKey): boolean {
@@ -204,6 +329,7 @@ export function getWorkerHost(): string {
   return process.env.AI_ENTRANCE_WORKER_HOST || getSetting('WORKER_HOST');
 }
 
-export function getSkipTools(): string[] {
-  return getSetting('SKIP_TOOLS').split(',').map(s => s.trim());
+export function getSkipTools(cwd?: string): string[] {
+  // Not getSetting: an empty list (e.g. project `skip_tools: []`) must not fall back to the default
+  return loadSettings(cwd).SKIP_TOOLS.split(',').map(s => s.trim()).filter(Boolean);
 }
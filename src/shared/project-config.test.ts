@@ -0,0 +1,123 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PROJECT_CONFIG_FILE,
+  findProjectConfigPath,
+  loadProjectConfig,
+  validateProjectConfig,
+} from './project-config.js';
+
+let root: string;
+
+before(() => {
+  root = mkdtempSync(join(tmpdir(), 'aae-project-'));
+});
+
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+test('validateProjectConfig reads every section', () => {
+  const { config, errors } = validateProjectConfig(
+    {
+      product_line: 'exchange/core/',
+      keywords: { optimization: ['撮合延迟', 'p99'], bug_fix: { keywords: ['回滚'], weight: 3 } },
+      knowledge_triggers: { pitfall: ['死锁'] },
+      workflows: { force: { bug_fix: 'plan' }, forbid: ['bmad'] },
+      skip_tools: 'TodoWrite, Skill,',
+      ai_budget: { daily_tokens: 200000 },
+      prompts: { language: 'en', templates_dir: ' .ai-prompts ' },
+    },
+    '/repo/.ai-agent-entrance.yaml'
+  );
+
+  assert.deepEqual(errors, []);
+  assert.equal(config!.product_line, 'exchange/core');
+  assert.deepEqual(config!.keywords, {
+    optimization: { keywords: ['撮合延迟', 'p99'] },
+    bug_fix: { keywords: ['回滚'], weight: 3 },
+  });
+  assert.deepEqual(config!.workflows, { force_by_task: { bug_fix: 'plan' }, forbid: ['bmad'] });
+  assert.deepEqual(config!.skip_tools, ['TodoWrite', 'Skill']);
+  assert.deepEqual(config!.ai_budget, { daily_tokens: 200000 });
+  assert.deepEqual(config!.prompts, { language: 'en', templates_dir: '.ai-prompts' });
+});
+
+test('validateProjectConfig rejects the whole file and reports every error', () => {
+  const { config, errors } = validateProjectConfig(
+    {
+      product_line: '',
+      keywords: { refactor: 'rename' },
+      workflows: { force: 'bmad', forbid: ['bmad'] },
+      skip_tools: 3,
+      ai_budget: { daily_tokens: -1 },
+      prompts: { language: 'fr' },
+    },
+    '/repo/.ai-agent-entrance.yaml'
+  );
+
+  assert.equal(config, null);
+  assert.deepEqual(errors, [
+    'product_line: expected a non-empty string',
+    'keywords.refactor: expected a list of keywords or { keywords, weight }',
+    'workflows: "bmad" is both forced and forbidden',
+    'skip_tools: expected an array of tool names',
+    'ai_budget.daily_tokens: expected a non-negative integer',
+    'prompts.language: expected "en" or "zh"',
+  ]);
+});
+
+test('validateProjectConfig treats an empty file as no overrides', () => {
+  assert.deepEqual(validateProjectConfig(null, '/p').config, { path: '/p', keywords: {}, workflows: { forbid: [] } });
+  assert.deepEqual(validateProjectConfig(['a'], '/p').errors, ['<root>: expected a mapping']);
+});
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+test('the project file is found from a subdirectory but not above the git root', () => {
+  const repo = join(root, 'outer', 'repo');
+  mkdirSync(join(repo, '.git'), { recursive: true });
+  mkdirSync(join(repo, 'src', 'deep'), { recursive: true });
+  writeFileSync(join(root, 'outer', PROJECT_CONFIG_FILE), 'product_line: outer\n');
+
+  assert.equal(findProjectConfigPath(join(repo, 'src', 'deep')), null);
+
+  writeFileSync(join(repo, PROJECT_CONFIG_FILE), 'product_line: custody\n');
+  assert.equal(findProjectConfigPath(join(repo, 'src', 'deep')), join(repo, PROJECT_CONFIG_FILE));
+  assert.equal(loadProjectConfig(join(repo, 'src'))!.product_line, 'custody');
+  assert.equal(loadProjectConfig(undefined), null);
+});
+
+test('the project file is re-read when it changes and ignored while invalid', () => {
+  const repo = join(root, 'reload');
+  const file = join(repo, PROJECT_CONFIG_FILE);
+  mkdirSync(join(repo, '.git'), { recursive: true });
+
+  writeFileSync(file, 'workflows: { forbid: [bmad] }\n');
+  const first = loadProjectConfig(repo);
+  assert.deepEqual(first!.workflows.forbid, ['bmad']);
+  assert.equal(loadProjectConfig(repo), first, 'unchanged file is served from cache');
+
+  const errors = console.error;
+  console.error = () => {};
+  try {
+    writeFileSync(file, 'workflows: { forbid: bmad }\n');
+    utimesSync(file, new Date(), new Date(Date.now() + 1000));
+    assert.equal(loadProjectConfig(repo), null);
+  } finally {
+    console.error = errors;
+  }
+
+  writeFileSync(file, 'workflows: { forbid: [ralph] }\n');
+  utimesSync(file, new Date(), new Date(Date.now() + 2000));
+  assert.deepEqual(loadProjectConfig(repo)!.workflows.forbid, ['ralph']);
+});
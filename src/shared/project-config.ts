@@ -0,0 +1,278 @@
+/**
+ * Per-project overrides from a checked-in `.ai-agent-entrance.yaml`
+ *
+ * The file lives in the repository (looked up from the hook's cwd towards the
+ * git root) and is layered over the global settings and routing config:
+ *
+ *   product_line: exchange/core        # used when the prompt names none
+ *   keywords:                          # extra task-type keywords
+ *     optimization: [撮合延迟, p99]
+ *     bug_fix: { keywords: [回滚], weight: 3 }
+ *   product_lines:                     # extra product lines (biz-keywords.yaml layout)
+ *     exchange: { core: { keywords: [matcher] } }
+ *   knowledge_triggers:                # extra knowledge sinking triggers
+ *     pitfall: [死锁]
+ *   workflows:
+ *     force: openspec                  # or per task type: { bug_fix: plan }
+ *     forbid: [bmad]
+ *   skip_tools: [TodoWrite, Skill]     # replaces SKIP_TOOLS
+ *   ai_budget:                         # replaces AI_DAILY/MONTHLY_TOKEN_BUDGET (0 = unlimited)
+ *     daily_tokens: 200000
+ *     monthly_tokens: 3000000
+ *   prompts:
+ *     language: zh                     # output language of observations and summaries (zh | en)
+ *     templates_dir: .ai-prompts       # <name>.md here overrides templates/prompts/<name>.md
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProjectConfig {
+  path: string;
+  product_line?: string;
+  keywords: Record<string, { keywords: string[]; weight?: number }>;
+  product_lines?: Record<string, unknown>;
+  knowledge_triggers?: Record<string, string[]>;
+  workflows: {
+    force?: string;                    // every task type
+    force_by_task?: Record<string, string>;
+    forbid: string[];
+  };
+  skip_tools?: string[];
+  ai_budget?: {
+    daily_tokens?: number;
+    monthly_tokens?: number;
+  };
+  prompts?: {
+    language?: 'en' | 'zh';
+    templates_dir?: string;            // relative to the project file
+  };
+}
+
+export const PROJECT_CONFIG_FILE = '.ai-agent-entrance.yaml';
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function validateKeywords(raw: unknown, errors: string[]): ProjectConfig['keywords'] {
+  const keywords: ProjectConfig['keywords'] = {};
+  if (raw === undefined) return keywords;
+
+  if (!isMapping(raw)) {
+    errors.push('keywords: expected a mapping of task type to keywords');
+    return keywords;
+  }
+
+  for (const [taskType, def] of Object.entries(raw)) {
+    const path = `keywords.${taskType}`;
+    if (isStringArray(def)) {
+      keywords[taskType] = { keywords: def };
+    } else if (isMapping(def) && isStringArray(def.keywords)) {
+      if (def.weight !== undefined && typeof def.weight !== 'number') {
+        errors.push(`${path}.weight: expected a number`);
+        continue;
+      }
+      keywords[taskType] = { keywords: def.keywords, weight: def.weight as number | undefined };
+    } else {
+      errors.push(`${path}: expected a list of keywords or { keywords, weight }`);
+    }
+  }
+  return keywords;
+}
+
+function validateWorkflows(raw: unknown, errors: string[]): ProjectConfig['workflows'] {
+  const workflows: ProjectConfig['workflows'] = { forbid: [] };
+  if (raw === undefined) return workflows;
+
+  if (!isMapping(raw)) {
+    errors.push('workflows: expected a mapping with force and/or forbid');
+    return workflows;
+  }
+
+  if (typeof raw.force === 'string' && raw.force.trim()) {
+    workflows.force = raw.force.trim();
+  } else if (isMapping(raw.force) && Object.values(raw.force).every(v => typeof v === 'string')) {
+    workflows.force_by_task = raw.force as Record<string, string>;
+  } else if (raw.force !== undefined) {
+    errors.push('workflows.force: expected a workflow name or a mapping of task type to workflow');
+  }
+
+  if (isStringArray(raw.forbid)) {
+    workflows.forbid = raw.forbid;
+  } else if (raw.forbid !== undefined) {
+    errors.push('workflows.forbid: expected an array of workflow names');
+  }
+
+  const forced = [workflows.force, ...Object.values(workflows.force_by_task || {})];
+  for (const name of forced) {
+    if (name && workflows.forbid.includes(name)) {
+      errors.push(`workflows: "${name}" is both forced and forbidden`);
+    }
+  }
+  return workflows;
+}
+
+/**
+ * Validate a parsed project file. Any error rejects the whole file.
+ */
+export function validateProjectConfig(
+  raw: unknown,
+  path: string
+): { config: ProjectConfig | null; errors: string[] } {
+  // An empty file is a valid no-op
+  if (raw === null || raw === undefined) {
+    return { config: { path, keywords: {}, workflows: { forbid: [] } }, errors: [] };
+  }
+  if (!isMapping(raw)) {
+    return { config: null, errors: ['<root>: expected a mapping'] };
+  }
+
+  const errors: string[] = [];
+
+  if (raw.product_line !== undefined && (typeof raw.product_line !== 'string' || !raw.product_line.trim())) {
+    errors.push('product_line: expected a non-empty string');
+  }
+  if (raw.product_lines !== undefined && !isMapping(raw.product_lines)) {
+    errors.push('product_lines: expected a mapping (same layout as biz-keywords.yaml)');
+  }
+  if (
+    raw.knowledge_triggers !== undefined &&
+    (!isMapping(raw.knowledge_triggers) || !Object.values(raw.knowledge_triggers).every(isStringArray))
+  ) {
+    errors.push('knowledge_triggers: expected a mapping of trigger type to keywords');
+  }
+
+  const keywords = validateKeywords(raw.keywords, errors);
+  const workflows = validateWorkflows(raw.workflows, errors);
+
+  // skip_tools: [A, B] or the settings.json form "A,B"
+  let skipTools: string[] | undefined;
+  if (isStringArray(raw.skip_tools)) {
+    skipTools = raw.skip_tools;
+  } else if (typeof raw.skip_tools === 'string') {
+    skipTools = raw.skip_tools.split(',');
+  } else if (raw.skip_tools !== undefined) {
+    errors.push('skip_tools: expected an array of tool names');
+  }
+
+  let aiBudget: ProjectConfig['ai_budget'];
+  if (isMapping(raw.ai_budget)) {
+    aiBudget = {};
+    for (const key of ['daily_tokens', 'monthly_tokens'] as const) {
+      const value = raw.ai_budget[key];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        errors.push(`ai_budget.${key}: expected a non-negative integer`);
+      } else {
+        aiBudget[key] = value;
+      }
+    }
+  } else if (raw.ai_budget !== undefined) {
+    errors.push('ai_budget: expected a mapping with daily_tokens and/or monthly_tokens');
+  }
+
+  let prompts: ProjectConfig['prompts'];
+  if (isMapping(raw.prompts)) {
+    prompts = {};
+    const { language, templates_dir } = raw.prompts;
+    if (language === 'en' || language === 'zh') {
+      prompts.language = language;
+    } else if (language !== undefined) {
+      errors.push('prompts.language: expected "en" or "zh"');
+    }
+    if (typeof templates_dir === 'string' && templates_dir.trim()) {
+      prompts.templates_dir = templates_dir.trim();
+    } else if (templates_dir !== undefined) {
+      errors.push('prompts.templates_dir: expected a directory path');
+    }
+  } else if (raw.prompts !== undefined) {
+    errors.push('prompts: expected a mapping with language and/or templates_dir');
+  }
+
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  return {
+    config: {
+      path,
+      product_line: typeof raw.product_line === 'string' ? raw.product_line.trim().replace(/\/+$/, '') : undefined,
+      keywords,
+      product_lines: raw.product_lines as Record<string, unknown> | undefined,
+      knowledge_triggers: raw.knowledge_triggers as Record<string, string[]> | undefined,
+      workflows,
+      skip_tools: skipTools?.map(s => s.trim()).filter(Boolean),
+      ai_budget: aiBudget,
+      prompts,
+    },
+    errors,
+  };
+}
+
+// ============================================================================
+// Loader
+// ============================================================================
+
+// Keyed by file path; re-read when the file's mtime changes
+const cache = new Map<string, { mtimeMs: number; config: ProjectConfig | null }>();
+
+/**
+ * Find the project file from `cwd` upwards, stopping at the git root
+ */
+export function findProjectConfigPath(cwd: string): string | null {
+  let dir = cwd;
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+
+    const parent = dirname(dir);
+    if (parent === dir || existsSync(join(dir, '.git'))) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Load the project file for `cwd`, or null when there is none (or it is invalid)
+ */
+export function loadProjectConfig(cwd?: string): ProjectConfig | null {
+  if (!cwd) return null;
+
+  const path = findProjectConfigPath(cwd);
+  if (!path) return null;
+
+  try {
+    const { mtimeMs } = statSync(path);
+    const cached = cache.get(path);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.config;
+    }
+
+    const { config, errors } = validateProjectConfig(parseYaml(readFileSync(path, 'utf-8')), path);
+    if (!config) {
+      console.error(`[config] Rejected ${path}:`);
+      for (const error of errors) {
+        console.error(`[config]   ${error}`);
+      }
+    }
+
+    cache.set(path, { mtimeMs, config });
+    return config;
+  } catch (err) {
+    console.error(`[config] Failed to load ${path}:`, err);
+    return null;
+  }
+}
@@ -17,6 +17,23 @@ export interface SessionRow {
   created_at_epoch: number;
   completed_at: string | null;
   status: 'active' | 'completed' | 'failed';
+  actual_workflow: string | null;
+}
+
+export interface SessionPromptRow {
+  id: number;
+  session_id: string;
+  project: string;
+  prompt_number: number;
+  prompt: string;
+  task_type: string;        // session task type after this prompt (accumulated)
+  confidence: number;
+  product_line: string | null;
+  keywords: string | null;  // JSON array
+  recommended_workflow: string | null;
+  task_switch: number;      // 1 when this prompt started a new task within the session
+  created_at: string;
+  created_at_epoch: number;
 }
 
 export interface ObservationRow {
@@ -35,21 +52,10 @@ export interface ObservationRow {
   prompt_number: number | null;
   discovery_tokens: number;
   should_sink: boolean;
-  created_at: string;
-  created_at_epoch: number;
-}
-
-export interface KnowledgeRow {
-  id: number;
-  session_id: string | null;
-  observation_id: number | null;
-  project: string;
-  type: KnowledgeType;
-  title: string;
-  content: string;
-  tags: string | null; // JSON array
-  file_path: string | null; // Path to CLAUDE.md or global repo
-  synced_at: string | null;
+  template_version: string | null; // prompt template that produced it, e.g. "compression@1"
+  merged_into: number | null; // set once consolidated into another observation
+  merged_from: string | null; // JSON array of the observation ids this one consolidates
+  knowledge_type: KnowledgeType | null;
   created_at: string;
   created_at_epoch: number;
 }
@@ -106,6 +112,7 @@ export type TaskType =
   | 'bug-fix'
   | 'feature'
   | 'research'
+  | 'tdd'
   | 'unknown';
 
 // ============================================================================
@@ -120,6 +127,19 @@ export interface SessionInput {
   recommended_workflow?: WorkflowType;
 }
 
+export interface SessionPromptInput {
+  session_id: string;
+  project: string;
+  prompt_number: number;
+  prompt: string;
+  task_type: TaskType;
+  confidence: number;
+  product_line?: string;
+  keywords?: string[];
+  recommended_workflow?: WorkflowType;
+  task_switch?: boolean;
+}
+
 export interface ObservationInput {
   session_id: string;
   project: string;
@@ -135,8 +155,13 @@ export interface ObservationInput {
   prompt_number?: number;
   discovery_tokens?: number;
   should_sink?: boolean;
+  template_version?: string;
+  knowledge_type?: KnowledgeType;
 }
 
+/**
+ * Knowledge extracted from a session summary, stored as a draft knowledge asset
+ */
 export interface KnowledgeInput {
   session_id?: string;
   observation_id?: number;
@@ -194,17 +219,108 @@ export interface HookOutput {
 export interface RoutingResult {
   keywords: string[];
   task_type: TaskType;
-  product_line?: string;
+  confidence: number;               // 0-1 confidence in task_type
+  candidates: TaskTypeCandidate[];  // ranked, highest score first
+  evidence: KeywordMatch[];         // every keyword span, including negated ones
+  needs_clarification: boolean;     // ask the user instead of guessing
+  clarification_reason?: 'tie' | 'low_confidence';
+  product_line?: string;            // most specific match, e.g. "exchange/core"
+  product_line_confidence?: number; // 0-1
+  knowledge_path?: string;          // knowledge_path of the matched product line
   recommended_workflow: WorkflowType;
+  fallback_workflow?: WorkflowType | null;
+  history?: RoutingHistoryVerdict;  // present when per-project feedback was considered
+  matched_route?: string;   // name of the workflow-routes.yaml rule that fired
+  strategy: RoutingStrategyName;                // strategy that produced the verdict
+  strategy_fallback_from?: RoutingStrategyName; // requested strategy, when it was unavailable
+  project_config?: string;  // path of the applied .ai-agent-entrance.yaml
+  session?: SessionRoutingState;  // present when routed as a turn of a multi-prompt session
   reason: string;
+  tips: string[];
   installed_tools: string[];
   missing_tools: string[];
 }
 
+export interface SessionRoutingState {
+  prompt_number: number;
+  prompts_considered: number;  // prompts of the current task whose evidence was combined
+  task_switch?: TaskSwitch;
+}
+
+export interface TaskSwitch {
+  from_task_type: TaskType;
+  to_task_type: TaskType;
+  from_workflow: WorkflowType | null;
+  to_workflow: WorkflowType;
+  suggestion: string;
+}
+
+export type RoutingMode = 'static' | 'adaptive';
+
+export type RoutingStrategyName = 'keywords' | 'rules' | 'llm';
+
+export interface RoutingHistoryVerdict {
+  mode: RoutingMode;
+  static_workflow: WorkflowType;
+  workflow: WorkflowType;            // best-scoring workflow after blending
+  adjusted: boolean;                 // history changed the recommendation
+  samples: number;                   // weighted feedback count for this task type
+  scores: Record<string, number>;    // blended score per workflow
+}
+
+export interface RoutingOutcome {
+  task_type: string;
+  workflow: string;
+  successes: number;  // weighted
+  failures: number;   // weighted
+}
+
+export type RoutingFeedbackSource = 'user' | 'stop_hook';
+
+export interface RoutingFeedbackInput {
+  session_id?: string;
+  project: string;
+  task_type: TaskType;
+  recommended_workflow?: string;
+  actual_workflow: WorkflowType;
+  success: boolean;
+  source?: RoutingFeedbackSource;
+  weight?: number;
+  keywords?: string[];
+  note?: string;
+}
+
+export interface RoutingFeedbackRow {
+  id: number;
+  session_id: string | null;
+  project: string;
+  task_type: string;
+  recommended_workflow: string | null;
+  actual_workflow: string;
+  success: number;
+  source: RoutingFeedbackSource;
+  weight: number;
+  keywords: string | null; // JSON array
+  note: string | null;
+  created_at: string;
+  created_at_epoch: number;
+}
+
 export interface KeywordMatch {
   keyword: string;
   category: string;
   weight: number;
+  start: number;     // span in the original prompt
+  end: number;
+  text: string;      // exact text matched in the prompt
+  negated: boolean;  // e.g. "don't refactor", "不要重构"; does not count towards scores
+}
+
+export interface TaskTypeCandidate {
+  task_type: TaskType;
+  score: number;      // normalized 0-1, all candidates sum to 1
+  raw_score: number;  // summed keyword weight
+  evidence: KeywordMatch[];
 }
 
 // ============================================================================
@@ -249,6 +365,21 @@ export interface HealthStatus {
   uptime: number;
   database: boolean;
   ai: boolean;
+  ai_status: AiStatus;
+}
+
+/**
+ * AI circuit breaker: closed = working, open = cooling down after an error,
+ * half_open = cooldown over / probe in flight, disabled = needs user action
+ */
+export interface AiStatus {
+  enabled: boolean;
+  state: 'closed' | 'open' | 'half_open' | 'disabled';
+  provider: string;
+  disabled_reason: string | null;
+  disabled_since: string | null;
+  next_retry_at: string | null;
+  consecutive_failures: number;
 }
 
 // ============================================================================
@@ -262,9 +393,135 @@ export interface CompressionResult {
   facts: string[];
   narrative: string;
   concepts: string[];
+  files_read?: string[];
   files_modified: string[];
   should_store: boolean;
   knowledge_type?: KnowledgeType;
+  discovery_tokens?: number;  // set by the compressor from the request's usage, not by the model
+  template_version?: string;  // set by the compressor from the rendered prompt
+}
+
+export interface ConsolidationResult {
+  session_id: string;
+  consolidated: Array<{ id: number; title: string; merged_from: number[] }>;
+  merged: number;     // observations folded into the consolidated ones
+  remaining: number;  // observations of the session listed afterwards
+}
+
+export interface ObservationProvenance {
+  observation: ObservationRow;
+  merged_from: ObservationProvenance[];
+}
+
+export type CompressionJobStatus = 'pending' | 'processing' | 'dead';
+
+export interface PendingCompressionRow {
+  id: number;
+  session_id: string;
+  project: string;
+  tool_name: string;
+  tool_input: string | null;   // JSON when the hook sent an object
+  tool_output: string | null;
+  prompt_number: number | null;
+  status: CompressionJobStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at_epoch: number;
+  created_at: string;
+  created_at_epoch: number;
+  updated_at_epoch: number;
+}
+
+export interface PendingCompressionInput {
+  session_id: string;
+  project: string;
+  tool_name: string;
+  tool_input?: string | object;
+  tool_output?: string;
+  prompt_number?: number;
+}
+
+export interface CompressionQueueStatus {
+  running: boolean;
+  paused_reason: string | null;  // set while AI is unavailable; jobs wait instead of failing
+  concurrency: number;
+  max_attempts: number;
+  batch_size: number;
+  batch_window_ms: number;
+  active: number;                // batches in flight
+  pending: number;
+  due: number;                   // pending jobs whose backoff has elapsed
+  processing: number;
+  dead: number;
+  oldest_pending_at: string | null;
+  processed: number;             // since worker start
+  deduplicated: number;          // repeated reads folded into another call, since worker start
+  requests: number;              // compression requests sent, since worker start
+  failed_attempts: number;       // failed requests, since worker start
+  recent_dead: PendingCompressionRow[];
+}
+
+export interface AiUsageInput {
+  project: string | null;  // null for requests not tied to a project (routing)
+  task: string;            // compression | summary | routing
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  success: boolean;
+  error?: string;
+}
+
+export interface AiUsageRow {
+  id: number;
+  project: string | null;
+  task: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  success: number;  // 0 or 1
+  error: string | null;
+  created_at: string;
+  created_at_epoch: number;
+}
+
+export interface AiUsageTotals {
+  requests: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  avg_latency_ms: number;
+}
+
+export interface AiBudgetStatus {
+  project: string;
+  daily_limit: number;     // tokens; 0 = unlimited
+  daily_used: number;
+  monthly_limit: number;
+  monthly_used: number;
+  exceeded: 'daily' | 'monthly' | null;
+  resets_at: string | null;  // when the exceeded budget starts over
+}
+
+export interface AiUsageReport {
+  since: string;
+  project: string | null;
+  totals: AiUsageTotals;
+  by_day: Array<AiUsageTotals & { day: string }>;
+  by_task: Array<AiUsageTotals & { task: string }>;
+  by_model: Array<AiUsageTotals & { provider: string; model: string }>;
+  by_project: Array<AiUsageTotals & { project: string | null }>;
+  budgets: AiBudgetStatus[];
+}
+
+export interface RoutingClassification {
+  task_type: string;
+  workflow: string;
+  confidence: number;  // 0-1
+  reason: string;
 }
 
 export interface SummaryResult {
@@ -290,6 +547,13 @@ export type KnowledgeAssetType =
   | 'skill'         // 技能
   | 'reference';    // 参考资料
 
+/**
+ * draft: written automatically (session summaries), not reviewed
+ * pending: submitted for sinking, awaiting review
+ * published: visible to search, context injection, AGENTS-INDEX.md and L2 push
+ */
+export type KnowledgeAssetStatus = 'draft' | 'pending' | 'published';
+
 export interface KnowledgeAssetRow {
   id: number;
   type: KnowledgeAssetType;
@@ -301,12 +565,20 @@ export interface KnowledgeAssetRow {
   source_project: string | null;
   l2_path: string | null; // path in L2 repo
   promoted: number;       // 0 = L1 only, 1 = pushed to L2
+  status: KnowledgeAssetStatus;
+  session_id: string | null; // session the asset was extracted from
   created_at: string;
   created_at_epoch: number;
   updated_at: string;
   updated_at_epoch: number;
 }
 
+export interface RelatedAsset extends KnowledgeAssetRow {
+  score: number;            // 0-1, higher is more relevant
+  matched_terms: string[];  // prompt terms found in the asset
+  same_product_line: boolean;
+}
+
 export interface KnowledgeAssetInput {
   type: KnowledgeAssetType;
   name: string;
@@ -316,6 +588,105 @@ export interface KnowledgeAssetInput {
   content: string;
   source_project?: string;
   l2_path?: string;
+  status?: KnowledgeAssetStatus; // new assets default to 'published', updates keep the current status
+  session_id?: string;
+}
+
+export type KnowledgeRevisionSource = 'sink' | 'pull' | 'manual';
+
+/**
+ * Where a change to an asset came from, recorded with its revision
+ */
+export interface KnowledgeRevisionOrigin {
+  source: KnowledgeRevisionSource;
+  author?: string;   // session id, L2 commit or the person editing
+  message?: string;
+}
+
+/**
+ * Snapshot of a knowledge asset after one change
+ */
+export interface KnowledgeAssetRevisionRow {
+  id: number;
+  asset_id: number;
+  revision: number;       // 1, 2, ... per asset
+  source: KnowledgeRevisionSource;
+  author: string | null;
+  message: string | null;
+  type: KnowledgeAssetType;
+  name: string;
+  product_line: string;
+  tags: string | null;    // JSON array
+  title: string;
+  content: string;
+  status: KnowledgeAssetStatus;
+  created_at: string;
+  created_at_epoch: number;
+}
+
+export interface KnowledgeAssetRevision extends KnowledgeAssetRevisionRow {
+  diff: string;           // unified diff against the previous revision
+}
+
+export interface KnowledgeAssetHistory {
+  asset: KnowledgeAssetRow;
+  revisions: KnowledgeAssetRevision[]; // newest first
+}
+
+export type PendingKnowledgeStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Where a draft came from: a sinkable observation, or a draft / pending
+ * knowledge asset written by a session summary or a sink request
+ */
+export type PendingKnowledgeOrigin = 'observation' | 'summary' | 'sink';
+
+/**
+ * Knowledge waiting for review
+ */
+export interface PendingKnowledgeRow {
+  id: number;
+  origin: PendingKnowledgeOrigin;
+  observation_id: number | null;
+  session_id: string | null;
+  project: string;
+  type: KnowledgeAssetType;
+  name: string;
+  product_line: string;
+  title: string;
+  content: string;
+  tags: string | null;    // JSON array
+  status: PendingKnowledgeStatus;
+  asset_id: number | null; // the unpublished asset for summary / sink drafts, else set on approval
+  reject_reason: string | null;
+  snoozed_until: string | null; // left out of reminders until then
+  snoozed_until_epoch: number | null;
+  edited_at: string | null;     // last edit by a reviewer
+  edited_at_epoch: number | null;
+  created_at: string;
+  created_at_epoch: number;
+  reviewed_at: string | null;
+  reviewed_at_epoch: number | null;
+}
+
+/**
+ * Reviewer changes to a pending draft
+ */
+export interface PendingKnowledgeEdit {
+  type?: KnowledgeAssetType;
+  name?: string;
+  product_line?: string;
+  title?: string;
+  content?: string;
+  tags?: string[];
+}
+
+export interface PendingKnowledgeInput extends KnowledgeAssetInput {
+  origin?: PendingKnowledgeOrigin; // default 'observation'
+  observation_id?: number;
+  asset_id?: number;
+  session_id?: string;
+  project: string;
 }
 
 export type SyncDirection = 'pull' | 'push' | 'both';
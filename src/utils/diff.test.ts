@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { unifiedDiff } from './diff.js';
+
+const lines = (count: number, change: (n: number) => string = n => `line ${n}`): string =>
+  Array.from({ length: count }, (_, i) => change(i + 1)).join('\n');
+
+test('unifiedDiff is empty for equal texts', () => {
+  assert.equal(unifiedDiff('a\nb\n', 'a\nb'), '');
+  assert.equal(unifiedDiff('a\r\nb', 'a\nb'), '');
+  assert.equal(unifiedDiff('', ''), '');
+});
+
+test('unifiedDiff prints deletions before insertions', () => {
+  assert.equal(
+    unifiedDiff('a\nb\nc', 'a\nB\nc', { oldLabel: 'x@1', newLabel: 'x@2' }),
+    ['--- x@1', '+++ x@2', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c'].join('\n')
+  );
+});
+
+test('unifiedDiff names the line before an empty range', () => {
+  assert.equal(unifiedDiff('', 'a\nb'), ['--- a', '+++ b', '@@ -0,0 +1,2 @@', '+a', '+b'].join('\n'));
+  assert.equal(unifiedDiff('a\nb', ''), ['--- a', '+++ b', '@@ -1,2 +0,0 @@', '-a', '-b'].join('\n'));
+  assert.equal(
+    unifiedDiff('a\nb', 'a\nx\nb', { context: 0 }),
+    ['--- a', '+++ b', '@@ -1,0 +2 @@', '+x'].join('\n')
+  );
+});
+
+test('unifiedDiff splits distant changes into hunks with context', () => {
+  const before = lines(20);
+  const after = lines(20, n => (n === 2 || n === 18 ? `changed ${n}` : `line ${n}`));
+
+  assert.equal(
+    unifiedDiff(before, after),
+    [
+      '--- a',
+      '+++ b',
+      '@@ -1,5 +1,5 @@',
+      ' line 1',
+      '-line 2',
+      '+changed 2',
+      ' line 3',
+      ' line 4',
+      ' line 5',
+      '@@ -15,6 +15,6 @@',
+      ' line 15',
+      ' line 16',
+      ' line 17',
+      '-line 18',
+      '+changed 18',
+      ' line 19',
+      ' line 20',
+    ].join('\n')
+  );
+});
+
+test('unifiedDiff merges changes whose context windows touch', () => {
+  const before = lines(12);
+  const after = lines(12, n => (n === 3 || n === 9 ? `changed ${n}` : `line ${n}`));
+
+  const hunks = unifiedDiff(before, after).split('\n').filter(line => line.startsWith('@@'));
+  assert.deepEqual(hunks, ['@@ -1,12 +1,12 @@']);
+});
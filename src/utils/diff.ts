@@ -0,0 +1,90 @@
+/**
+ * Line-based unified diff
+ */
+
+interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+  oldLine: number; // 1-based line in the old text (next line for insertions)
+  newLine: number; // 1-based line in the new text (next line for deletions)
+}
+
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Edit script from the longest common subsequence of the two line lists
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      // Deletions before insertions, as diff -u prints them
+      lines.push({ op: '-', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+    } else {
+      lines.push({ op: '+', text: b[j], oldLine: i + 1, newLine: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range names the line before it, as diff -u does
+  const from = count === 0 ? start - 1 : start;
+  return count === 1 ? `${from}` : `${from},${count}`;
+}
+
+/**
+ * Unified diff of two texts with `context` unchanged lines around each change.
+ * Empty when the texts are the same.
+ */
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldLabel?: string; newLabel?: string; context?: number } = {}
+): string {
+  const context = options.context ?? 3;
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = lines.map((line, index) => (line.op === ' ' ? -1 : index)).filter(index => index >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context windows touch into one hunk
+  const groups: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  const output = [`--- ${options.oldLabel || 'a'}`, `+++ ${options.newLabel || 'b'}`];
+  for (const [first, last] of groups) {
+    const hunk = lines.slice(Math.max(0, first - context), Math.min(lines.length, last + context + 1));
+    const oldCount = hunk.filter(line => line.op !== '+').length;
+    const newCount = hunk.filter(line => line.op !== '-').length;
+
+    output.push(`@@ -${hunkRange(hunk[0].oldLine, oldCount)} +${hunkRange(hunk[0].newLine, newCount)} @@`);
+    output.push(...hunk.map(line => `${line.op}${line.text}`));
+  }
+  return output.join('\n');
+}